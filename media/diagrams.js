@@ -0,0 +1,96 @@
+// File: media/diagrams.js
+//
+// Draws @diagram blocks in the OSF preview with the bundled mermaid and
+// Viz.js (graphviz) builds, and reports syntax errors back to the extension
+// so they can be shown as editor diagnostics. Runs after the preview's inline
+// script, which defines the `vscode` webview API handle.
+//
+// `media/preview.js` calls `renderDiagrams()` after each update. Diagrams that
+// are already drawn are left alone; runs are queued, and a run that a newer
+// update has superseded stops before its next diagram.
+(function () {
+    let viz;
+    let generation = 0;
+    let nextId = 0;
+    let queue = Promise.resolve();
+
+    const palette = JSON.parse(document.body.dataset.palette || '{}');
+    if (window.mermaid) {
+        window.mermaid.initialize({
+            startOnLoad: false,
+            securityLevel: 'strict',
+            theme: 'base',
+            themeVariables: {
+                primaryColor: palette.background,
+                primaryBorderColor: (palette.series || [])[0],
+                primaryTextColor: palette.text,
+                lineColor: palette.muted,
+                secondaryColor: palette.grid,
+                tertiaryColor: palette.background
+            }
+        });
+    }
+
+    async function renderDiagram(container) {
+        const source = container.querySelector('.diagram-source').textContent;
+        const output = container.querySelector('.diagram-output');
+        const errorBox = container.querySelector('.diagram-error');
+        const id = `osf-diagram-${nextId++}`;
+        container.dataset.state = 'rendering';
+
+        try {
+            if (container.dataset.engine === 'graphviz') {
+                viz = viz || await window.Viz.instance();
+                const result = viz.render(source, { format: 'svg' });
+                if (result.status !== 'success') {
+                    const messages = result.errors.filter(e => e.level !== 'warning').map(e => e.message);
+                    throw new Error(messages.join('\n') || 'Graphviz could not render this diagram');
+                }
+                const svg = new DOMParser().parseFromString(result.output, 'image/svg+xml').documentElement;
+                output.replaceChildren(document.importNode(svg, true));
+            } else {
+                const { svg } = await window.mermaid.render(id, source);
+                output.innerHTML = svg;
+            }
+            container.dataset.state = 'rendered';
+            container.classList.add('diagram-rendered');
+        } catch (error) {
+            const message = String((error && error.message) || error);
+            // mermaid leaves its scratch element behind when rendering fails
+            document.getElementById(`d${id}`)?.remove();
+            errorBox.textContent = message;
+            errorBox.hidden = false;
+            container.dataset.state = 'failed';
+            container.dataset.error = message;
+            container.classList.add('diagram-failed');
+        }
+    }
+
+    async function renderPending(run) {
+        const pending = Array.from(document.querySelectorAll('.diagram[data-engine]:not([data-state])'));
+        for (const container of pending) {
+            if (run !== generation) {
+                return;
+            }
+            if (container.isConnected) {
+                await renderDiagram(container);
+            }
+        }
+
+        // Errors are reported by position among all diagrams of this render
+        const errors = [];
+        document.querySelectorAll('.diagram[data-engine]').forEach((container, index) => {
+            if (container.dataset.error !== undefined) {
+                errors.push({ index, message: container.dataset.error });
+            }
+        });
+        vscode.postMessage({ command: 'diagramErrors', version: Number(document.body.dataset.version), errors });
+    }
+
+    window.renderDiagrams = function () {
+        const run = ++generation;
+        queue = queue.then(() => renderPending(run));
+    };
+
+    window.renderDiagrams();
+})();
@@ -0,0 +1,206 @@
+// File: media/present.js
+//
+// Slideshow and presenter view for "OSF: Present Slides". Slides are fixed
+// 1280×720 sections scaled to fit their stage. The extension owns the current
+// slide index: keys post `navigate`, and both views follow `show` messages so
+// the slideshow and presenter view stay in sync. Edits to the document arrive
+// as `slides` messages that swap the slides in place, so the timer and the
+// overview carry on.
+(function () {
+    const vscode = acquireVsCodeApi();
+    const body = document.body;
+    const mode = body.dataset.mode;
+    let count = Number(body.dataset.count);
+    const SLIDE_WIDTH = 1280;
+    const SLIDE_HEIGHT = 720;
+    let current = Number(body.dataset.index) || 0;
+    let startedAt = Date.now();
+
+    const stages = Array.from(document.querySelectorAll('.stage'));
+    const overview = document.querySelector('.overview');
+
+    function fit() {
+        for (const stage of stages) {
+            const deck = stage.querySelector('.deck');
+            const scale = Math.min(stage.clientWidth / SLIDE_WIDTH, stage.clientHeight / SLIDE_HEIGHT);
+            deck.style.transform = `scale(${scale})`;
+            deck.style.left = `${(stage.clientWidth - SLIDE_WIDTH * scale) / 2}px`;
+            deck.style.top = `${(stage.clientHeight - SLIDE_HEIGHT * scale) / 2}px`;
+        }
+    }
+
+    function show(index) {
+        current = index;
+        for (const stage of stages) {
+            const offset = stage.dataset.offset ? Number(stage.dataset.offset) : 0;
+            const target = current + offset;
+            stage.querySelectorAll('.slide').forEach(slide => {
+                slide.classList.toggle('active', Number(slide.dataset.index) === target);
+            });
+            stage.classList.toggle('finished', target >= count);
+        }
+        document.querySelectorAll('.counter').forEach(counter => {
+            counter.textContent = `${current + 1} / ${count}`;
+        });
+        overview?.querySelectorAll('.thumb').forEach(thumb => {
+            thumb.classList.toggle('current', Number(thumb.dataset.index) === current);
+        });
+    }
+
+    function navigate(index) {
+        vscode.postMessage({ command: 'navigate', index: Math.max(0, Math.min(count - 1, index)) });
+    }
+
+    function toggleOverview(visible) {
+        if (!overview) {
+            return;
+        }
+        overview.hidden = visible === undefined ? !overview.hidden : !visible;
+        if (!overview.hidden) {
+            overview.querySelector('.thumb.current')?.scrollIntoView({ block: 'nearest' });
+        }
+    }
+
+    function buildOverview() {
+        if (!overview) {
+            return;
+        }
+        document.querySelectorAll('.stage:not([data-offset]) .slide').forEach(slide => {
+            const thumb = document.createElement('button');
+            thumb.className = 'thumb';
+            thumb.dataset.index = slide.dataset.index;
+            const frame = document.createElement('div');
+            frame.className = 'thumb-frame';
+            const copy = slide.cloneNode(true);
+            copy.classList.add('active');
+            frame.appendChild(copy);
+            const label = document.createElement('span');
+            label.textContent = String(Number(slide.dataset.index) + 1);
+            thumb.append(frame, label);
+            thumb.addEventListener('click', () => {
+                navigate(Number(thumb.dataset.index));
+                toggleOverview(false);
+            });
+            overview.appendChild(thumb);
+        });
+    }
+
+    function updateSlides(message) {
+        count = message.count;
+        document.getElementById('presentation-style').textContent = message.css;
+        document.querySelectorAll('.deck').forEach(deck => {
+            deck.innerHTML = message.slides;
+        });
+        if (overview) {
+            overview.replaceChildren();
+            buildOverview();
+        }
+        show(message.index);
+        fit();
+    }
+
+    function updateTimer() {
+        const timer = document.querySelector('.timer');
+        const clock = document.querySelector('.clock');
+        if (!timer) {
+            return;
+        }
+        const elapsed = Math.floor((Date.now() - startedAt) / 1000);
+        const minutes = String(Math.floor(elapsed / 60)).padStart(2, '0');
+        const seconds = String(elapsed % 60).padStart(2, '0');
+        timer.textContent = `${minutes}:${seconds}`;
+        clock.textContent = new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    }
+
+    document.addEventListener('keydown', event => {
+        if (event.altKey || event.ctrlKey || event.metaKey) {
+            return;
+        }
+        switch (event.key) {
+            case 'ArrowRight':
+            case 'ArrowDown':
+            case 'PageDown':
+            case ' ':
+            case 'n':
+                navigate(current + 1);
+                break;
+            case 'ArrowLeft':
+            case 'ArrowUp':
+            case 'PageUp':
+            case 'Backspace':
+            case 'p':
+                navigate(current - 1);
+                break;
+            case 'Home':
+                navigate(0);
+                break;
+            case 'End':
+                navigate(count - 1);
+                break;
+            case 'g':
+            case 'o':
+                toggleOverview();
+                break;
+            case 's':
+                vscode.postMessage({ command: 'openPresenter' });
+                break;
+            case 'f':
+                vscode.postMessage({ command: 'toggleFullScreen' });
+                break;
+            case 'r':
+                startedAt = Date.now();
+                updateTimer();
+                break;
+            case 'Escape':
+                if (overview && !overview.hidden) {
+                    toggleOverview(false);
+                } else {
+                    vscode.postMessage({ command: 'exit' });
+                }
+                break;
+            default:
+                return;
+        }
+        event.preventDefault();
+    });
+
+    document.querySelectorAll('[data-action]').forEach(button => {
+        button.addEventListener('click', () => {
+            switch (button.dataset.action) {
+                case 'previous':
+                    navigate(current - 1);
+                    break;
+                case 'next':
+                    navigate(current + 1);
+                    break;
+                case 'overview':
+                    toggleOverview();
+                    break;
+                case 'presenter':
+                    vscode.postMessage({ command: 'openPresenter' });
+                    break;
+                case 'reset-timer':
+                    startedAt = Date.now();
+                    updateTimer();
+                    break;
+            }
+        });
+    });
+
+    window.addEventListener('message', event => {
+        if (event.data?.command === 'show') {
+            show(event.data.index);
+        } else if (event.data?.command === 'slides') {
+            updateSlides(event.data);
+        }
+    });
+    window.addEventListener('resize', fit);
+
+    buildOverview();
+    show(current);
+    fit();
+    if (mode === 'presenter') {
+        updateTimer();
+        setInterval(updateTimer, 1000);
+    }
+})();
@@ -0,0 +1,71 @@
+// File: media/preview.js
+//
+// Applies incremental updates to the OSF preview. The extension loads the
+// shell once and then posts `update` messages holding one splice of changed
+// blocks plus the source lines of every block, so unchanged blocks (and
+// rendered diagrams) stay in place and the scroll position is kept. Runs after
+// the preview's inline script, which defines the `vscode` webview API handle.
+(function () {
+    const content = document.getElementById('preview-content');
+    const header = document.getElementById('preview-header');
+    const errorBox = document.getElementById('preview-error');
+
+    // Remembered by VS Code so the preview can be restored after a reload
+    vscode.setState({ ...vscode.getState(), ...JSON.parse(document.body.dataset.state || '{}') });
+
+    function createBlock(html) {
+        const block = document.createElement('div');
+        block.className = 'source-block';
+        block.innerHTML = html;
+        return block;
+    }
+
+    function setSourceLines(lines) {
+        Array.from(content.children).forEach((block, i) => {
+            const range = lines[i];
+            if (range) {
+                block.dataset.line = String(range.start);
+                block.dataset.lineEnd = String(range.end);
+            } else {
+                delete block.dataset.line;
+                delete block.dataset.lineEnd;
+            }
+        });
+    }
+
+    function applyUpdate(update) {
+        // Messages arrive in order, but never go back to an older render
+        if (update.version <= Number(document.body.dataset.version)) {
+            return;
+        }
+        document.body.dataset.version = String(update.version);
+        document.title = update.title;
+        header.innerHTML = update.header;
+
+        const { start, deleteCount, blocks } = update.splice;
+        for (let i = 0; i < deleteCount; i++) {
+            content.children[start].remove();
+        }
+        const before = content.children[start] || null;
+        for (const html of blocks) {
+            content.insertBefore(createBlock(html), before);
+        }
+        setSourceLines(update.lines);
+
+        errorBox.hidden = true;
+        errorBox.replaceChildren();
+        if (window.renderDiagrams) {
+            window.renderDiagrams();
+        }
+    }
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        if (message.command === 'update') {
+            applyUpdate(message);
+        } else if (message.command === 'error') {
+            errorBox.innerHTML = message.html;
+            errorBox.hidden = false;
+        }
+    });
+})();
@@ -0,0 +1,112 @@
+// File: media/scrollSync.js
+//
+// Keeps the OSF preview and its editor scrolled to the same place, and opens
+// the source of a block when it is double-clicked. Rendered blocks carry their
+// zero-based source lines in `data-line` / `data-line-end`. Runs after the
+// preview's inline script, which defines the `vscode` webview API handle.
+(function () {
+    // Scroll events caused by scrollToLine are not reported back to the editor
+    let ignoreScrollUntil = 0;
+    let scrollPending = false;
+
+    function getBlocks() {
+        return Array.from(document.querySelectorAll('.source-block[data-line]')).map(element => ({
+            element,
+            start: Number(element.dataset.line),
+            end: Number(element.dataset.lineEnd)
+        }));
+    }
+
+    /**
+     * Document offset (in pixels) of a source line, interpolated within the
+     * block containing it or across the gap between two blocks.
+     */
+    function getOffsetOfLine(line) {
+        const blocks = getBlocks();
+        let index = -1;
+        while (index + 1 < blocks.length && blocks[index + 1].start <= line) {
+            index++;
+        }
+        if (index === -1) {
+            return 0;
+        }
+
+        const block = blocks[index];
+        const rect = block.element.getBoundingClientRect();
+        if (line <= block.end) {
+            const fraction = (line - block.start) / (block.end - block.start + 1);
+            return window.scrollY + rect.top + fraction * rect.height;
+        }
+
+        const next = blocks[index + 1];
+        const bottom = window.scrollY + rect.bottom;
+        if (!next) {
+            return bottom;
+        }
+        const nextTop = window.scrollY + next.element.getBoundingClientRect().top;
+        const fraction = (line - block.end) / (next.start - block.end);
+        return bottom + fraction * (nextTop - bottom);
+    }
+
+    /**
+     * Source line shown at the top of the preview.
+     */
+    function getLineAtTop() {
+        const blocks = getBlocks();
+        let previous;
+        for (const block of blocks) {
+            const rect = block.element.getBoundingClientRect();
+            if (rect.bottom <= 0) {
+                previous = block;
+                continue;
+            }
+            if (rect.top >= 0) {
+                if (!previous) {
+                    return 0;
+                }
+                const previousBottom = previous.element.getBoundingClientRect().bottom;
+                const fraction = -previousBottom / (rect.top - previousBottom);
+                return Math.floor(previous.end + fraction * (block.start - previous.end));
+            }
+            const fraction = -rect.top / rect.height;
+            return Math.floor(block.start + fraction * (block.end - block.start + 1));
+        }
+        return previous ? previous.end : 0;
+    }
+
+    function scrollToLine(line) {
+        ignoreScrollUntil = Date.now() + 100;
+        window.scrollTo(0, getOffsetOfLine(line));
+    }
+
+    window.addEventListener('scroll', () => {
+        if (Date.now() < ignoreScrollUntil || scrollPending) {
+            return;
+        }
+        scrollPending = true;
+        requestAnimationFrame(() => {
+            scrollPending = false;
+            const line = getLineAtTop();
+            vscode.setState({ ...vscode.getState(), line });
+            vscode.postMessage({ command: 'previewScrolled', line });
+        });
+    });
+
+    document.addEventListener('dblclick', event => {
+        const block = event.target.closest('.source-block[data-line]');
+        if (block) {
+            vscode.postMessage({ command: 'openSource', line: Number(block.dataset.line) });
+        }
+    });
+
+    window.addEventListener('message', event => {
+        if (event.data && event.data.command === 'scrollToLine') {
+            scrollToLine(event.data.line);
+        }
+    });
+
+    const initialLine = Number(document.body.dataset.initialLine);
+    if (initialLine > 0) {
+        scrollToLine(initialLine);
+    }
+})();
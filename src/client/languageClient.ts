@@ -0,0 +1,41 @@
+// File: src/client/languageClient.ts
+import * as path from 'path';
+import * as vscode from 'vscode';
+import {
+    LanguageClient,
+    LanguageClientOptions,
+    Middleware,
+    ServerOptions,
+    TransportKind
+} from 'vscode-languageclient/node';
+
+/**
+ * Create the client that launches the bundled OSF language server over stdio.
+ * The middleware can answer requests before they reach the server.
+ */
+export function createLanguageClient(context: vscode.ExtensionContext, middleware?: Middleware): LanguageClient {
+    const serverModule = context.asAbsolutePath(path.join('out', 'server', 'server.js'));
+
+    const serverOptions: ServerOptions = {
+        run: { module: serverModule, transport: TransportKind.stdio },
+        debug: {
+            module: serverModule,
+            transport: TransportKind.stdio,
+            options: { execArgv: ['--nolazy', '--inspect=6009'] }
+        }
+    };
+
+    const clientOptions: LanguageClientOptions = {
+        documentSelector: [{ scheme: 'file', language: 'osf' }],
+        synchronize: {
+            configurationSection: 'osf',
+            fileEvents: [
+                vscode.workspace.createFileSystemWatcher('**/*.osf'),
+                vscode.workspace.createFileSystemWatcher('**/.osf/themes/*.{json,css}')
+            ]
+        },
+        middleware
+    };
+
+    return new LanguageClient('osfLanguageServer', 'OmniScript Language Server', serverOptions, clientOptions);
+}
@@ -0,0 +1,82 @@
+// File: src/commands/exportProfileCommand.ts
+import * as vscode from 'vscode';
+import { getFormatLabel } from '../export/exporter';
+import { EXPORT_PROFILE_FILE } from '../export/exportProfiles';
+import { findProfileFiles, getExportProfiles, runExportProfile } from '../export/profileRunner';
+import type { ThemeRegistry } from '../themes/themeRegistry';
+import { logger } from '../utils/logger';
+
+/**
+ * Command to export with a profile picked from a quick pick. The active OSF
+ * document is exported; without one, the files the profile includes are.
+ */
+export async function exportProfileCommand(themes: ThemeRegistry): Promise<void> {
+    const { profiles, errors } = getExportProfiles();
+    errors.forEach(error => logger.warn(`Export profiles ${error.file}: ${error.message}`));
+
+    if (profiles.length === 0) {
+        const message = errors.length > 0
+            ? 'No valid export profiles; see the OmniScript Format output for errors'
+            : `No export profiles. Add them to the osf.export.profiles setting or ${EXPORT_PROFILE_FILE}`;
+        vscode.window.showWarningMessage(message);
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        profiles.map(profile => ({
+            label: profile.name,
+            description: [getFormatLabel(profile.format), profile.theme, profile.pageSize].filter(Boolean).join(' · '),
+            detail: profile.output,
+            profile
+        })),
+        { title: 'Export with Profile', placeHolder: 'Export profile' }
+    );
+    if (!picked) {
+        return;
+    }
+    const profile = picked.profile;
+
+    const editor = vscode.window.activeTextEditor;
+    const active = editor?.document.languageId === 'osf' ? editor.document : undefined;
+    if (active?.isDirty) {
+        await active.save();
+    }
+    const files = active ? [active.uri] : await findProfileFiles(profile);
+    if (files.length === 0) {
+        vscode.window.showWarningMessage(`Profile ${profile.name} matches no OSF files`);
+        return;
+    }
+
+    const result = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Exporting with ${profile.name}`,
+        cancellable: true
+    }, (progress, token) => runExportProfile(profile, files, themes, message => {
+        logger.info(message);
+        progress.report({ message, increment: 100 / files.length });
+    }, token));
+
+    if (result.failures.length > 0) {
+        const selection = await vscode.window.showErrorMessage(
+            `Export failed for ${result.failures.length} of ${files.length} file(s): ${result.failures[0].message}`,
+            'Show Report'
+        );
+        if (selection === 'Show Report') {
+            logger.show();
+        }
+    } else if (result.exported.length === 1) {
+        const target = vscode.Uri.file(result.exported[0]);
+        const selection = await vscode.window.showInformationMessage(
+            `✓ Exported to ${vscode.workspace.asRelativePath(target)}`,
+            'Open File',
+            'Show in Folder'
+        );
+        if (selection === 'Open File') {
+            await vscode.env.openExternal(target);
+        } else if (selection === 'Show in Folder') {
+            await vscode.commands.executeCommand('revealFileInOS', target);
+        }
+    } else if (result.exported.length > 1) {
+        vscode.window.showInformationMessage(`✓ Exported ${result.exported.length} files with ${profile.name}`);
+    }
+}
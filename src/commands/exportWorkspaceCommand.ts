@@ -0,0 +1,131 @@
+// File: src/commands/exportWorkspaceCommand.ts
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+    EXPORT_FORMATS,
+    ExportFormat,
+    exportDocument,
+    getExportErrorMessage,
+    getFormatLabel,
+    readExportSource
+} from '../export/exporter';
+import type { ThemeRegistry } from '../themes/themeRegistry';
+import { logger } from '../utils/logger';
+
+const EXCLUDE = '**/node_modules/**';
+
+interface ExportFailure {
+    file: string;
+    format: ExportFormat;
+    message: string;
+}
+
+/**
+ * Command to export every OSF file matching a glob to one or more formats.
+ * When run from the explorer on a folder, the glob is relative to that folder.
+ * Files are written to `osf.export.outputDirectory`, keeping their path
+ * relative to the workspace folder.
+ */
+export async function exportWorkspaceCommand(themes: ThemeRegistry, folder?: vscode.Uri): Promise<void> {
+    if (!vscode.workspace.workspaceFolders?.length) {
+        vscode.window.showErrorMessage('Export Workspace needs an open folder or workspace');
+        return;
+    }
+
+    const config = vscode.workspace.getConfiguration('osf.export');
+    const glob = await vscode.window.showInputBox({
+        title: 'Export Workspace',
+        prompt: folder ? `OSF files to export from ${vscode.workspace.asRelativePath(folder)}` : 'OSF files to export',
+        value: config.get<string>('include', '**/*.osf')
+    });
+    if (!glob) {
+        return;
+    }
+
+    const defaultFormats = config.get<string[]>('formats', ['pdf']);
+    const picked = await vscode.window.showQuickPick(
+        EXPORT_FORMATS.map(format => ({ label: getFormatLabel(format), format, picked: defaultFormats.includes(format) })),
+        { title: 'Export Workspace', placeHolder: 'Formats to export', canPickMany: true }
+    );
+    if (!picked?.length) {
+        return;
+    }
+    const formats = picked.map(item => item.format);
+
+    const files = await vscode.workspace.findFiles(folder ? new vscode.RelativePattern(folder, glob) : glob, EXCLUDE);
+    if (files.length === 0) {
+        vscode.window.showWarningMessage(`No OSF files match ${glob}`);
+        return;
+    }
+    files.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+
+    const outputDirectory = config.get<string>('outputDirectory', 'exports');
+    const failures: ExportFailure[] = [];
+    let exported = 0;
+    let cancelled = false;
+
+    await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: 'Exporting OSF files',
+        cancellable: true
+    }, async (progress, token) => {
+        const total = files.length * formats.length;
+        for (const file of files) {
+            const name = vscode.workspace.asRelativePath(file);
+            // A file deleted or moved during the run fails each of its formats
+            let text: string | undefined;
+            let readError: unknown;
+            try {
+                text = await readExportSource(file);
+            } catch (error: any) {
+                readError = error;
+            }
+            for (const format of formats) {
+                if (token.isCancellationRequested) {
+                    cancelled = true;
+                    return;
+                }
+                progress.report({ message: `${name} → ${getFormatLabel(format)}`, increment: 100 / total });
+                if (text === undefined) {
+                    failures.push({ file: name, format, message: getExportErrorMessage(readError) });
+                    continue;
+                }
+                try {
+                    const target = getOutputUri(file, format, outputDirectory);
+                    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(target, '..'));
+                    await vscode.workspace.fs.writeFile(target, await exportDocument(text, format, themes, { basePath: path.dirname(file.fsPath) }));
+                    exported++;
+                } catch (error: any) {
+                    failures.push({ file: name, format, message: getExportErrorMessage(error) });
+                }
+            }
+        }
+    });
+
+    reportResults(exported, failures, cancelled, outputDirectory);
+}
+
+/**
+ * Where a file's export goes: its path relative to its workspace folder,
+ * under the output directory, with the format's extension.
+ */
+function getOutputUri(file: vscode.Uri, format: ExportFormat, outputDirectory: string): vscode.Uri {
+    const workspaceFolder = vscode.workspace.getWorkspaceFolder(file);
+    const root = workspaceFolder?.uri.fsPath ?? path.dirname(file.fsPath);
+    const relative = path.relative(root, file.fsPath).replace(/\.osf$/i, `.${format}`);
+    return vscode.Uri.file(path.resolve(root, outputDirectory, relative));
+}
+
+function reportResults(exported: number, failures: ExportFailure[], cancelled: boolean, outputDirectory: string): void {
+    logger.info(`Export Workspace: ${exported} exported, ${failures.length} failed${cancelled ? ', cancelled' : ''}`);
+    failures.forEach(failure => logger.error(`${failure.file} (${getFormatLabel(failure.format)}): ${failure.message}`));
+
+    const summary = `${exported} file${exported === 1 ? '' : 's'} exported to ${outputDirectory}`;
+    if (failures.length > 0) {
+        vscode.window
+            .showWarningMessage(`${summary}, ${failures.length} failed${cancelled ? ' (cancelled)' : ''}`, 'Show Report')
+            .then(selection => selection === 'Show Report' && logger.show());
+    } else {
+        vscode.window.showInformationMessage(`✓ ${summary}${cancelled ? ' (cancelled)' : ''}`);
+    }
+}
@@ -0,0 +1,89 @@
+// File: src/commands/importCommand.ts
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { importCSV, type CSVImportMode } from '../import/csvImport';
+import { importMarkdown, type MarkdownImportMode } from '../import/markdownImport';
+import { importXLSX } from '../import/xlsxImport';
+import { parseDocumentModel } from '../model/documentModel';
+
+export type ImportFormat = 'markdown' | 'csv' | 'xlsx';
+
+/* eslint-disable @typescript-eslint/naming-convention */
+const FILTERS: Record<ImportFormat, Record<string, string[]>> = {
+    markdown: { Markdown: ['md', 'markdown'] },
+    csv: { CSV: ['csv', 'tsv', 'txt'] },
+    xlsx: { Excel: ['xlsx'] }
+};
+/* eslint-enable @typescript-eslint/naming-convention */
+
+/**
+ * Command to convert a Markdown, CSV or XLSX file to OSF. The file comes from
+ * the explorer context menu or an open dialog, and the result opens as a new
+ * untitled OSF document.
+ */
+export async function importCommand(format: ImportFormat, resource?: vscode.Uri): Promise<void> {
+    let uri = resource;
+    if (!uri) {
+        const picked = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: FILTERS[format],
+            openLabel: 'Import'
+        });
+        uri = picked?.[0];
+    }
+    if (!uri) {
+        return;
+    }
+
+    const name = path.basename(uri.fsPath).replace(/\.[^.]+$/, '');
+    let content: string;
+    try {
+        const data = await vscode.workspace.fs.readFile(uri);
+        const text = () => new TextDecoder('utf-8').decode(data);
+
+        if (format === 'markdown') {
+            const mode = await pickMode<MarkdownImportMode>([
+                { label: 'Document', description: 'One @doc block', mode: 'doc' },
+                { label: 'Slides', description: 'A @slide per ## heading or --- rule', mode: 'slides' }
+            ]);
+            if (!mode) {
+                return;
+            }
+            content = importMarkdown(text(), mode);
+        } else if (format === 'csv') {
+            const mode = await pickMode<CSVImportMode>([
+                { label: 'Table', description: '@table with the first row as header', mode: 'table' },
+                { label: 'Sheet', description: '@sheet keeping every cell coordinate', mode: 'sheet' }
+            ]);
+            if (!mode) {
+                return;
+            }
+            content = importCSV(text(), name, mode);
+        } else {
+            content = await importXLSX(data, name);
+        }
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Import failed: ${error?.message || String(error)}`);
+        return;
+    }
+
+    const document = await vscode.workspace.openTextDocument({ language: 'osf', content });
+    await vscode.window.showTextDocument(document);
+
+    // Source text can contain what OSF cannot hold, such as unbalanced braces
+    // in code samples. The parser accepts some of it and silently cuts the
+    // block short, so report what the model finds rather than parse errors.
+    const problems = parseDocumentModel(content).errors;
+    if (problems.length > 0) {
+        const [first] = problems;
+        const more = problems.length > 1 ? ` (${problems.length - 1} more problems)` : '';
+        vscode.window.showWarningMessage(
+            `The imported document needs fixing: ${first.message} on line ${first.range.start.line + 1}${more}`
+        );
+    }
+}
+
+async function pickMode<T>(items: (vscode.QuickPickItem & { mode: T })[]): Promise<T | undefined> {
+    const picked = await vscode.window.showQuickPick(items, { title: 'Import as', placeHolder: 'OSF block type' });
+    return picked?.mode;
+}
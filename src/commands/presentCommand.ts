@@ -0,0 +1,471 @@
+// File: src/commands/presentCommand.ts
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { parse, type MetaBlock, type OSFDocument, type SlideBlock } from 'omniscript-parser';
+import { parseDocumentModel } from '../model/documentModel';
+import { escapeHtml, getNonce } from '../preview/html';
+import { getHighlightCSS } from '../preview/renderer';
+import { renderPresentationSlide } from '../preview/slides';
+import type { ThemeRegistry } from '../themes/themeRegistry';
+import { getThemeVariables, type ThemeDefinition } from '../themes/themes';
+
+interface ParsedPresentation {
+    document: OSFDocument;
+    slides: SlideBlock[];
+    theme: ThemeDefinition;
+    /** Theme of each slide, which may override `theme`. */
+    slideThemes: ThemeDefinition[];
+}
+
+type PresentationMode = 'slideshow' | 'presenter';
+
+/**
+ * Command to present the `@slide` blocks of the active OSF document as a
+ * full-window slideshow, with an optional presenter view showing the next
+ * slide and a timer.
+ */
+export async function presentCommand(context: vscode.ExtensionContext, themes: ThemeRegistry): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+
+    if (!editor) {
+        vscode.window.showErrorMessage('No active editor');
+        return;
+    }
+
+    if (editor.document.languageId !== 'osf') {
+        vscode.window.showErrorMessage('Current file is not an OSF document');
+        return;
+    }
+
+    const parseSlides = (): ParsedPresentation => {
+        const config = vscode.workspace.getConfiguration('osf');
+        const parseOptions = config.get('preview.resolveIncludes', true)
+            ? { resolveIncludes: true, basePath: path.dirname(editor.document.uri.fsPath) }
+            : {};
+        const text = editor.document.getText();
+        const document = parse(text, parseOptions);
+        const resolved = themes.resolveThemes(document, parseDocumentModel(text), config.get('preview.theme'));
+
+        const slides: SlideBlock[] = [];
+        const slideThemes: ThemeDefinition[] = [];
+        document.blocks.forEach((block, i) => {
+            if (block.type === 'slide') {
+                slides.push(block as SlideBlock);
+                slideThemes.push(resolved.blocks[i]);
+            }
+        });
+        return { document, slides, theme: resolved.document, slideThemes };
+    };
+
+    let parsed: ParsedPresentation;
+    try {
+        parsed = parseSlides();
+    } catch (error: any) {
+        vscode.window.showErrorMessage(`Cannot present: ${error?.message || 'parse failed'}`);
+        return;
+    }
+
+    if (parsed.slides.length === 0) {
+        vscode.window.showInformationMessage('This document has no @slide blocks to present');
+        return;
+    }
+
+    const fileName = path.basename(editor.document.fileName);
+    const panels = new Map<PresentationMode, vscode.WebviewPanel>();
+    let current = 0;
+
+    const render = (mode: PresentationMode) => {
+        const panel = panels.get(mode);
+        if (!panel) {
+            return;
+        }
+        const script = panel.webview.asWebviewUri(vscode.Uri.joinPath(context.extensionUri, 'media', 'present.js'));
+        panel.webview.html = generatePresentationHTML(
+            parsed,
+            mode,
+            current,
+            getNonce(),
+            panel.webview.cspSource,
+            script.toString()
+        );
+    };
+
+    const show = (index: number) => {
+        current = Math.max(0, Math.min(parsed.slides.length - 1, index));
+        for (const panel of panels.values()) {
+            panel.webview.postMessage({ command: 'show', index: current });
+        }
+    };
+
+    const openPanel = (mode: PresentationMode) => {
+        const existing = panels.get(mode);
+        if (existing) {
+            existing.reveal();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            mode === 'slideshow' ? 'osfPresentation' : 'osfPresenterView',
+            `${mode === 'slideshow' ? 'Present' : 'Presenter View'}: ${fileName}`,
+            mode === 'slideshow' ? vscode.ViewColumn.Active : vscode.ViewColumn.Beside,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [vscode.Uri.joinPath(context.extensionUri, 'media')]
+            }
+        );
+        panels.set(mode, panel);
+
+        panel.webview.onDidReceiveMessage(
+            message => {
+                switch (message.command) {
+                    case 'navigate':
+                        show(Number(message.index));
+                        break;
+                    case 'openPresenter':
+                        openPanel('presenter');
+                        break;
+                    case 'toggleFullScreen':
+                        vscode.commands.executeCommand('workbench.action.toggleFullScreen');
+                        break;
+                    case 'exit':
+                        panel.dispose();
+                        break;
+                }
+            },
+            undefined,
+            context.subscriptions
+        );
+
+        panel.onDidDispose(() => {
+            panels.delete(mode);
+            // Closing the slideshow ends the presentation
+            if (mode === 'slideshow') {
+                panels.get('presenter')?.dispose();
+                changeDisposable.dispose();
+            }
+        });
+
+        render(mode);
+    };
+
+    // Replace the slides in place on edits, so the current slide, the overview and the
+    // presenter timer carry on; a parse error keeps the last good slides
+    const changeDisposable = vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.document !== editor.document) {
+            return;
+        }
+        if (!vscode.workspace.getConfiguration('osf').get('preview.autoRefresh', true)) {
+            return;
+        }
+        try {
+            const next = parseSlides();
+            if (next.slides.length === 0) {
+                return;
+            }
+            parsed = next;
+        } catch {
+            return;
+        }
+        current = Math.min(current, parsed.slides.length - 1);
+        for (const panel of panels.values()) {
+            panel.webview.postMessage({
+                command: 'slides',
+                slides: renderDeck(parsed),
+                count: parsed.slides.length,
+                css: getPresentationCSS(parsed.theme),
+                index: current
+            });
+        }
+    });
+
+    openPanel('slideshow');
+    // Give the slides as much room as possible; not every VS Code build has this command
+    vscode.commands.executeCommand('workbench.action.maximizeEditor').then(undefined, () => undefined);
+}
+
+/**
+ * Generate the slideshow or presenter view HTML. All slides are rendered up
+ * front; `media/present.js` shows the current one and scales it to fit.
+ */
+function generatePresentationHTML(
+    presentation: ParsedPresentation,
+    mode: PresentationMode,
+    index: number,
+    nonce: string,
+    cspSource: string,
+    script: string
+): string {
+    const { document, slides, theme } = presentation;
+    const metaBlock = document.blocks.find((block): block is MetaBlock => block.type === 'meta');
+    const title = metaBlock?.props?.title ? String(metaBlock.props.title) : 'Presentation';
+    const deck = `<div class="deck">${renderDeck(presentation)}</div>`;
+    const csp = `default-src 'none'; img-src ${cspSource} https: data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';`;
+
+    const body = mode === 'slideshow'
+        ? `
+    <div class="stage stage-main">${deck}</div>
+    <div class="toolbar">
+        <button data-action="previous" title="Previous slide (←)">‹</button>
+        <span class="counter"></span>
+        <button data-action="next" title="Next slide (→)">›</button>
+        <button data-action="overview" title="Overview (G)">▦</button>
+        <button data-action="presenter" title="Presenter view (S)">Presenter</button>
+    </div>
+    <div class="overview" hidden></div>`
+        : `
+    <div class="presenter">
+        <div class="presenter-current">
+            <div class="stage">${deck}</div>
+        </div>
+        <div class="presenter-side">
+            <div class="presenter-label">Next</div>
+            <div class="stage stage-next" data-offset="1">${deck}<p class="end-note">End of presentation</p></div>
+            <div class="presenter-timer">
+                <span class="timer">00:00</span>
+                <button data-action="reset-timer" title="Reset timer (R)">Reset</button>
+            </div>
+            <div class="clock"></div>
+            <div class="presenter-controls">
+                <button data-action="previous" title="Previous slide (←)">‹</button>
+                <span class="counter"></span>
+                <button data-action="next" title="Next slide (→)">›</button>
+            </div>
+        </div>
+    </div>`;
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="${csp}">
+    <title>${escapeHtml(title)}</title>
+    <style id="presentation-style">
+        ${getPresentationCSS(theme)}
+    </style>
+</head>
+<body data-mode="${mode}" data-index="${index}" data-count="${slides.length}">
+    ${body}
+    <script nonce="${nonce}" src="${script}"></script>
+</body>
+</html>
+    `;
+}
+
+/**
+ * Every slide of the presentation; slides with a theme of their own carry its variables.
+ */
+function renderDeck(presentation: ParsedPresentation): string {
+    const { slides, theme, slideThemes } = presentation;
+    return slides
+        .map((slide, i) => renderPresentationSlide(slide, i, slideThemes[i] === theme ? undefined : slideThemes[i]))
+        .join('');
+}
+
+function getPresentationCSS(theme: ThemeDefinition): string {
+    return `
+        :root { ${getThemeVariables(theme)} }
+        html, body {
+            margin: 0;
+            height: 100%;
+            overflow: hidden;
+            background: #111;
+            color: #eee;
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        }
+        .stage {
+            position: relative;
+            overflow: hidden;
+        }
+        .stage-main {
+            position: fixed;
+            inset: 0 0 40px 0;
+        }
+        .deck {
+            position: absolute;
+            width: 1280px;
+            height: 720px;
+            transform-origin: 0 0;
+        }
+        .slide {
+            display: none;
+            position: absolute;
+            inset: 0;
+            box-sizing: border-box;
+            padding: 64px 80px;
+            flex-direction: column;
+            background: var(--osf-background);
+            color: var(--osf-text);
+            font-family: var(--osf-font-body);
+            font-size: 30px;
+            line-height: 1.4;
+            overflow: hidden;
+        }
+        .slide.active {
+            display: flex;
+        }
+        .slide .slide-title {
+            font-family: var(--osf-font-heading);
+        }
+        .slide h2.slide-title {
+            margin: 0 0 32px;
+            font-size: 52px;
+            color: var(--osf-accent);
+            border-bottom: 4px solid var(--osf-accent);
+            padding-bottom: 12px;
+        }
+        .layout-TitleOnly {
+            justify-content: center;
+            align-items: center;
+            text-align: center;
+        }
+        .layout-TitleOnly h1.slide-title {
+            margin: 0;
+            font-size: 80px;
+            color: var(--osf-accent);
+        }
+        .slide-body {
+            display: grid;
+            gap: 48px;
+            flex: 1;
+            min-height: 0;
+        }
+        .slide-body.columns-1 { grid-template-columns: 1fr; }
+        .slide-body.columns-2 { grid-template-columns: 1fr 1fr; }
+        .slide-body.columns-3 { grid-template-columns: 1fr 1fr 1fr; }
+        .slide-column > :first-child { margin-top: 0; }
+        .slide li { margin: 8px 0; }
+        .slide code, .slide pre {
+            font-family: var(--osf-font-code);
+        }
+        .slide code {
+            background: var(--osf-grid);
+            padding: 2px 6px;
+            border-radius: 4px;
+        }
+        .slide pre {
+            background: var(--osf-grid);
+            padding: 16px;
+            border-radius: 6px;
+            font-size: 22px;
+            overflow: hidden;
+        }
+        .slide img { max-width: 100%; max-height: 480px; }
+        .slide a { color: var(--osf-accent); }
+        .slide .underline { text-decoration: underline; }
+        ${getHighlightCSS()}
+        .slide hr { border: 0; border-top: 2px solid var(--osf-grid); margin: 24px 0; }
+        .slide table { border-collapse: collapse; font-size: 24px; }
+        .slide th, .slide td { border: 1px solid var(--osf-grid); padding: 6px 14px; }
+        .toolbar {
+            position: fixed;
+            left: 0;
+            right: 0;
+            bottom: 0;
+            height: 40px;
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            gap: 12px;
+        }
+        button {
+            background: #333;
+            color: #eee;
+            border: 1px solid #555;
+            border-radius: 4px;
+            padding: 4px 12px;
+            cursor: pointer;
+            font-size: 14px;
+        }
+        button:hover { background: #444; }
+        .counter {
+            min-width: 64px;
+            text-align: center;
+            font-variant-numeric: tabular-nums;
+        }
+        .overview {
+            position: fixed;
+            inset: 0;
+            overflow-y: auto;
+            background: rgba(17, 17, 17, 0.96);
+            padding: 24px;
+            display: grid;
+            grid-template-columns: repeat(auto-fill, 336px);
+            gap: 20px;
+            justify-content: center;
+        }
+        .overview[hidden] { display: none; }
+        .thumb {
+            padding: 6px;
+            display: flex;
+            flex-direction: column;
+            align-items: center;
+            gap: 6px;
+        }
+        .thumb.current { border-color: var(--osf-accent); outline: 2px solid var(--osf-accent); }
+        .thumb-frame {
+            position: relative;
+            width: 320px;
+            height: 180px;
+            overflow: hidden;
+            pointer-events: none;
+        }
+        .thumb-frame .slide {
+            width: 1280px;
+            height: 720px;
+            transform: scale(0.25);
+            transform-origin: 0 0;
+        }
+        .presenter {
+            display: grid;
+            grid-template-columns: 2fr 1fr;
+            gap: 16px;
+            height: 100%;
+            box-sizing: border-box;
+            padding: 16px;
+        }
+        .presenter-current .stage { height: 100%; }
+        .presenter-side {
+            display: flex;
+            flex-direction: column;
+            gap: 12px;
+            min-width: 0;
+        }
+        .presenter-label {
+            text-transform: uppercase;
+            font-size: 12px;
+            letter-spacing: 0.1em;
+            color: #aaa;
+        }
+        .stage-next { aspect-ratio: 16 / 9; width: 100%; }
+        .end-note {
+            display: none;
+            position: absolute;
+            inset: 0;
+            margin: 0;
+            align-items: center;
+            justify-content: center;
+            color: #888;
+        }
+        .stage.finished .deck { visibility: hidden; }
+        .stage.finished .end-note { display: flex; }
+        .presenter-timer {
+            display: flex;
+            align-items: center;
+            gap: 12px;
+        }
+        .timer {
+            font-size: 48px;
+            font-variant-numeric: tabular-nums;
+        }
+        .clock { color: #aaa; font-size: 18px; }
+        .presenter-controls {
+            display: flex;
+            align-items: center;
+            gap: 12px;
+            margin-top: auto;
+        }
+    `;
+}
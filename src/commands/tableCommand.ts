@@ -0,0 +1,76 @@
+// File: src/commands/tableCommand.ts
+import * as vscode from 'vscode';
+import { parseDocumentModel } from '../model/documentModel';
+import { editTable, printAlignmentValue, printTable, readTable, type TableAction } from '../table/tableEditor';
+
+/**
+ * Command to edit the `@table` under the cursor: insert, delete and move rows
+ * and columns, cycle a column's alignment, sort rows or move between cells.
+ * The table is re-aligned after every edit and the cursor lands on the cell
+ * the edit is about, with its text selected.
+ */
+export async function tableCommand(action: TableAction): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'osf') {
+        return;
+    }
+    const document = editor.document;
+    const model = parseDocumentModel(document.getText());
+    const table = readTable(model, editor.selection.active);
+    if (!table) {
+        vscode.window.showInformationMessage('Place the cursor on a row of a @table block with a header and separator row.');
+        return;
+    }
+    const edited = editTable(table, action);
+    if (typeof edited === 'string') {
+        vscode.window.showInformationMessage(edited);
+        return;
+    }
+
+    const rows = printTable(edited);
+    const alignment = edited.printsAlignment ? printAlignmentValue(edited) : undefined;
+    const property = edited.alignmentProperty;
+    const changed = rows !== model.text.slice(table.start, table.end).replace(/\r\n/g, '\n')
+        || (alignment !== undefined && alignment !== property?.raw);
+    if (changed) {
+        const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+        const applied = await editor.edit(builder => {
+            // A new alignment property goes on the line above the header
+            const added = alignment !== undefined && !property ? `${edited.indent}alignment: ${alignment};\n` : '';
+            builder.replace(
+                new vscode.Range(document.positionAt(table.start), document.positionAt(table.end)),
+                (added + rows).replace(/\n/g, eol)
+            );
+            if (alignment !== undefined && property) {
+                const { start, end } = property.valueRange;
+                builder.replace(new vscode.Range(start.line, start.character, end.line, end.character), alignment);
+            }
+        });
+        if (!applied) {
+            return;
+        }
+    }
+    selectCell(editor, model.blocks.indexOf(table.block), edited.cursor.line, edited.cursor.col);
+}
+
+/**
+ * Select the text of a cell in the edited table, or put the cursor at the
+ * start of an empty cell.
+ */
+function selectCell(editor: vscode.TextEditor, blockIndex: number, line: number, col: number): void {
+    const block = parseDocumentModel(editor.document.getText()).blocks[blockIndex];
+    const cell = block?.rows[line]?.cells[col];
+    if (!cell) {
+        return;
+    }
+    const { start, end } = cell.range;
+    if (cell.text) {
+        editor.selection = new vscode.Selection(start.line, start.character, end.line, end.character);
+    } else {
+        // An empty cell's range sits at its closing pipe, after the padding
+        const pipe = editor.document.lineAt(start.line).text.lastIndexOf('|', start.character - 1);
+        const character = Math.min(pipe + 2, start.character);
+        editor.selection = new vscode.Selection(start.line, character, start.line, character);
+    }
+    editor.revealRange(editor.selection);
+}
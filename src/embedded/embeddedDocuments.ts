@@ -0,0 +1,81 @@
+// File: src/embedded/embeddedDocuments.ts
+import * as vscode from 'vscode';
+import type { EmbeddedRegion } from './embeddedRegions';
+
+export const EMBEDDED_SCHEME = 'osf-embedded';
+
+/** How long to wait for VS Code to reload a virtual document that changed. */
+const UPDATE_TIMEOUT = 1000;
+
+/**
+ * Serves the code of embedded regions as read-only virtual documents, so
+ * requests inside a region can be answered by the embedded language's own
+ * providers. Each region gets a URI of its own:
+ * `osf-embedded:/<encoded document URI>/<region index><extension>`.
+ */
+export class EmbeddedDocumentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+    private readonly contents = new Map<string, string>();
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+    readonly onDidChange = this.changeEmitter.event;
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.contents.get(uri.toString()) ?? '';
+    }
+
+    /**
+     * Open the virtual document of a region with the region's current code.
+     */
+    async open(document: vscode.TextDocument, region: EmbeddedRegion, index: number): Promise<vscode.TextDocument> {
+        const uri = vscode.Uri.from({
+            scheme: EMBEDDED_SCHEME,
+            path: `/${encodeURIComponent(document.uri.toString())}/${index}${region.language.extension}`
+        });
+        const key = uri.toString();
+        const changed = this.contents.has(key) && this.contents.get(key) !== region.content;
+        this.contents.set(key, region.content);
+        if (changed) {
+            this.changeEmitter.fire(uri);
+        }
+
+        const virtual = await vscode.workspace.openTextDocument(uri);
+        return virtual.getText() === region.content ? virtual : this.waitForContent(uri, region.content, virtual);
+    }
+
+    /**
+     * Forget the virtual documents of a closed OSF document.
+     */
+    clear(document: vscode.TextDocument): void {
+        const prefix = vscode.Uri.from({ scheme: EMBEDDED_SCHEME, path: `/${encodeURIComponent(document.uri.toString())}/` }).toString();
+        for (const key of [...this.contents.keys()]) {
+            if (key.startsWith(prefix)) {
+                this.contents.delete(key);
+            }
+        }
+    }
+
+    dispose(): void {
+        this.contents.clear();
+        this.changeEmitter.dispose();
+    }
+
+    /**
+     * VS Code reloads an open virtual document after `onDidChange` fires;
+     * wait for that, falling back to the stale document.
+     */
+    private waitForContent(uri: vscode.Uri, content: string, stale: vscode.TextDocument): Promise<vscode.TextDocument> {
+        return new Promise(resolve => {
+            const finish = (document: vscode.TextDocument) => {
+                clearTimeout(timer);
+                listener.dispose();
+                resolve(document);
+            };
+            const timer = setTimeout(() => finish(stale), UPDATE_TIMEOUT);
+            const listener = vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.document.uri.toString() === uri.toString() && event.document.getText() === content) {
+                    finish(event.document);
+                }
+            });
+        });
+    }
+}
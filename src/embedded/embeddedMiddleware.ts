@@ -0,0 +1,148 @@
+// File: src/embedded/embeddedMiddleware.ts
+import * as vscode from 'vscode';
+import type { Middleware } from 'vscode-languageclient/node';
+import { parseDocumentModel } from '../model/documentModel';
+import type { EmbeddedDocumentProvider } from './embeddedDocuments';
+import {
+    EmbeddedRegion,
+    findEmbeddedRegions,
+    toSourceOffset,
+    toSourceText,
+    toVirtualOffset
+} from './embeddedRegions';
+
+/**
+ * A region of an OSF document together with its open virtual document.
+ */
+interface EmbeddedContext {
+    document: vscode.TextDocument;
+    region: EmbeddedRegion;
+    virtual: vscode.TextDocument;
+}
+
+/**
+ * Language client middleware that answers completion, hover and formatting
+ * inside `@code` and `@diagram` regions with the embedded language's
+ * providers instead of the OSF server.
+ */
+export function createEmbeddedMiddleware(documents: EmbeddedDocumentProvider): Middleware {
+    return {
+        provideCompletionItem: async (document, position, context, token, next) => {
+            const embedded = await openRegionAt(documents, document, position);
+            if (!embedded) {
+                return next(document, position, context, token);
+            }
+
+            const list = await vscode.commands.executeCommand<vscode.CompletionList>(
+                'vscode.executeCompletionItemProvider',
+                embedded.virtual.uri,
+                toVirtualPosition(embedded, position),
+                context.triggerCharacter
+            );
+            if (!list) {
+                return [];
+            }
+            list.items.forEach(item => mapCompletionItem(embedded, item));
+            return list;
+        },
+
+        provideHover: async (document, position, token, next) => {
+            const embedded = await openRegionAt(documents, document, position);
+            if (!embedded) {
+                return next(document, position, token);
+            }
+
+            const hovers = await vscode.commands.executeCommand<vscode.Hover[]>(
+                'vscode.executeHoverProvider',
+                embedded.virtual.uri,
+                toVirtualPosition(embedded, position)
+            );
+            const hover = hovers?.find(candidate => candidate.contents.length > 0);
+            return hover ? new vscode.Hover(hover.contents, hover.range && toSourceRange(embedded, hover.range)) : undefined;
+        },
+
+        provideDocumentFormattingEdits: async (document, options, token, next) => {
+            const regions = findEmbeddedRegions(parseDocumentModel(document.getText()));
+            const edits = ((await next(document, options, token)) ?? [])
+                // The OSF formatter keeps string literals as written; code
+                // lines belong to the embedded formatter
+                .filter(edit => !regions.some(region => isInside(region, document.offsetAt(edit.range.start))));
+
+            for (const [index, region] of regions.entries()) {
+                if (token.isCancellationRequested) {
+                    break;
+                }
+                const virtual = await documents.open(document, region, index);
+                const regionEdits = await vscode.commands.executeCommand<vscode.TextEdit[]>(
+                    'vscode.executeFormatDocumentProvider',
+                    virtual.uri,
+                    options
+                );
+                const embedded = { document, region, virtual };
+                for (const edit of regionEdits ?? []) {
+                    edits.push(new vscode.TextEdit(toSourceRange(embedded, edit.range), toSourceText(region, edit.newText)));
+                }
+            }
+            return edits;
+        }
+    };
+}
+
+async function openRegionAt(
+    documents: EmbeddedDocumentProvider,
+    document: vscode.TextDocument,
+    position: vscode.Position
+): Promise<EmbeddedContext | undefined> {
+    const offset = document.offsetAt(position);
+    const regions = findEmbeddedRegions(parseDocumentModel(document.getText()));
+    const index = regions.findIndex(region => region.start <= offset && offset <= region.end);
+    if (index === -1) {
+        return undefined;
+    }
+    const virtual = await documents.open(document, regions[index], index);
+    return { document, region: regions[index], virtual };
+}
+
+/** Whether an offset is strictly inside a region, past its opening quote. */
+function isInside(region: EmbeddedRegion, offset: number): boolean {
+    return region.start < offset && offset < region.end;
+}
+
+function toVirtualPosition(embedded: EmbeddedContext, position: vscode.Position): vscode.Position {
+    return embedded.virtual.positionAt(toVirtualOffset(embedded.region, embedded.document.offsetAt(position)));
+}
+
+function toSourceRange(embedded: EmbeddedContext, range: vscode.Range): vscode.Range {
+    const toSource = (position: vscode.Position) =>
+        embedded.document.positionAt(toSourceOffset(embedded.region, embedded.virtual.offsetAt(position)));
+    return new vscode.Range(toSource(range.start), toSource(range.end));
+}
+
+/**
+ * Move a completion item from the virtual document into the OSF string:
+ * ranges are mapped back and inserted text is escaped.
+ */
+function mapCompletionItem(embedded: EmbeddedContext, item: vscode.CompletionItem): void {
+    const { region } = embedded;
+    if (item.range instanceof vscode.Range) {
+        item.range = toSourceRange(embedded, item.range);
+    } else if (item.range) {
+        item.range = {
+            inserting: toSourceRange(embedded, item.range.inserting),
+            replacing: toSourceRange(embedded, item.range.replacing)
+        };
+    }
+
+    if (typeof item.insertText === 'string') {
+        item.insertText = toSourceText(region, item.insertText);
+    } else if (item.insertText) {
+        // Backslashes are left alone, as they are snippet escapes
+        item.insertText = new vscode.SnippetString(
+            item.insertText.value.replace(/"/g, '\\"').replace(/\n/g, `\n${region.indent}`)
+        );
+    }
+
+    item.additionalTextEdits = item.additionalTextEdits?.map(
+        edit => new vscode.TextEdit(toSourceRange(embedded, edit.range), toSourceText(region, edit.newText))
+    );
+}
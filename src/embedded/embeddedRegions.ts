@@ -0,0 +1,183 @@
+// File: src/embedded/embeddedRegions.ts
+import { getProperty } from '../model/documentModel';
+import type { BlockNode, DocumentModel } from '../model/types';
+
+/**
+ * A language that can be embedded in a `@code` or `@diagram` block.
+ */
+export interface EmbeddedLanguage {
+    /** VS Code language id. */
+    languageId: string;
+    /** File extension of virtual documents, which VS Code picks the language by. */
+    extension: string;
+}
+
+/**
+ * `language` values of `@code` and `engine` values of `@diagram`, and the
+ * languages they embed. Keep in sync with the `embedded` rules of
+ * `syntaxes/osf.tmLanguage.json` and `embeddedLanguages` in `package.json`.
+ */
+const EMBEDDED_LANGUAGES: Record<string, EmbeddedLanguage> = {
+    javascript: { languageId: 'javascript', extension: '.js' },
+    js: { languageId: 'javascript', extension: '.js' },
+    jsx: { languageId: 'javascriptreact', extension: '.jsx' },
+    typescript: { languageId: 'typescript', extension: '.ts' },
+    ts: { languageId: 'typescript', extension: '.ts' },
+    tsx: { languageId: 'typescriptreact', extension: '.tsx' },
+    python: { languageId: 'python', extension: '.py' },
+    py: { languageId: 'python', extension: '.py' },
+    json: { languageId: 'json', extension: '.json' },
+    css: { languageId: 'css', extension: '.css' },
+    scss: { languageId: 'scss', extension: '.scss' },
+    html: { languageId: 'html', extension: '.html' },
+    xml: { languageId: 'xml', extension: '.xml' },
+    yaml: { languageId: 'yaml', extension: '.yaml' },
+    yml: { languageId: 'yaml', extension: '.yaml' },
+    markdown: { languageId: 'markdown', extension: '.md' },
+    md: { languageId: 'markdown', extension: '.md' },
+    sql: { languageId: 'sql', extension: '.sql' },
+    bash: { languageId: 'shellscript', extension: '.sh' },
+    sh: { languageId: 'shellscript', extension: '.sh' },
+    shell: { languageId: 'shellscript', extension: '.sh' },
+    powershell: { languageId: 'powershell', extension: '.ps1' },
+    java: { languageId: 'java', extension: '.java' },
+    csharp: { languageId: 'csharp', extension: '.cs' },
+    cs: { languageId: 'csharp', extension: '.cs' },
+    cpp: { languageId: 'cpp', extension: '.cpp' },
+    c: { languageId: 'c', extension: '.c' },
+    go: { languageId: 'go', extension: '.go' },
+    rust: { languageId: 'rust', extension: '.rs' },
+    ruby: { languageId: 'ruby', extension: '.rb' },
+    php: { languageId: 'php', extension: '.php' },
+    swift: { languageId: 'swift', extension: '.swift' },
+    mermaid: { languageId: 'mermaid', extension: '.mmd' },
+    graphviz: { languageId: 'dot', extension: '.dot' },
+    dot: { languageId: 'dot', extension: '.dot' }
+};
+
+/** Escape sequences of OSF strings that stand for a single character. */
+/* eslint-disable @typescript-eslint/naming-convention */
+const ESCAPES: Record<string, string> = {
+    '"': '"', '\\': '\\', '/': '/', n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', v: '\v', '0': '\0'
+};
+/* eslint-enable @typescript-eslint/naming-convention */
+
+/**
+ * The code of a `@code` or `@diagram` block in a known language.
+ *
+ * `content` is the decoded string value with the block's indentation removed,
+ * which is what the embedded language sees. `offsets` maps every character of
+ * `content`, and its end, back to an offset in the OSF source.
+ */
+export interface EmbeddedRegion {
+    language: EmbeddedLanguage;
+    /** Source offsets of the string contents, between the quotes. */
+    start: number;
+    end: number;
+    content: string;
+    offsets: number[];
+    /** Indentation removed from each line of `content`, re-added to inserted lines. */
+    indent: string;
+}
+
+export function getEmbeddedLanguage(name: string): EmbeddedLanguage | undefined {
+    return EMBEDDED_LANGUAGES[name.toLowerCase()];
+}
+
+/**
+ * Every embedded region of a document, in source order.
+ */
+export function findEmbeddedRegions(model: DocumentModel): EmbeddedRegion[] {
+    return model.blocks
+        .map(block => getBlockRegion(model, block))
+        .filter((region): region is EmbeddedRegion => region !== undefined);
+}
+
+/**
+ * Region containing a source offset, including the offsets right at its ends.
+ */
+export function getEmbeddedRegionAt(model: DocumentModel, offset: number): EmbeddedRegion | undefined {
+    return findEmbeddedRegions(model).find(region => region.start <= offset && offset <= region.end);
+}
+
+/**
+ * Offset in `region.content` of a source offset; offsets inside removed
+ * indentation move to the next character of code.
+ */
+export function toVirtualOffset(region: EmbeddedRegion, sourceOffset: number): number {
+    const index = region.offsets.findIndex(offset => offset >= sourceOffset);
+    return index === -1 ? region.content.length : index;
+}
+
+export function toSourceOffset(region: EmbeddedRegion, virtualOffset: number): number {
+    return region.offsets[Math.max(0, Math.min(virtualOffset, region.content.length))];
+}
+
+/**
+ * Turn text produced by the embedded language into OSF string source: quotes
+ * and backslashes are escaped and new lines get the block's indentation.
+ */
+export function toSourceText(region: EmbeddedRegion, text: string): string {
+    return text.replace(/[\\"]/g, '\\$&').replace(/\n/g, `\n${region.indent}`);
+}
+
+function getBlockRegion(model: DocumentModel, block: BlockNode): EmbeddedRegion | undefined {
+    const languageProperty = block.type === 'code' ? 'language' : block.type === 'diagram' ? 'engine' : undefined;
+    const name = languageProperty ? getProperty(block, languageProperty)?.value : undefined;
+    const language = typeof name === 'string' ? getEmbeddedLanguage(name) : undefined;
+    const code = getProperty(block, 'code');
+    if (!language || !code || !code.raw.startsWith('"')) {
+        return undefined;
+    }
+
+    const start = model.index.offsetAt(code.valueRange.start) + 1;
+    const end = model.index.offsetAt(code.valueRange.end) - (code.raw.length > 1 && code.raw.endsWith('"') ? 1 : 0);
+    return { language, start, end, ...decodeString(model.text, start, end) };
+}
+
+/**
+ * Decode the OSF string between two source offsets and remove the indentation
+ * its lines share, keeping the source offset of every remaining character.
+ */
+function decodeString(text: string, start: number, end: number): Pick<EmbeddedRegion, 'content' | 'offsets' | 'indent'> {
+    const characters: string[] = [];
+    const offsets: number[] = [];
+    for (let i = start; i < end; i++) {
+        const escaped = text[i] === '\\' && i + 1 < end ? ESCAPES[text[i + 1]] : undefined;
+        offsets.push(i);
+        if (escaped !== undefined) {
+            characters.push(escaped);
+            i++;
+        } else {
+            characters.push(text[i]);
+        }
+    }
+
+    // Shared indentation of the non-blank lines after the first, which
+    // follows the opening quote
+    const lines = characters.join('').split('\n');
+    const indents = lines.slice(1).filter(line => line.trim()).map(line => /^[ \t]*/.exec(line)![0]);
+    const indent = indents.reduce((shortest, current) => (current.length < shortest.length ? current : shortest), indents[0] ?? '');
+
+    let content = '';
+    const kept: number[] = [];
+    let position = 0;
+    lines.forEach((line, lineIndex) => {
+        const skip = lineIndex > 0 ? Math.min(indent.length, /^[ \t]*/.exec(line)![0].length) : 0;
+        for (let i = 0; i < line.length; i++) {
+            if (i >= skip) {
+                content += line[i];
+                kept.push(offsets[position + i]);
+            }
+        }
+        position += line.length;
+        if (lineIndex < lines.length - 1) {
+            content += '\n';
+            kept.push(offsets[position]);
+            position++;
+        }
+    });
+    kept.push(end);
+
+    return { content, offsets: kept, indent };
+}
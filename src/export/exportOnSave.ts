@@ -0,0 +1,205 @@
+// File: src/export/exportOnSave.ts
+import * as vscode from 'vscode';
+import { parseDocumentModel } from '../model/documentModel';
+import { IncludeResolver } from '../server/includeResolver';
+import type { ThemeRegistry } from '../themes/themeRegistry';
+import { logger } from '../utils/logger';
+import { readExportSource } from './exporter';
+import type { ExportProfile } from './exportProfiles';
+import { getExportProfiles, runExportProfile } from './profileRunner';
+
+const SHOW_LOG_COMMAND = 'osf.exportOnSave.showLog';
+const EXCLUDE = '**/node_modules/**';
+
+/**
+ * Re-runs export profiles when an OSF file is saved (`osf.export.onSave.enabled`).
+ * The saved file is exported with each profile of `osf.export.onSave.profiles`,
+ * and so is every file that includes it, directly or through other includes,
+ * with the profiles that resolve includes.
+ *
+ * Saves are collected for `osf.export.onSave.debounce` milliseconds and then
+ * exported in one run; saves made during a run are queued for the next one.
+ */
+export class ExportOnSave implements vscode.Disposable {
+    private readonly statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 50);
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly includeResolver = new IncludeResolver(() => undefined);
+    private pending = new Set<string>();
+    private timer: ReturnType<typeof setTimeout> | undefined;
+    private running = false;
+
+    constructor(private readonly themes: ThemeRegistry) {
+        this.statusBarItem.command = SHOW_LOG_COMMAND;
+        this.disposables.push(
+            this.statusBarItem,
+            vscode.commands.registerCommand(SHOW_LOG_COMMAND, () => logger.show()),
+            vscode.workspace.onDidSaveTextDocument(document => this.onDidSave(document)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('osf.export.onSave')) {
+                    this.updateVisibility();
+                }
+            })
+        );
+        this.setStatus('$(file-pdf) OSF Export', 'Export on save is on. Click to show the export log.');
+        this.updateVisibility();
+    }
+
+    /**
+     * Turn export on save on or off for the workspace.
+     */
+    async toggle(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('osf.export.onSave');
+        const enabled = !config.get('enabled', false);
+        const target = vscode.workspace.workspaceFolders ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+        await config.update('enabled', enabled, target);
+        vscode.window.showInformationMessage(`OSF export on save is ${enabled ? 'on' : 'off'}`);
+    }
+
+    dispose(): void {
+        clearTimeout(this.timer);
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private get enabled(): boolean {
+        return vscode.workspace.getConfiguration('osf.export.onSave').get('enabled', false);
+    }
+
+    private updateVisibility(): void {
+        if (this.enabled) {
+            this.statusBarItem.show();
+        } else {
+            this.statusBarItem.hide();
+        }
+    }
+
+    private onDidSave(document: vscode.TextDocument): void {
+        if (!this.enabled || document.uri.scheme !== 'file' || !/\.osf$/i.test(document.uri.fsPath)) {
+            return;
+        }
+        this.pending.add(document.uri.fsPath);
+        this.schedule();
+    }
+
+    private schedule(): void {
+        clearTimeout(this.timer);
+        const debounce = vscode.workspace.getConfiguration('osf.export.onSave').get('debounce', 1000);
+        this.timer = setTimeout(() => this.run(), debounce);
+    }
+
+    private async run(): Promise<void> {
+        if (this.running) {
+            // The saves stay pending and are picked up when this run ends
+            return;
+        }
+        const saved = [...this.pending];
+        this.pending.clear();
+        this.running = true;
+
+        try {
+            await this.export(saved);
+        } catch (error: any) {
+            logger.error('Export on save failed', error);
+            this.setStatus('$(error) OSF Export', `Export on save failed: ${error?.message || String(error)}`);
+        } finally {
+            this.running = false;
+            if (this.pending.size > 0) {
+                this.schedule();
+            }
+        }
+    }
+
+    private async export(saved: string[]): Promise<void> {
+        const profiles = this.getProfiles();
+        if (profiles.length === 0) {
+            this.setStatus('$(warning) OSF Export', 'Export on save has no export profiles to run');
+            return;
+        }
+
+        const files = await this.findAffectedFiles(saved);
+        this.setStatus('$(sync~spin) OSF Export', `Exporting ${files.length} file(s)`);
+        logger.info(`Export on save: ${files.map(file => vscode.workspace.asRelativePath(file)).join(', ')}`);
+
+        let exported = 0;
+        const failures: string[] = [];
+        for (const profile of profiles) {
+            // Files that include a saved one only change when the profile inlines includes
+            const candidates = profile.resolveIncludes ? files : files.filter(file => saved.includes(file.fsPath));
+            const included = await this.filterIncluded(profile, candidates);
+            const result = await runExportProfile(profile, included, this.themes, message => logger.info(`[${profile.name}] ${message}`));
+            exported += result.exported.length;
+            result.failures.forEach(failure => {
+                failures.push(`${profile.name}: ${failure.file}: ${failure.message}`);
+                logger.error(`[${profile.name}] ${failure.file}: ${failure.message}`);
+            });
+        }
+
+        const time = new Date().toLocaleTimeString();
+        if (failures.length > 0) {
+            this.setStatus(`$(error) OSF Export (${failures.length})`, `Export on save at ${time}:\n${failures.join('\n')}`);
+        } else {
+            this.setStatus('$(check) OSF Export', `Exported ${exported} file(s) at ${time}`);
+        }
+    }
+
+    /**
+     * Profiles named by `osf.export.onSave.profiles`, or every profile when
+     * the setting is empty.
+     */
+    private getProfiles(): ExportProfile[] {
+        const { profiles, errors } = getExportProfiles();
+        errors.forEach(error => logger.warn(`Export profiles ${error.file}: ${error.message}`));
+
+        const names = vscode.workspace.getConfiguration('osf.export.onSave').get<string[]>('profiles', []);
+        if (names.length === 0) {
+            return profiles;
+        }
+        names.filter(name => !profiles.some(profile => profile.name === name))
+            .forEach(name => logger.warn(`Export on save: unknown export profile "${name}"`));
+        return profiles.filter(profile => names.includes(profile.name));
+    }
+
+    /**
+     * The saved files plus every workspace OSF file that reaches one of them
+     * through `@include`.
+     */
+    private async findAffectedFiles(saved: string[]): Promise<vscode.Uri[]> {
+        const includedBy = new Map<string, string[]>();
+        for (const file of await vscode.workspace.findFiles('**/*.osf', EXCLUDE)) {
+            let text: string;
+            try {
+                text = await readExportSource(file);
+            } catch {
+                continue;
+            }
+            for (const include of this.includeResolver.getIncludes(file.toString(), parseDocumentModel(text))) {
+                includedBy.set(include.target, [...(includedBy.get(include.target) ?? []), file.fsPath]);
+            }
+        }
+
+        const affected = new Set(saved);
+        const queue = [...saved];
+        while (queue.length > 0) {
+            for (const parent of includedBy.get(queue.shift()!) ?? []) {
+                if (!affected.has(parent)) {
+                    affected.add(parent);
+                    queue.push(parent);
+                }
+            }
+        }
+        return [...affected].sort().map(file => vscode.Uri.file(file));
+    }
+
+    /** Files within the profile's `include` glob, when it has one. */
+    private async filterIncluded(profile: ExportProfile, files: vscode.Uri[]): Promise<vscode.Uri[]> {
+        if (!profile.include) {
+            return files;
+        }
+        const matching = new Set((await vscode.workspace.findFiles(profile.include, EXCLUDE)).map(file => file.fsPath));
+        return files.filter(file => matching.has(file.fsPath));
+    }
+
+    private setStatus(text: string, tooltip: string): void {
+        this.statusBarItem.text = text;
+        this.statusBarItem.tooltip = tooltip;
+    }
+}
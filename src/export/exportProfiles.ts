@@ -0,0 +1,189 @@
+// File: src/export/exportProfiles.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import { EXPORT_FORMATS, type ExportFormat, type ExportOptions, type PageMargins } from './exporter';
+
+/** File of a workspace folder that holds shared export profiles. */
+export const EXPORT_PROFILE_FILE = path.join('.osf', 'export.json');
+
+/** Output path of profiles that do not set one: next to the source file. */
+export const DEFAULT_OUTPUT_TEMPLATE = '${dir}/${name}.${format}';
+
+const PAGE_SIZES = ['A4', 'letter', 'legal'] as const;
+const ORIENTATIONS = ['portrait', 'landscape'] as const;
+
+/**
+ * A named, reusable export configuration.
+ */
+export interface ExportProfile {
+    name: string;
+    format: ExportFormat;
+    /** Theme used when neither a block nor `@meta` sets one. */
+    theme?: string;
+    /** Output path template, see `getProfileOutputPath`. */
+    output: string;
+    pageSize?: ExportOptions['pageSize'];
+    orientation?: ExportOptions['orientation'];
+    margins?: PageMargins;
+    resolveIncludes?: boolean;
+    /** Block types to export, e.g. `["meta", "slide"]`; all blocks when unset. */
+    blocks?: string[];
+    /** Glob of the files a task exports when it does not set `files`. */
+    include?: string;
+    /** File the profile came from, or undefined for settings. */
+    source?: string;
+}
+
+export interface ExportProfileError {
+    file: string;
+    message: string;
+}
+
+/**
+ * Profiles of the `osf.export.profiles` setting and of the
+ * `.osf/export.json` file of each workspace folder, which looks like
+ *
+ * ```json
+ * {
+ *   "profiles": {
+ *     "release-pdf": {
+ *       "format": "pdf",
+ *       "theme": "corporate",
+ *       "output": "dist/${name}-${date}.pdf",
+ *       "pageSize": "A4",
+ *       "margins": 36,
+ *       "blocks": ["meta", "doc", "table", "chart"]
+ *     }
+ *   }
+ * }
+ * ```
+ *
+ * A profile in the settings replaces a file profile of the same name, and the
+ * first workspace folder wins among files.
+ */
+export function loadExportProfiles(
+    roots: string[],
+    settings: Record<string, unknown> | undefined
+): { profiles: ExportProfile[]; errors: ExportProfileError[] } {
+    const profiles = new Map<string, ExportProfile>();
+    const errors: ExportProfileError[] = [];
+
+    const addProfiles = (definitions: unknown, file: string, source?: string) => {
+        if (!isObject(definitions)) {
+            errors.push({ file, message: '"profiles" must be an object of named profiles' });
+            return;
+        }
+        for (const [name, definition] of Object.entries(definitions)) {
+            try {
+                profiles.set(name, { ...parseExportProfile(name, definition), source });
+            } catch (error: any) {
+                errors.push({ file, message: `Profile "${name}": ${error?.message || String(error)}` });
+            }
+        }
+    };
+
+    for (const root of [...roots].reverse()) {
+        const file = path.join(root, EXPORT_PROFILE_FILE);
+        let text: string;
+        try {
+            text = fs.readFileSync(file, 'utf8');
+        } catch {
+            continue;
+        }
+        try {
+            addProfiles(JSON.parse(text).profiles ?? {}, file, file);
+        } catch (error: any) {
+            errors.push({ file, message: error?.message || String(error) });
+        }
+    }
+    addProfiles(settings ?? {}, 'osf.export.profiles');
+
+    return { profiles: [...profiles.values()].sort((a, b) => a.name.localeCompare(b.name)), errors };
+}
+
+/**
+ * Validate one profile definition. Throws with a readable message.
+ */
+export function parseExportProfile(name: string, definition: unknown): ExportProfile {
+    if (!isObject(definition)) {
+        throw new Error('must be an object');
+    }
+    const { format, theme, output, pageSize, orientation, margins, resolveIncludes, blocks, include } = definition;
+
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+        throw new Error(`"format" must be one of ${EXPORT_FORMATS.join(', ')}`);
+    }
+    expect(theme === undefined || typeof theme === 'string', '"theme" must be a theme name');
+    expect(output === undefined || (typeof output === 'string' && output.trim() !== ''), '"output" must be a path template');
+    expect(pageSize === undefined || (PAGE_SIZES as readonly unknown[]).includes(pageSize), `"pageSize" must be one of ${PAGE_SIZES.join(', ')}`);
+    expect(orientation === undefined || (ORIENTATIONS as readonly unknown[]).includes(orientation), `"orientation" must be one of ${ORIENTATIONS.join(', ')}`);
+    expect(resolveIncludes === undefined || typeof resolveIncludes === 'boolean', '"resolveIncludes" must be true or false');
+    expect(
+        blocks === undefined || (Array.isArray(blocks) && blocks.every(block => typeof block === 'string')),
+        '"blocks" must be a list of block types'
+    );
+    expect(include === undefined || typeof include === 'string', '"include" must be a glob');
+
+    return {
+        name,
+        format: format as ExportFormat,
+        theme: theme as string | undefined,
+        output: (output as string | undefined) ?? DEFAULT_OUTPUT_TEMPLATE,
+        pageSize: pageSize as ExportProfile['pageSize'],
+        orientation: orientation as ExportProfile['orientation'],
+        margins: parseMargins(margins),
+        resolveIncludes: resolveIncludes as boolean | undefined,
+        blocks: (blocks as string[] | undefined)?.map(block => block.replace(/^@/, '')),
+        include: include as string | undefined
+    };
+}
+
+/**
+ * Absolute output path of a file exported with a profile. The template may
+ * use `${name}` (file name without `.osf`), `${dir}` (folder of the file
+ * relative to the workspace folder), `${format}`, `${profile}`, `${date}`
+ * (YYYY-MM-DD) and `${workspaceFolder}`; relative paths are resolved against
+ * the workspace folder.
+ */
+export function getProfileOutputPath(profile: ExportProfile, file: string, root: string, date = new Date()): string {
+    const variables: Record<string, string> = {
+        name: path.basename(file).replace(/\.osf$/i, ''),
+        dir: path.relative(root, path.dirname(file)) || '.',
+        format: profile.format,
+        profile: profile.name,
+        date: [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(part => String(part).padStart(2, '0')).join('-'),
+        workspaceFolder: root
+    };
+    const output = profile.output.replace(/\$\{(\w+)\}/g, (match, variable: string) => variables[variable] ?? match);
+    return path.resolve(root, output);
+}
+
+export function getProfileExportOptions(profile: ExportProfile): ExportOptions {
+    const { theme, pageSize, orientation, margins, resolveIncludes, blocks } = profile;
+    return { theme, pageSize, orientation, margins, resolveIncludes, blocks };
+}
+
+/** Margins in points, as one number for every side or one per side. */
+function parseMargins(margins: unknown): PageMargins | undefined {
+    if (margins === undefined) {
+        return undefined;
+    }
+    if (typeof margins === 'number' && margins >= 0) {
+        return { top: margins, right: margins, bottom: margins, left: margins };
+    }
+    const sides = ['top', 'right', 'bottom', 'left'] as const;
+    if (isObject(margins) && sides.every(side => typeof margins[side] === 'number' && (margins[side] as number) >= 0)) {
+        return { top: margins.top as number, right: margins.right as number, bottom: margins.bottom as number, left: margins.left as number };
+    }
+    throw new Error('"margins" must be a number of points or { "top", "right", "bottom", "left" }');
+}
+
+function expect(condition: boolean, message: string): void {
+    if (!condition) {
+        throw new Error(message);
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,104 @@
+// File: src/export/exportTaskProvider.ts
+import * as vscode from 'vscode';
+import type { ThemeRegistry } from '../themes/themeRegistry';
+import { getFormatLabel } from './exporter';
+import { findProfileFiles, getExportProfiles, runExportProfile } from './profileRunner';
+
+export const EXPORT_TASK_TYPE = 'osf-export';
+
+/**
+ * `tasks.json` definition of an export task:
+ * `{ "type": "osf-export", "profile": "release-pdf", "files": "decks/**\/*.osf" }`.
+ */
+interface ExportTaskDefinition extends vscode.TaskDefinition {
+    profile: string;
+    /** Glob of the files to export; defaults to the profile's `include`. */
+    files?: string;
+}
+
+/**
+ * Offers one task per export profile and runs `osf-export` tasks from
+ * `tasks.json`, so profiles can be run from Run Task, a build task or a
+ * `dependsOn` chain.
+ */
+export class ExportTaskProvider implements vscode.TaskProvider {
+    constructor(private readonly themes: ThemeRegistry) {}
+
+    provideTasks(): vscode.Task[] {
+        return getExportProfiles().profiles.map(profile =>
+            this.createTask({ type: EXPORT_TASK_TYPE, profile: profile.name })
+        );
+    }
+
+    resolveTask(task: vscode.Task): vscode.Task | undefined {
+        const definition = task.definition as ExportTaskDefinition;
+        return typeof definition.profile === 'string' ? this.createTask(definition, task.scope) : undefined;
+    }
+
+    private createTask(
+        definition: ExportTaskDefinition,
+        scope: vscode.WorkspaceFolder | vscode.TaskScope = vscode.TaskScope.Workspace
+    ): vscode.Task {
+        const task = new vscode.Task(
+            definition,
+            scope,
+            `Export: ${definition.profile}`,
+            'osf',
+            new vscode.CustomExecution(async () => new ExportTaskTerminal(definition, this.themes))
+        );
+        task.group = vscode.TaskGroup.Build;
+        return task;
+    }
+}
+
+/**
+ * Terminal of a running export task. It closes with exit code 1 when the
+ * profile is unknown or any file failed.
+ */
+class ExportTaskTerminal implements vscode.Pseudoterminal {
+    private readonly writeEmitter = new vscode.EventEmitter<string>();
+    private readonly closeEmitter = new vscode.EventEmitter<number>();
+    private readonly cancellation = new vscode.CancellationTokenSource();
+
+    readonly onDidWrite = this.writeEmitter.event;
+    readonly onDidClose = this.closeEmitter.event;
+
+    constructor(private readonly definition: ExportTaskDefinition, private readonly themes: ThemeRegistry) {}
+
+    open(): void {
+        this.run().then(
+            code => this.closeEmitter.fire(code),
+            error => {
+                this.writeLine(`Export failed: ${error?.message || String(error)}`);
+                this.closeEmitter.fire(1);
+            }
+        );
+    }
+
+    close(): void {
+        this.cancellation.cancel();
+    }
+
+    private async run(): Promise<number> {
+        const { profiles, errors } = getExportProfiles();
+        errors.forEach(error => this.writeLine(`${error.file}: ${error.message}`));
+
+        const profile = profiles.find(candidate => candidate.name === this.definition.profile);
+        if (!profile) {
+            this.writeLine(`Unknown export profile "${this.definition.profile}"`);
+            return 1;
+        }
+
+        const files = await findProfileFiles(profile, this.definition.files);
+        this.writeLine(`Exporting ${files.length} file(s) with ${profile.name} (${getFormatLabel(profile.format)})`);
+        const result = await runExportProfile(profile, files, this.themes, line => this.writeLine(line), this.cancellation.token);
+        this.writeLine(
+            `${result.exported.length} exported, ${result.failures.length} failed${result.cancelled ? ', cancelled' : ''}`
+        );
+        return result.failures.length > 0 || result.cancelled ? 1 : 0;
+    }
+
+    private writeLine(line: string): void {
+        this.writeEmitter.fire(`${line}\r\n`);
+    }
+}
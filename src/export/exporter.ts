@@ -0,0 +1,183 @@
+// File: src/export/exporter.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import type { OSFBlock, OSFDocument } from 'omniscript-parser';
+import { getParsedBlockNodes, getProperty, parseDocumentModel } from '../model/documentModel';
+import type { BlockNode, DocumentModel } from '../model/types';
+import type { ThemeRegistry } from '../themes/themeRegistry';
+import { getThemeTokens } from '../themes/themes';
+import { renderPreviewContent } from '../preview/renderer';
+import { renderStandaloneHTML } from './htmlExport';
+import { renderMarkdown } from './markdownExport';
+
+export type ExportFormat = 'pdf' | 'docx' | 'pptx' | 'xlsx' | 'html' | 'md';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['pdf', 'docx', 'pptx', 'xlsx', 'html', 'md'];
+
+/** Name of a format for messages and pickers. */
+export function getFormatLabel(format: ExportFormat): string {
+    return format === 'md' ? 'Markdown' : format.toUpperCase();
+}
+
+export interface PageMargins {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+}
+
+/**
+ * Settings of one export, as set by an export profile.
+ */
+export interface ExportOptions {
+    /** Replaces `osf.preview.theme` as the theme of blocks without one. */
+    theme?: string;
+    pageSize?: 'A4' | 'letter' | 'legal';
+    orientation?: 'portrait' | 'landscape';
+    /** In points. */
+    margins?: PageMargins;
+    resolveIncludes?: boolean;
+    /** Folder `@include` paths are relative to. */
+    basePath?: string;
+    /** Block types to keep; all blocks when unset. */
+    blocks?: string[];
+}
+
+/**
+ * Convert OSF source to a file. HTML and Markdown are rendered by the
+ * extension itself; the other formats need omniscript-converters. Throws when
+ * the document does not parse or the converter fails.
+ */
+export async function exportDocument(
+    text: string,
+    format: ExportFormat,
+    themes: ThemeRegistry,
+    exportOptions: ExportOptions = {}
+): Promise<Buffer> {
+    const { parse } = await import('omniscript-parser');
+    const parseOptions = exportOptions.resolveIncludes && exportOptions.basePath
+        ? { resolveIncludes: true, basePath: exportOptions.basePath }
+        : {};
+    const document = parse(text, parseOptions);
+    const model = parseDocumentModel(text);
+    const inlined = exportOptions.basePath
+        ? inlineIncludes(document, model, exportOptions.basePath)
+        : { blocks: document.blocks, nodes: getParsedBlockNodes(document, model) };
+    document.blocks = inlined.blocks;
+
+    // Converters only know the built-in themes, so workspace themes pass
+    // their base theme plus their values as custom styles. Block themes
+    // follow in `blocks`, indexed like `document.blocks`.
+    const config = vscode.workspace.getConfiguration('osf');
+    const fallback = exportOptions.theme ?? config.get<string>('preview.theme');
+    const resolved = themes.resolveBlockThemes(model, inlined.nodes, fallback);
+
+    // `@code` blocks parse as `osfcode`
+    const kept = document.blocks.map(block =>
+        !exportOptions.blocks || exportOptions.blocks.includes(block.type === 'osfcode' ? 'code' : block.type)
+    );
+    document.blocks = document.blocks.filter((_block, i) => kept[i]);
+    const blockThemes = resolved.blocks.filter((_theme, i) => kept[i]);
+    const blockNodes = inlined.nodes.filter((_node, i) => kept[i]);
+
+    if (format === 'html') {
+        const content = renderPreviewContent(document, { document: resolved.document, blocks: blockThemes }, blockNodes);
+        return Buffer.from(renderStandaloneHTML(content, resolved.document, exportOptions.basePath), 'utf8');
+    }
+    if (format === 'md') {
+        return Buffer.from(renderMarkdown(document), 'utf8');
+    }
+
+    const options = {
+        theme: resolved.document.base,
+        pageSize: exportOptions.pageSize,
+        orientation: exportOptions.orientation,
+        margins: exportOptions.margins,
+        customStyles: { ...getThemeTokens(resolved.document), blocks: blockThemes.map(getThemeTokens) }
+    };
+
+    const converters = await import('omniscript-converters');
+    const converterClass = {
+        pdf: converters.PDFConverter,
+        docx: converters.DOCXConverter,
+        pptx: converters.PPTXConverter,
+        xlsx: converters.XLSXConverter
+    }[format];
+    const output = await new converterClass().convert(document, options);
+    return output.buffer;
+}
+
+/**
+ * The document's blocks with each resolved `@include` replaced by the blocks
+ * of the file it names, recursively and in source order, along with the model
+ * block of each from its own file. omniscript-parser only records included
+ * documents in `document.includes`. The `@meta` of an included file is left
+ * out, and includes whose position is unknown (the parser and the model
+ * disagree on the blocks) are appended.
+ */
+function inlineIncludes(
+    document: OSFDocument,
+    model: DocumentModel,
+    basePath: string
+): { blocks: OSFBlock[]; nodes: (BlockNode | undefined)[] } {
+    const parsedNodes = getParsedBlockNodes(document, model);
+    const pending = [...(document.includes ?? [])];
+    const blocks: OSFBlock[] = [];
+    const nodes: (BlockNode | undefined)[] = [];
+
+    const addInclude = (include: NonNullable<OSFDocument['includes']>[number]) => {
+        if (!include.resolved) {
+            return;
+        }
+        const file = path.resolve(basePath, include.path);
+        const included = inlineIncludes(include.resolved, parseDocumentModel(fs.readFileSync(file, 'utf-8')), path.dirname(file));
+        included.blocks.forEach((block, i) => {
+            if (block.type !== 'meta') {
+                blocks.push(block);
+                nodes.push(included.nodes[i]);
+            }
+        });
+    };
+
+    if (model.blocks.filter(block => block.type !== 'include').length !== document.blocks.length) {
+        blocks.push(...document.blocks);
+        nodes.push(...parsedNodes);
+    } else {
+        let next = 0;
+        for (const block of model.blocks) {
+            if (block.type !== 'include') {
+                blocks.push(document.blocks[next]);
+                nodes.push(parsedNodes[next++]);
+                continue;
+            }
+            const target = getProperty(block, 'path')?.value;
+            const index = pending.findIndex(include => include.path === target);
+            if (index !== -1) {
+                addInclude(pending.splice(index, 1)[0]);
+            }
+        }
+    }
+    pending.forEach(addInclude);
+    return { blocks, nodes };
+}
+
+/**
+ * Text of a file, taken from its editor when it is open so unsaved changes
+ * are exported too.
+ */
+export async function readExportSource(uri: vscode.Uri): Promise<string> {
+    const open = vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString());
+    return open ? open.getText() : Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+}
+
+/**
+ * Readable message for an export failure, pointing at the converters
+ * package when it is missing.
+ */
+export function getExportErrorMessage(error: any): string {
+    if (error?.code === 'MODULE_NOT_FOUND' && String(error.message).includes('omniscript-converters')) {
+        return 'Export requires omniscript-converters package. Install it with: npm install -g omniscript-converters';
+    }
+    return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,69 @@
+// File: src/export/htmlExport.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PreviewContent } from '../preview/renderer';
+import { generateStandaloneHTML } from '../preview/renderer';
+import type { ThemeDefinition } from '../themes/themes';
+
+/** Root of the installed extension, where `media` and `node_modules` live. */
+const EXTENSION_ROOT = path.join(__dirname, '..', '..');
+
+/* eslint-disable @typescript-eslint/naming-convention */
+const IMAGE_TYPES: Record<string, string> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.svg': 'image/svg+xml',
+    '.webp': 'image/webp'
+};
+/* eslint-enable @typescript-eslint/naming-convention */
+
+/**
+ * Render preview content as one self-contained HTML file. Local images are
+ * inlined as data URLs (relative paths are resolved against `basePath`);
+ * charts are already SVG. Documents with diagrams carry the bundled mermaid
+ * and Viz.js builds, which draw them when the file is opened, without network
+ * access.
+ */
+export function renderStandaloneHTML(content: PreviewContent, theme: ThemeDefinition, basePath: string | undefined): string {
+    const inlined: PreviewContent = {
+        ...content,
+        blocks: content.blocks.map(html => inlineImages(html, basePath))
+    };
+
+    const scripts: string[] = [];
+    if (content.diagramCount > 0) {
+        // diagrams.js reports errors to the webview; a standalone file has none
+        scripts.push('const vscode = { postMessage() {} };');
+        scripts.push(readAsset('node_modules', 'mermaid', 'dist', 'mermaid.min.js'));
+        scripts.push(readAsset('node_modules', '@viz-js', 'viz', 'dist', 'viz-global.js'));
+        scripts.push(readAsset('media', 'diagrams.js'));
+    }
+
+    return generateStandaloneHTML(inlined, theme, scripts);
+}
+
+function readAsset(...segments: string[]): string {
+    return fs.readFileSync(path.join(EXTENSION_ROOT, ...segments), 'utf8');
+}
+
+/**
+ * Replace the `src` of images that point at local files with data URLs.
+ * Remote and missing images are left as they are.
+ */
+function inlineImages(html: string, basePath: string | undefined): string {
+    return html.replace(/(<img\b[^>]*\bsrc=")([^"]*)(")/g, (match, before: string, src: string, after: string) => {
+        const url = src.replace(/&amp;/g, '&');
+        if (/^[a-z][a-z\d+.-]*:/i.test(url)) {
+            return match;
+        }
+        try {
+            const file = path.resolve(basePath ?? '', decodeURIComponent(url));
+            const type = IMAGE_TYPES[path.extname(file).toLowerCase()];
+            return type ? `${before}data:${type};base64,${fs.readFileSync(file).toString('base64')}${after}` : match;
+        } catch {
+            return match;
+        }
+    });
+}
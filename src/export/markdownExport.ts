@@ -0,0 +1,135 @@
+// File: src/export/markdownExport.ts
+import type {
+    ChartBlock,
+    DiagramBlock,
+    DocBlock,
+    MetaBlock,
+    OSFBlock,
+    OSFCodeBlock,
+    OSFDocument,
+    SheetBlock,
+    SlideBlock,
+    TableBlock
+} from 'omniscript-parser';
+import { cellsFromSheetBlock, evaluateSheet, formatCellValue } from '../formula/evaluator';
+import { columnToLetters, toCellRef } from '../model/cellRef';
+import { dedent, fenceCode, renderSlideContentMarkdown } from '../preview/content';
+
+/**
+ * Render a parsed document as Markdown: `@doc` content as written, slides as
+ * `##` sections, tables and sheets (with computed formula values) as pipe
+ * tables, charts as a table of their data, and code and diagrams as fenced
+ * code blocks.
+ */
+export function renderMarkdown(document: OSFDocument): string {
+    const parts: string[] = [];
+
+    const meta = document.blocks.find((block): block is MetaBlock => block.type === 'meta');
+    if (meta?.props?.title) {
+        parts.push(`# ${String(meta.props.title)}`);
+    }
+    const byline = [meta?.props?.author && `By ${String(meta.props.author)}`, meta?.props?.date && String(meta.props.date)]
+        .filter(Boolean)
+        .join(' · ');
+    if (byline) {
+        parts.push(`*${byline}*`);
+    }
+
+    for (const block of document.blocks) {
+        const markdown = renderBlock(block);
+        if (markdown) {
+            parts.push(markdown);
+        }
+    }
+
+    return parts.join('\n\n') + '\n';
+}
+
+function renderBlock(block: OSFBlock): string {
+    switch (block.type) {
+        case 'doc':
+            return dedent((block as DocBlock).content ?? '').trim();
+        case 'slide':
+            return renderSlide(block as SlideBlock);
+        case 'sheet':
+            return renderSheet(block as SheetBlock);
+        case 'table':
+            return renderTable(block as TableBlock);
+        case 'chart':
+            return renderChart(block as ChartBlock);
+        case 'diagram': {
+            const diagram = block as DiagramBlock;
+            const code = fenceCode(diagram.code, diagram.engine === 'graphviz' ? 'dot' : 'mermaid');
+            return diagram.title ? `### ${diagram.title}\n\n${code}` : code;
+        }
+        case 'osfcode': {
+            const code = block as OSFCodeBlock;
+            const fenced = fenceCode(code.code, code.language);
+            return code.caption ? `*${code.caption}*\n\n${fenced}` : fenced;
+        }
+        default:
+            return '';
+    }
+}
+
+function renderSlide(block: SlideBlock): string {
+    const parts = [`## ${block.title || 'Untitled Slide'}`];
+    if (block.content && block.content.length > 0) {
+        parts.push(renderSlideContentMarkdown(block.content));
+    } else if (block.bullets && block.bullets.length > 0) {
+        parts.push(block.bullets.map(item => `- ${item}`).join('\n'));
+    }
+    return parts.join('\n\n');
+}
+
+function renderSheet(block: SheetBlock): string {
+    const evaluation = evaluateSheet(cellsFromSheetBlock(block));
+    const results = [...evaluation.cells.values()];
+    const maxRow = results.length > 0 ? Math.max(...results.map(cell => cell.row)) : 0;
+    const maxCol = Math.max(block.cols?.length ?? 0, ...results.map(cell => cell.col));
+
+    const rows: string[][] = [];
+    for (let r = 1; r <= maxRow; r++) {
+        const row: string[] = [];
+        for (let c = 1; c <= maxCol; c++) {
+            const result = evaluation.cells.get(toCellRef(r, c));
+            row.push(!result ? '' : result.error ? result.error.code : formatCellValue(result.value));
+        }
+        rows.push(row);
+    }
+
+    const headers = Array.from({ length: maxCol }, (_value, i) => block.cols?.[i] ?? columnToLetters(i + 1));
+    const table = maxCol > 0 ? pipeTable(headers, rows) : '*No sheet data*';
+    return `### ${block.name || 'Sheet'}\n\n${table}`;
+}
+
+function renderTable(block: TableBlock): string {
+    const table = pipeTable(block.headers, block.rows.map(row => row.cells.map(cell => cell.text)), block.alignment);
+    return block.caption ? `*${block.caption}*\n\n${table}` : table;
+}
+
+/**
+ * A chart as a table with one row per series; values are numbered like the
+ * points on the x axis.
+ */
+function renderChart(block: ChartBlock): string {
+    const series = (block.data ?? []).filter(s => Array.isArray(s?.values));
+    const count = Math.max(0, ...series.map(s => s.values.length));
+    const headers = ['Series', ...Array.from({ length: count }, (_value, i) => String(i + 1))];
+    const rows = series.map(s => [String(s.label ?? ''), ...Array.from({ length: count }, (_value, i) => String(s.values[i] ?? ''))]);
+    const table = series.length > 0 ? pipeTable(headers, rows) : '*No chart data*';
+    return `### ${block.title}\n\n${table}`;
+}
+
+function pipeTable(headers: string[], rows: string[][], alignment: ('left' | 'center' | 'right')[] = []): string {
+    const separator = headers.map((_header, i) =>
+        alignment[i] === 'center' ? ':---:' : alignment[i] === 'right' ? '---:' : '---'
+    );
+    const line = (cells: string[]) =>
+        `| ${headers.map((_header, i) => escapeCell(cells[i] ?? '')).join(' | ')} |`;
+    return [line(headers), `| ${separator.join(' | ')} |`, ...rows.map(line)].join('\n');
+}
+
+function escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
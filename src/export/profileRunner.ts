@@ -0,0 +1,74 @@
+// File: src/export/profileRunner.ts
+import * as vscode from 'vscode';
+import * as path from 'path';
+import type { ThemeRegistry } from '../themes/themeRegistry';
+import { exportDocument, getExportErrorMessage, readExportSource } from './exporter';
+import {
+    type ExportProfile,
+    type ExportProfileError,
+    getProfileExportOptions,
+    getProfileOutputPath,
+    loadExportProfiles
+} from './exportProfiles';
+
+export interface ProfileRunResult {
+    /** Absolute paths of the written files. */
+    exported: string[];
+    failures: { file: string; message: string }[];
+    cancelled: boolean;
+}
+
+/**
+ * Profiles of the open workspace folders and the settings.
+ */
+export function getExportProfiles(): { profiles: ExportProfile[]; errors: ExportProfileError[] } {
+    const roots = (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+    return loadExportProfiles(roots, vscode.workspace.getConfiguration('osf.export').get('profiles'));
+}
+
+/**
+ * Files a profile exports when no file is given: the profile's `include`
+ * glob, or `osf.export.include`.
+ */
+export async function findProfileFiles(profile: ExportProfile, glob?: string): Promise<vscode.Uri[]> {
+    const include = glob ?? profile.include ?? vscode.workspace.getConfiguration('osf.export').get('include', '**/*.osf');
+    const files = await vscode.workspace.findFiles(include, '**/node_modules/**');
+    return files.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+}
+
+/**
+ * Export files with a profile, reporting each file through `log`.
+ */
+export async function runExportProfile(
+    profile: ExportProfile,
+    files: vscode.Uri[],
+    themes: ThemeRegistry,
+    log: (message: string) => void,
+    token?: vscode.CancellationToken
+): Promise<ProfileRunResult> {
+    const result: ProfileRunResult = { exported: [], failures: [], cancelled: false };
+
+    for (const file of files) {
+        if (token?.isCancellationRequested) {
+            result.cancelled = true;
+            break;
+        }
+        const name = vscode.workspace.asRelativePath(file);
+        const root = vscode.workspace.getWorkspaceFolder(file)?.uri.fsPath ?? path.dirname(file.fsPath);
+        try {
+            const target = getProfileOutputPath(profile, file.fsPath, root);
+            const options = { ...getProfileExportOptions(profile), basePath: path.dirname(file.fsPath) };
+            const buffer = await exportDocument(await readExportSource(file), profile.format, themes, options);
+            await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(target)));
+            await vscode.workspace.fs.writeFile(vscode.Uri.file(target), buffer);
+            result.exported.push(target);
+            log(`✓ ${name} → ${vscode.workspace.asRelativePath(target)}`);
+        } catch (error: any) {
+            const message = getExportErrorMessage(error);
+            result.failures.push({ file: name, message });
+            log(`✗ ${name}: ${message}`);
+        }
+    }
+
+    return result;
+}
@@ -1,12 +1,27 @@
 // File: src/extension.ts
 import * as vscode from 'vscode';
-import { CompletionProvider } from './providers/completionProvider';
-import { HoverProvider } from './providers/hoverProvider';
-import { DiagnosticsProvider } from './providers/diagnosticsProvider';
-import { FormattingProvider } from './providers/formattingProvider';
+import { LanguageClient } from 'vscode-languageclient/node';
+import { createLanguageClient } from './client/languageClient';
 import { parseCommand } from './commands/parseCommand';
 import { previewCommand } from './commands/previewCommand';
+import { presentCommand } from './commands/presentCommand';
 import { exportCommand } from './commands/exportCommand';
+import { exportWorkspaceCommand } from './commands/exportWorkspaceCommand';
+import { exportProfileCommand } from './commands/exportProfileCommand';
+import { importCommand } from './commands/importCommand';
+import { tableCommand } from './commands/tableCommand';
+import { EMBEDDED_SCHEME, EmbeddedDocumentProvider } from './embedded/embeddedDocuments';
+import { createEmbeddedMiddleware } from './embedded/embeddedMiddleware';
+import { EXPORT_TASK_TYPE, ExportTaskProvider } from './export/exportTaskProvider';
+import { ExportOnSave } from './export/exportOnSave';
+import { OSFPasteEditProvider, PASTE_EDIT_KINDS, PASTE_MIME_TYPES } from './import/pasteEditProvider';
+import { PreviewManager } from './preview/previewManager';
+import { PREVIEW_VIEW_TYPE } from './preview/previewPanel';
+import { TableContext } from './table/tableContext';
+import { ThemeRegistry } from './themes/themeRegistry';
+import { logger } from './utils/logger';
+
+let client: LanguageClient | undefined;
 
 /**
  * Extension activation entry point.
@@ -15,45 +30,49 @@ import { exportCommand } from './commands/exportCommand';
 export function activate(context: vscode.ExtensionContext) {
     console.log('OmniScript Format extension is now active');
 
-    // Get configuration
-    const config = vscode.workspace.getConfiguration('osf');
-
-    // Register language providers
-    const osfSelector: vscode.DocumentSelector = { language: 'osf', scheme: 'file' };
-
-    // Completion provider for auto-complete
-    if (config.get('completion.enabled', true)) {
-        const completionProvider = new CompletionProvider();
-        context.subscriptions.push(
-            vscode.languages.registerCompletionItemProvider(
-                osfSelector,
-                completionProvider,
-                '@', // Trigger on @ for blocks
-                ':', // Trigger on : for properties
-                ' '  // Trigger on space for values
-            )
-        );
-    }
-
-    // Hover provider for documentation
-    const hoverProvider = new HoverProvider();
+    // Completion, hover, diagnostics, formatting, symbols and definitions
+    // are served by the OSF language server, except inside @code and
+    // @diagram blocks, where they go to the embedded language
+    const embeddedDocuments = new EmbeddedDocumentProvider();
     context.subscriptions.push(
-        vscode.languages.registerHoverProvider(osfSelector, hoverProvider)
+        embeddedDocuments,
+        vscode.workspace.registerTextDocumentContentProvider(EMBEDDED_SCHEME, embeddedDocuments),
+        vscode.workspace.onDidCloseTextDocument(document => embeddedDocuments.clear(document))
     );
+    client = createLanguageClient(context, createEmbeddedMiddleware(embeddedDocuments));
+    client.start();
 
-    // Diagnostics provider for real-time error checking
-    if (config.get('linting.enabled', true)) {
-        const diagnosticsProvider = new DiagnosticsProvider();
-        context.subscriptions.push(diagnosticsProvider);
-    }
+    // Built-in themes plus the workspace's .osf/themes files
+    const themes = new ThemeRegistry();
+    const setThemeRoots = () => {
+        themes.setRoots((vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath));
+        themes.errors.forEach(error => logger.warn(`Theme ${error.file}: ${error.message}`));
+    };
+    setThemeRoots();
 
-    // Formatting provider for document formatting
-    const formattingProvider = new FormattingProvider();
+    // Live previews, restored by the serializer after a window reload
+    const previewManager = new PreviewManager(context.extensionUri, themes);
     context.subscriptions.push(
-        vscode.languages.registerDocumentFormattingEditProvider(
-            osfSelector,
-            formattingProvider
-        )
+        previewManager,
+        vscode.window.registerWebviewPanelSerializer(PREVIEW_VIEW_TYPE, previewManager)
+    );
+
+    const reloadThemes = () => {
+        setThemeRoots();
+        previewManager.refresh();
+    };
+    const themeWatcher = vscode.workspace.createFileSystemWatcher('**/.osf/themes/*.{json,css}');
+    context.subscriptions.push(
+        themeWatcher,
+        themeWatcher.onDidCreate(reloadThemes),
+        themeWatcher.onDidChange(reloadThemes),
+        themeWatcher.onDidDelete(reloadThemes),
+        vscode.workspace.onDidChangeWorkspaceFolders(reloadThemes),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('osf.preview.theme')) {
+                previewManager.refresh();
+            }
+        })
     );
 
     // Register commands
@@ -62,23 +81,90 @@ export function activate(context: vscode.ExtensionContext) {
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('osf.preview', () => previewCommand(context))
+        vscode.commands.registerCommand('osf.preview', () => previewCommand(previewManager))
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('osf.previewLocked', () => previewCommand(previewManager, true))
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('osf.togglePreviewLock', () => previewManager.toggleLock())
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('osf.present', () => presentCommand(context, themes))
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('osf.exportPDF', () => exportCommand('pdf', themes))
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('osf.exportDOCX', () => exportCommand('docx', themes))
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('osf.exportPPTX', () => exportCommand('pptx', themes))
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('osf.exportXLSX', () => exportCommand('xlsx', themes))
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('osf.exportHTML', () => exportCommand('html', themes))
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('osf.exportMarkdown', () => exportCommand('md', themes))
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('osf.exportWorkspace', (folder?: vscode.Uri) => exportWorkspaceCommand(themes, folder))
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('osf.exportWithProfile', () => exportProfileCommand(themes))
     );
 
     context.subscriptions.push(
-        vscode.commands.registerCommand('osf.exportPDF', () => exportCommand('pdf'))
+        vscode.commands.registerCommand('osf.importMarkdown', (uri?: vscode.Uri) => importCommand('markdown', uri)),
+        vscode.commands.registerCommand('osf.importCSV', (uri?: vscode.Uri) => importCommand('csv', uri)),
+        vscode.commands.registerCommand('osf.importXLSX', (uri?: vscode.Uri) => importCommand('xlsx', uri))
     );
 
+    // Spreadsheet ranges and web page HTML pasted into OSF files
     context.subscriptions.push(
-        vscode.commands.registerCommand('osf.exportDOCX', () => exportCommand('docx'))
+        vscode.languages.registerDocumentPasteEditProvider({ language: 'osf' }, new OSFPasteEditProvider(), {
+            providedPasteEditKinds: PASTE_EDIT_KINDS,
+            pasteMimeTypes: PASTE_MIME_TYPES
+        })
     );
 
+    // Editing @table rows and columns; the keybindings apply while the cursor is in a table
     context.subscriptions.push(
-        vscode.commands.registerCommand('osf.exportPPTX', () => exportCommand('pptx'))
+        new TableContext(),
+        vscode.commands.registerCommand('osf.insertTableRowAbove', () => tableCommand('insertRowAbove')),
+        vscode.commands.registerCommand('osf.insertTableRowBelow', () => tableCommand('insertRowBelow')),
+        vscode.commands.registerCommand('osf.deleteTableRow', () => tableCommand('deleteRow')),
+        vscode.commands.registerCommand('osf.insertTableColumnLeft', () => tableCommand('insertColumnLeft')),
+        vscode.commands.registerCommand('osf.insertTableColumnRight', () => tableCommand('insertColumnRight')),
+        vscode.commands.registerCommand('osf.deleteTableColumn', () => tableCommand('deleteColumn')),
+        vscode.commands.registerCommand('osf.moveTableColumnLeft', () => tableCommand('moveColumnLeft')),
+        vscode.commands.registerCommand('osf.moveTableColumnRight', () => tableCommand('moveColumnRight')),
+        vscode.commands.registerCommand('osf.cycleTableColumnAlignment', () => tableCommand('cycleAlignment')),
+        vscode.commands.registerCommand('osf.sortTableRows', () => tableCommand('sortRows')),
+        vscode.commands.registerCommand('osf.nextTableCell', () => tableCommand('nextCell')),
+        vscode.commands.registerCommand('osf.previousTableCell', () => tableCommand('previousCell'))
     );
 
+    // Export profiles as tasks, and re-run on save when turned on
+    const exportOnSave = new ExportOnSave(themes);
     context.subscriptions.push(
-        vscode.commands.registerCommand('osf.exportXLSX', () => exportCommand('xlsx'))
+        vscode.tasks.registerTaskProvider(EXPORT_TASK_TYPE, new ExportTaskProvider(themes)),
+        exportOnSave,
+        vscode.commands.registerCommand('osf.toggleExportOnSave', () => exportOnSave.toggle())
     );
 
     // Show welcome message on first activation
@@ -99,6 +185,7 @@ export function activate(context: vscode.ExtensionContext) {
 /**
  * Extension deactivation cleanup.
  */
-export function deactivate() {
+export function deactivate(): Thenable<void> | undefined {
     console.log('OmniScript Format extension deactivated');
+    return client?.stop();
 }
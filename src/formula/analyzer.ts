@@ -0,0 +1,224 @@
+// File: src/formula/analyzer.ts
+import { columnToLetters, toCellRef } from '../model/cellRef';
+import { evaluateSheet } from './evaluator';
+import { describeArity, FORMULA_FUNCTIONS, type ArgumentKind } from './functions';
+import { parseFormula } from './parser';
+import {
+    FormulaSyntaxError,
+    type CellNode,
+    type CellResult,
+    type CellValue,
+    type FormulaNode,
+    type SheetCellInput
+} from './types';
+
+/**
+ * A problem found in a sheet formula. Offsets point into the formula text;
+ * when they are missing the whole cell assignment is at fault.
+ */
+export interface FormulaProblem {
+    ref: string;
+    message: string;
+    start?: number;
+    end?: number;
+}
+
+export interface SheetAnalysisOptions {
+    /** Number of columns declared by `cols`; references beyond it are reported. */
+    columnCount?: number;
+}
+
+/** What a sub-expression is known to produce, without evaluating it. */
+type ValueKind = 'number' | 'text' | 'boolean' | 'empty' | 'range' | 'unknown';
+
+/**
+ * Statically check every formula in a sheet: syntax, unknown functions,
+ * argument counts, references outside the declared columns, text or ranges
+ * used where a number is expected, and circular references.
+ */
+export function analyzeSheet(inputs: SheetCellInput[], options: SheetAnalysisOptions = {}): FormulaProblem[] {
+    const problems: FormulaProblem[] = [];
+    const evaluation = evaluateSheet(inputs);
+
+    for (const input of inputs) {
+        if (input.formula === undefined) {
+            continue;
+        }
+        const ref = toCellRef(input.row, input.col);
+
+        let node: FormulaNode;
+        try {
+            node = parseFormula(input.formula);
+        } catch (error) {
+            if (error instanceof FormulaSyntaxError) {
+                problems.push({ ref, message: `Invalid formula: ${error.message}`, start: error.start, end: error.end });
+            }
+            continue;
+        }
+
+        new FormulaChecker(ref, evaluation.cells, options, problems).check(node);
+    }
+
+    const reported = new Set<string>();
+    for (const cycle of evaluation.cycles) {
+        for (const ref of cycle) {
+            if (!reported.has(ref)) {
+                reported.add(ref);
+                problems.push({ ref, message: `Circular reference: ${cycle.join(' → ')}` });
+            }
+        }
+    }
+
+    return problems;
+}
+
+class FormulaChecker {
+    constructor(
+        private ref: string,
+        private cells: Map<string, CellResult>,
+        private options: SheetAnalysisOptions,
+        private problems: FormulaProblem[]
+    ) {}
+
+    check(node: FormulaNode): ValueKind {
+        switch (node.kind) {
+            case 'number':
+                return 'number';
+            case 'string':
+                return kindOfValue(node.value);
+            case 'boolean':
+                return 'boolean';
+            case 'cell':
+                this.checkColumn(node);
+                return this.kindOfCell(node.ref);
+            case 'range':
+                this.checkColumn(node.from);
+                this.checkColumn(node.to);
+                return 'range';
+            case 'unary':
+                this.expectNumber(node.operand, this.check(node.operand), `'${node.operator}'`);
+                return 'number';
+            case 'binary': {
+                const left = this.check(node.left);
+                const right = this.check(node.right);
+                if (node.operator === '&') {
+                    this.expectScalar(node.left, left);
+                    this.expectScalar(node.right, right);
+                    return 'text';
+                }
+                if (['+', '-', '*', '/', '^'].includes(node.operator)) {
+                    this.expectNumber(node.left, left, `'${node.operator}'`);
+                    this.expectNumber(node.right, right, `'${node.operator}'`);
+                    return 'number';
+                }
+                this.expectScalar(node.left, left);
+                this.expectScalar(node.right, right);
+                return 'boolean';
+            }
+            case 'call':
+                return this.checkCall(node.name, node.start, node.nameEnd, node.args);
+        }
+    }
+
+    private checkCall(name: string, start: number, nameEnd: number, args: FormulaNode[]): ValueKind {
+        const kinds = args.map(arg => this.check(arg));
+
+        const fn = FORMULA_FUNCTIONS[name];
+        if (!fn) {
+            const known = Object.keys(FORMULA_FUNCTIONS).join(', ');
+            this.report(`Unknown function ${name}. Available functions: ${known}`, start, nameEnd);
+            return 'unknown';
+        }
+
+        if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+            this.report(`${name} expects ${describeArity(fn)} but got ${args.length}`, start, nameEnd);
+        }
+
+        args.forEach((arg, index) => this.checkArgument(name, fn.accepts, arg, kinds[index]));
+        return name === 'IF' ? 'unknown' : 'number';
+    }
+
+    private checkArgument(name: string, accepts: ArgumentKind, arg: FormulaNode, kind: ValueKind): void {
+        const what = `argument of ${name}`;
+        switch (accepts) {
+            case 'number':
+                this.expectNumber(arg, kind, what);
+                break;
+            case 'numberOrRange':
+                if (kind !== 'range') {
+                    this.expectNumber(arg, kind, what);
+                }
+                break;
+            case 'value':
+                this.expectScalar(arg, kind);
+                break;
+        }
+    }
+
+    private expectNumber(node: FormulaNode, kind: ValueKind, context: string): void {
+        if (kind === 'text') {
+            this.report(`Type error: ${this.describe(node)} is text and cannot be used as a number in ${context}`, node.start, node.end);
+        } else {
+            this.expectScalar(node, kind);
+        }
+    }
+
+    private expectScalar(node: FormulaNode, kind: ValueKind): void {
+        if (kind === 'range') {
+            this.report(
+                'Type error: a range cannot be used as a single value; wrap it in a function such as SUM',
+                node.start,
+                node.end
+            );
+        }
+    }
+
+    private checkColumn(node: CellNode): void {
+        const columnCount = this.options.columnCount;
+        if (columnCount !== undefined && node.col > columnCount) {
+            const last = columnToLetters(columnCount);
+            this.report(
+                `Reference ${node.ref} is outside the declared columns (A–${last})`,
+                node.start,
+                node.end
+            );
+        }
+    }
+
+    private kindOfCell(ref: string): ValueKind {
+        const result = this.cells.get(ref);
+        if (!result) {
+            return 'empty';
+        }
+        // Errors in referenced cells are reported at those cells
+        return result.error ? 'unknown' : kindOfValue(result.value);
+    }
+
+    private describe(node: FormulaNode): string {
+        if (node.kind === 'cell') {
+            const value = this.cells.get(node.ref)?.value;
+            return `${node.ref} (${JSON.stringify(value)})`;
+        }
+        if (node.kind === 'string') {
+            return JSON.stringify(node.value);
+        }
+        return 'this expression';
+    }
+
+    private report(message: string, start?: number, end?: number): void {
+        this.problems.push({ ref: this.ref, message, start, end });
+    }
+}
+
+function kindOfValue(value: CellValue): ValueKind {
+    if (value === null) {
+        return 'empty';
+    }
+    if (typeof value === 'number') {
+        return 'number';
+    }
+    if (typeof value === 'boolean') {
+        return 'boolean';
+    }
+    return value.trim() !== '' && !Number.isNaN(Number(value)) ? 'number' : 'text';
+}
@@ -0,0 +1,414 @@
+// File: src/formula/evaluator.ts
+import type { SheetBlock } from 'omniscript-parser';
+import { toCellRef } from '../model/cellRef';
+import { describeArity, FORMULA_FUNCTIONS, toNumber, type ArgumentValue } from './functions';
+import { collectReferences, parseFormula } from './parser';
+import {
+    FormulaError,
+    type BinaryOperator,
+    type CellResult,
+    type CellValue,
+    type FormulaNode,
+    type SheetCellInput,
+    type SheetEvaluation
+} from './types';
+
+interface FormulaCell {
+    ref: string;
+    row: number;
+    col: number;
+    formula: string;
+    node?: FormulaNode;
+    error?: FormulaError;
+    dependencies: string[];
+}
+
+/**
+ * Evaluate every formula in a sheet.
+ *
+ * Formula cells are evaluated in dependency order. Cells that take part in a
+ * circular reference get a `#CYCLE!` error, and so does every cell that
+ * depends on them; the remaining cells are still computed.
+ */
+export function evaluateSheet(inputs: Iterable<SheetCellInput>): SheetEvaluation {
+    return new SheetEvaluator(inputs).evaluate();
+}
+
+/**
+ * Cells of a sheet parsed by omniscript-parser. Values that start with `=`
+ * and the entries of `formulas` become formula cells.
+ */
+export function cellsFromSheetBlock(block: SheetBlock): SheetCellInput[] {
+    const cells: SheetCellInput[] = [];
+
+    for (const [key, value] of Object.entries(block.data ?? {})) {
+        const [row, col] = key.split(',').map(Number);
+        if (!row || !col) {
+            continue;
+        }
+        if (typeof value === 'string' && value.trimStart().startsWith('=')) {
+            cells.push({ row, col, formula: value.trimStart().slice(1) });
+        } else {
+            cells.push({ row, col, value });
+        }
+    }
+
+    for (const { cell, expr } of block.formulas ?? []) {
+        cells.push({ row: cell[0], col: cell[1], formula: expr.replace(/^\s*=/, '') });
+    }
+
+    return cells;
+}
+
+/**
+ * Display text for a computed value: numbers lose floating point noise
+ * (0.1 + 0.2 shows as 0.3) and booleans are upper-cased.
+ */
+export function formatCellValue(value: CellValue): string {
+    if (value === null) {
+        return '';
+    }
+    if (typeof value === 'number') {
+        return Number.isInteger(value) ? String(value) : String(parseFloat(value.toPrecision(12)));
+    }
+    if (typeof value === 'boolean') {
+        return value ? 'TRUE' : 'FALSE';
+    }
+    return value;
+}
+
+class SheetEvaluator {
+    private results = new Map<string, CellResult>();
+    private formulas = new Map<string, FormulaCell>();
+    private order: string[] = [];
+    private cycles: string[][] = [];
+    private maxRow = 0;
+    private maxCol = 0;
+
+    constructor(inputs: Iterable<SheetCellInput>) {
+        for (const input of inputs) {
+            const ref = toCellRef(input.row, input.col);
+            this.maxRow = Math.max(this.maxRow, input.row);
+            this.maxCol = Math.max(this.maxCol, input.col);
+
+            if (input.formula !== undefined) {
+                this.formulas.set(ref, { ref, row: input.row, col: input.col, formula: input.formula, dependencies: [] });
+                this.results.set(ref, { ref, row: input.row, col: input.col, formula: input.formula, value: null });
+            } else {
+                this.formulas.delete(ref);
+                this.results.set(ref, { ref, row: input.row, col: input.col, value: toCellValue(input.value) });
+            }
+        }
+    }
+
+    evaluate(): SheetEvaluation {
+        for (const cell of this.formulas.values()) {
+            try {
+                cell.node = parseFormula(cell.formula);
+                cell.dependencies = this.findDependencies(cell.node);
+            } catch (error) {
+                cell.error = toFormulaError(error);
+            }
+        }
+
+        for (const component of this.stronglyConnectedComponents()) {
+            const [first] = component;
+            const isCycle = component.length > 1 || this.formulas.get(first)!.dependencies.includes(first);
+
+            if (isCycle) {
+                const chain = this.findCycleChain(first, new Set(component));
+                this.cycles.push(chain);
+                for (const ref of component) {
+                    this.setError(ref, new FormulaError('#CYCLE!', `Circular reference: ${chain.join(' → ')}`));
+                }
+            } else {
+                this.evaluateCell(this.formulas.get(first)!);
+            }
+        }
+
+        return { cells: this.results, order: this.order, cycles: this.cycles };
+    }
+
+    private evaluateCell(cell: FormulaCell): void {
+        this.order.push(cell.ref);
+        if (cell.error) {
+            this.setError(cell.ref, cell.error);
+            return;
+        }
+
+        try {
+            const value = this.evaluateNode(cell.node!);
+            if (Array.isArray(value)) {
+                throw new FormulaError('#VALUE!', 'A range cannot be used as a single value');
+            }
+            this.results.get(cell.ref)!.value = value;
+        } catch (error) {
+            this.setError(cell.ref, toFormulaError(error));
+        }
+    }
+
+    private setError(ref: string, error: FormulaError): void {
+        const result = this.results.get(ref)!;
+        result.value = error.code;
+        result.error = error;
+    }
+
+    private evaluateNode(node: FormulaNode): ArgumentValue {
+        switch (node.kind) {
+            case 'number':
+            case 'string':
+            case 'boolean':
+                return node.value;
+            case 'cell':
+                return this.readCell(node.ref);
+            case 'range':
+                return this.readRange(node.from.row, node.from.col, node.to.row, node.to.col);
+            case 'unary': {
+                const operand = toNumber(this.evaluateNode(node.operand));
+                if (node.operator === '%') {
+                    return operand / 100;
+                }
+                return node.operator === '-' ? -operand : operand;
+            }
+            case 'binary':
+                return applyOperator(node.operator, this.evaluateNode(node.left), this.evaluateNode(node.right));
+            case 'call': {
+                const fn = FORMULA_FUNCTIONS[node.name];
+                if (!fn) {
+                    throw new FormulaError('#NAME?', `Unknown function ${node.name}`);
+                }
+                if (node.args.length < fn.minArgs || node.args.length > fn.maxArgs) {
+                    throw new FormulaError('#ERROR!', `${node.name} expects ${describeArity(fn)}`);
+                }
+                return fn.evaluate(node.args.map(arg => () => this.evaluateNode(arg)));
+            }
+        }
+    }
+
+    private readCell(ref: string): CellValue {
+        const result = this.results.get(ref);
+        if (!result) {
+            return null;
+        }
+        if (result.error) {
+            throw result.error;
+        }
+        return result.value;
+    }
+
+    private readRange(fromRow: number, fromCol: number, toRow: number, toCol: number): CellValue[] {
+        const values: CellValue[] = [];
+        const lastRow = Math.min(Math.max(fromRow, toRow), this.maxRow);
+        const lastCol = Math.min(Math.max(fromCol, toCol), this.maxCol);
+
+        for (let row = Math.min(fromRow, toRow); row <= lastRow; row++) {
+            for (let col = Math.min(fromCol, toCol); col <= lastCol; col++) {
+                const ref = toCellRef(row, col);
+                if (this.results.has(ref)) {
+                    values.push(this.readCell(ref));
+                }
+            }
+        }
+        return values;
+    }
+
+    /**
+     * Formula cells referenced by a formula, directly or through a range.
+     */
+    private findDependencies(node: FormulaNode): string[] {
+        const dependencies = new Set<string>();
+
+        for (const reference of collectReferences(node)) {
+            if (reference.kind === 'cell') {
+                if (this.formulas.has(reference.ref)) {
+                    dependencies.add(reference.ref);
+                }
+            } else if (reference.kind === 'range') {
+                const rows = [reference.from.row, reference.to.row].sort((a, b) => a - b);
+                const cols = [reference.from.col, reference.to.col].sort((a, b) => a - b);
+                for (const cell of this.formulas.values()) {
+                    if (cell.row >= rows[0] && cell.row <= rows[1] && cell.col >= cols[0] && cell.col <= cols[1]) {
+                        dependencies.add(cell.ref);
+                    }
+                }
+            }
+        }
+
+        return [...dependencies];
+    }
+
+    /**
+     * Tarjan's algorithm. Components come out dependencies-first, which is
+     * exactly the evaluation order.
+     */
+    private stronglyConnectedComponents(): string[][] {
+        const indices = new Map<string, number>();
+        const lowLinks = new Map<string, number>();
+        const stack: string[] = [];
+        const onStack = new Set<string>();
+        const components: string[][] = [];
+        let nextIndex = 0;
+
+        const visit = (ref: string) => {
+            indices.set(ref, nextIndex);
+            lowLinks.set(ref, nextIndex);
+            nextIndex++;
+            stack.push(ref);
+            onStack.add(ref);
+
+            for (const dependency of this.formulas.get(ref)!.dependencies) {
+                if (!indices.has(dependency)) {
+                    visit(dependency);
+                    lowLinks.set(ref, Math.min(lowLinks.get(ref)!, lowLinks.get(dependency)!));
+                } else if (onStack.has(dependency)) {
+                    lowLinks.set(ref, Math.min(lowLinks.get(ref)!, indices.get(dependency)!));
+                }
+            }
+
+            if (lowLinks.get(ref) === indices.get(ref)) {
+                const component: string[] = [];
+                let member: string;
+                do {
+                    member = stack.pop()!;
+                    onStack.delete(member);
+                    component.push(member);
+                } while (member !== ref);
+                components.push(component.reverse());
+            }
+        };
+
+        for (const ref of this.formulas.keys()) {
+            if (!indices.has(ref)) {
+                visit(ref);
+            }
+        }
+        return components;
+    }
+
+    /**
+     * A path through the component that starts and ends at `start`.
+     */
+    private findCycleChain(start: string, component: Set<string>): string[] {
+        const visited = new Set<string>();
+
+        const search = (ref: string, path: string[]): string[] | undefined => {
+            for (const dependency of this.formulas.get(ref)!.dependencies) {
+                if (dependency === start) {
+                    return [...path, start];
+                }
+                if (component.has(dependency) && !visited.has(dependency)) {
+                    visited.add(dependency);
+                    const found = search(dependency, [...path, dependency]);
+                    if (found) {
+                        return found;
+                    }
+                }
+            }
+            return undefined;
+        };
+
+        return search(start, [start]) ?? [start, start];
+    }
+}
+
+function toCellValue(value: unknown): CellValue {
+    if (value === undefined || value === null) {
+        return null;
+    }
+    if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') {
+        return value;
+    }
+    return JSON.stringify(value);
+}
+
+function toFormulaError(error: unknown): FormulaError {
+    if (error instanceof FormulaError) {
+        return error;
+    }
+    return new FormulaError('#ERROR!', error instanceof Error ? error.message : String(error));
+}
+
+function applyOperator(operator: BinaryOperator, left: ArgumentValue, right: ArgumentValue): CellValue {
+    switch (operator) {
+        case '&':
+            return scalarText(left) + scalarText(right);
+        case '=':
+            return compareValues(left, right) === 0;
+        case '<>':
+            return compareValues(left, right) !== 0;
+        case '<':
+            return compareValues(left, right) < 0;
+        case '>':
+            return compareValues(left, right) > 0;
+        case '<=':
+            return compareValues(left, right) <= 0;
+        case '>=':
+            return compareValues(left, right) >= 0;
+    }
+
+    const a = toNumber(left);
+    const b = toNumber(right);
+    let result: number;
+    switch (operator) {
+        case '+':
+            result = a + b;
+            break;
+        case '-':
+            result = a - b;
+            break;
+        case '*':
+            result = a * b;
+            break;
+        case '/':
+            if (b === 0) {
+                throw new FormulaError('#DIV/0!', 'Division by zero');
+            }
+            result = a / b;
+            break;
+        case '^':
+            result = Math.pow(a, b);
+            break;
+    }
+    if (!Number.isFinite(result)) {
+        throw new FormulaError('#VALUE!', 'Result is not a finite number');
+    }
+    return result;
+}
+
+function scalarText(value: ArgumentValue): string {
+    if (Array.isArray(value)) {
+        throw new FormulaError('#VALUE!', 'A range cannot be used as a single value');
+    }
+    return formatCellValue(value);
+}
+
+/**
+ * Spreadsheet comparison: numbers < text < booleans, text compared
+ * case-insensitively, empty cells equal to 0, "" or FALSE.
+ */
+function compareValues(left: ArgumentValue, right: ArgumentValue): number {
+    if (Array.isArray(left) || Array.isArray(right)) {
+        throw new FormulaError('#VALUE!', 'A range cannot be used as a single value');
+    }
+
+    const a = left ?? emptyLike(right);
+    const b = right ?? emptyLike(left);
+    const rank = (value: CellValue) => (typeof value === 'number' ? 0 : typeof value === 'string' ? 1 : 2);
+
+    if (rank(a) !== rank(b)) {
+        return rank(a) - rank(b);
+    }
+    if (typeof a === 'string' && typeof b === 'string') {
+        const x = a.toLowerCase();
+        const y = b.toLowerCase();
+        return x < y ? -1 : x > y ? 1 : 0;
+    }
+    return toNumber(a) - toNumber(b);
+}
+
+function emptyLike(value: CellValue): CellValue {
+    if (typeof value === 'string') {
+        return '';
+    }
+    return typeof value === 'boolean' ? false : 0;
+}
@@ -0,0 +1,196 @@
+// File: src/formula/functions.ts
+import { FormulaError, type CellValue } from './types';
+
+/**
+ * An evaluated function argument: a scalar, or the values of a range.
+ */
+export type ArgumentValue = CellValue | CellValue[];
+
+/**
+ * Arguments are passed unevaluated so that functions like IF only evaluate
+ * the branch they return.
+ */
+export type LazyArgument = () => ArgumentValue;
+
+/**
+ * What a function accepts for each argument, used to report type errors
+ * before evaluation.
+ */
+export type ArgumentKind = 'number' | 'numberOrRange' | 'value' | 'valueOrRange';
+
+export interface FormulaFunction {
+    signature: string;
+    description: string;
+    minArgs: number;
+    maxArgs: number;
+    accepts: ArgumentKind;
+    evaluate(args: LazyArgument[]): CellValue;
+}
+
+/**
+ * Coerce a scalar to a number the way spreadsheets do: empty is 0, booleans are
+ * 0/1 and numeric strings are parsed.
+ */
+export function toNumber(value: ArgumentValue): number {
+    if (Array.isArray(value)) {
+        throw new FormulaError('#VALUE!', 'A range cannot be used as a single value');
+    }
+    if (value === null) {
+        return 0;
+    }
+    if (typeof value === 'number') {
+        return value;
+    }
+    if (typeof value === 'boolean') {
+        return value ? 1 : 0;
+    }
+    const parsed = Number(value.trim());
+    if (value.trim() === '' || Number.isNaN(parsed)) {
+        throw new FormulaError('#VALUE!', `"${value}" is not a number`);
+    }
+    return parsed;
+}
+
+export function toBoolean(value: ArgumentValue): boolean {
+    if (typeof value === 'string') {
+        const upper = value.toUpperCase();
+        if (upper === 'TRUE' || upper === 'FALSE') {
+            return upper === 'TRUE';
+        }
+    }
+    return toNumber(value) !== 0;
+}
+
+/**
+ * Human readable argument count, e.g. "at least 1 argument" or "1 to 2 arguments".
+ */
+export function describeArity(fn: FormulaFunction): string {
+    const plural = (n: number) => `${n} argument${n === 1 ? '' : 's'}`;
+    if (fn.maxArgs === Infinity) {
+        return `at least ${plural(fn.minArgs)}`;
+    }
+    return fn.minArgs === fn.maxArgs ? plural(fn.minArgs) : `${fn.minArgs} to ${plural(fn.maxArgs)}`;
+}
+
+/**
+ * Numbers to aggregate. Values inside ranges that are not numbers (text,
+ * booleans, empty cells) are skipped; scalar arguments are coerced.
+ */
+function collectNumbers(args: LazyArgument[]): number[] {
+    const numbers: number[] = [];
+    for (const arg of args) {
+        const value = arg();
+        if (Array.isArray(value)) {
+            numbers.push(...value.filter((item): item is number => typeof item === 'number'));
+        } else {
+            numbers.push(toNumber(value));
+        }
+    }
+    return numbers;
+}
+
+/* eslint-disable @typescript-eslint/naming-convention */
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+    SUM: {
+        signature: 'SUM(value1, [value2, ...])',
+        description: 'Adds numbers and ranges.',
+        minArgs: 1,
+        maxArgs: Infinity,
+        accepts: 'numberOrRange',
+        evaluate: args => collectNumbers(args).reduce((sum, n) => sum + n, 0)
+    },
+    AVERAGE: {
+        signature: 'AVERAGE(value1, [value2, ...])',
+        description: 'Arithmetic mean of numbers and ranges.',
+        minArgs: 1,
+        maxArgs: Infinity,
+        accepts: 'numberOrRange',
+        evaluate: args => {
+            const numbers = collectNumbers(args);
+            if (numbers.length === 0) {
+                throw new FormulaError('#DIV/0!', 'AVERAGE has no numbers to average');
+            }
+            return numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+        }
+    },
+    MIN: {
+        signature: 'MIN(value1, [value2, ...])',
+        description: 'Smallest number in the arguments.',
+        minArgs: 1,
+        maxArgs: Infinity,
+        accepts: 'numberOrRange',
+        evaluate: args => {
+            const numbers = collectNumbers(args);
+            return numbers.length > 0 ? Math.min(...numbers) : 0;
+        }
+    },
+    MAX: {
+        signature: 'MAX(value1, [value2, ...])',
+        description: 'Largest number in the arguments.',
+        minArgs: 1,
+        maxArgs: Infinity,
+        accepts: 'numberOrRange',
+        evaluate: args => {
+            const numbers = collectNumbers(args);
+            return numbers.length > 0 ? Math.max(...numbers) : 0;
+        }
+    },
+    COUNT: {
+        signature: 'COUNT(value1, [value2, ...])',
+        description: 'Counts how many arguments are numbers.',
+        minArgs: 1,
+        maxArgs: Infinity,
+        accepts: 'valueOrRange',
+        evaluate: args => {
+            let count = 0;
+            for (const arg of args) {
+                const value = arg();
+                const values = Array.isArray(value) ? value : [value];
+                count += values.filter(item => typeof item === 'number').length;
+            }
+            return count;
+        }
+    },
+    IF: {
+        signature: 'IF(condition, valueIfTrue, [valueIfFalse])',
+        description: 'Returns one value when the condition is true and another when it is false.',
+        minArgs: 2,
+        maxArgs: 3,
+        accepts: 'value',
+        evaluate: args => {
+            const branch = toBoolean(args[0]()) ? args[1] : args[2];
+            if (!branch) {
+                return false;
+            }
+            const value = branch();
+            if (Array.isArray(value)) {
+                throw new FormulaError('#VALUE!', 'IF cannot return a range');
+            }
+            return value;
+        }
+    },
+    ROUND: {
+        signature: 'ROUND(value, [digits])',
+        description: 'Rounds a number to the given number of decimal digits (default 0).',
+        minArgs: 1,
+        maxArgs: 2,
+        accepts: 'number',
+        evaluate: args => {
+            const value = toNumber(args[0]());
+            const digits = args[1] ? Math.trunc(toNumber(args[1]())) : 0;
+            // Shift the decimal point in the number's text, so 1.005 rounds like a spreadsheet to 1.01
+            const rounded = Math.round(shiftDecimal(Math.abs(value), digits));
+            return Math.sign(value) * shiftDecimal(rounded, -digits);
+        }
+    }
+};
+/* eslint-enable @typescript-eslint/naming-convention */
+
+/**
+ * Multiply by a power of ten through the decimal representation, avoiding
+ * the binary error of `value * 10 ** digits`.
+ */
+function shiftDecimal(value: number, digits: number): number {
+    const [mantissa, exponent = '0'] = String(value).split('e');
+    return Number(`${mantissa}e${Number(exponent) + digits}`);
+}
@@ -0,0 +1,294 @@
+// File: src/formula/parser.ts
+import { parseCellRef, toCellRef } from '../model/cellRef';
+import {
+    FormulaSyntaxError,
+    type BinaryOperator,
+    type CellNode,
+    type FormulaNode
+} from './types';
+
+type TokenKind = 'number' | 'string' | 'name' | 'operator' | '(' | ')' | ',' | ':' | 'end';
+
+interface Token {
+    kind: TokenKind;
+    text: string;
+    start: number;
+    end: number;
+}
+
+const OPERATORS = ['<>', '<=', '>=', '+', '-', '*', '/', '^', '&', '=', '<', '>', '%'];
+
+/** Binary operators from lowest to highest precedence. */
+const PRECEDENCE: BinaryOperator[][] = [
+    ['=', '<>', '<', '>', '<=', '>='],
+    ['&'],
+    ['+', '-'],
+    ['*', '/'],
+    ['^']
+];
+
+/**
+ * Parse a spreadsheet formula (without the leading `=`) into a syntax tree.
+ *
+ * Supports numbers, strings, TRUE/FALSE, A1 references (with optional `$`),
+ * ranges such as `B2:B10`, function calls and the usual arithmetic,
+ * concatenation and comparison operators.
+ *
+ * @throws FormulaSyntaxError when the formula is malformed.
+ */
+export function parseFormula(text: string): FormulaNode {
+    return new FormulaParser(text).parse();
+}
+
+/**
+ * Collect every cell and range reference in a formula, in source order.
+ */
+export function collectReferences(node: FormulaNode, references: FormulaNode[] = []): FormulaNode[] {
+    switch (node.kind) {
+        case 'cell':
+        case 'range':
+            references.push(node);
+            break;
+        case 'unary':
+            collectReferences(node.operand, references);
+            break;
+        case 'binary':
+            collectReferences(node.left, references);
+            collectReferences(node.right, references);
+            break;
+        case 'call':
+            node.args.forEach(arg => collectReferences(arg, references));
+            break;
+    }
+    return references;
+}
+
+class FormulaParser {
+    private tokens: Token[];
+    private index = 0;
+
+    constructor(private text: string) {
+        this.tokens = this.tokenize();
+    }
+
+    parse(): FormulaNode {
+        if (this.peek().kind === 'end') {
+            throw new FormulaSyntaxError('Empty formula', 0, this.text.length);
+        }
+        const node = this.parseBinary(0);
+        const token = this.peek();
+        if (token.kind !== 'end') {
+            throw new FormulaSyntaxError(`Unexpected '${token.text}'`, token.start, token.end);
+        }
+        return node;
+    }
+
+    private parseBinary(level: number): FormulaNode {
+        if (level >= PRECEDENCE.length) {
+            return this.parseUnary();
+        }
+
+        let left = this.parseBinary(level + 1);
+        for (;;) {
+            const token = this.peek();
+            const operator = token.text as BinaryOperator;
+            if (token.kind !== 'operator' || !PRECEDENCE[level].includes(operator)) {
+                return left;
+            }
+            this.index++;
+            const right = this.parseBinary(level + 1);
+            left = { kind: 'binary', operator, left, right, start: left.start, end: right.end };
+        }
+    }
+
+    private parseUnary(): FormulaNode {
+        const token = this.peek();
+        if (token.kind === 'operator' && (token.text === '-' || token.text === '+')) {
+            this.index++;
+            const operand = this.parseUnary();
+            return { kind: 'unary', operator: token.text, operand, start: token.start, end: operand.end };
+        }
+        return this.parsePostfix();
+    }
+
+    private parsePostfix(): FormulaNode {
+        let node = this.parsePrimary();
+        while (this.peek().kind === 'operator' && this.peek().text === '%') {
+            const token = this.next();
+            node = { kind: 'unary', operator: '%', operand: node, start: node.start, end: token.end };
+        }
+        return node;
+    }
+
+    private parsePrimary(): FormulaNode {
+        const token = this.next();
+
+        switch (token.kind) {
+            case 'number':
+                return { kind: 'number', value: Number(token.text), start: token.start, end: token.end };
+            case 'string':
+                return {
+                    kind: 'string',
+                    value: token.text.slice(1, -1).replace(/""/g, '"'),
+                    start: token.start,
+                    end: token.end
+                };
+            case '(': {
+                const inner = this.parseBinary(0);
+                this.expect(')', "Missing closing ')'", token);
+                return inner;
+            }
+            case 'name':
+                return this.parseName(token);
+            case 'end':
+                throw new FormulaSyntaxError('Unexpected end of formula', token.start, token.end);
+            default:
+                throw new FormulaSyntaxError(`Unexpected '${token.text}'`, token.start, token.end);
+        }
+    }
+
+    private parseName(token: Token): FormulaNode {
+        if (this.peek().kind === '(') {
+            return this.parseCall(token);
+        }
+
+        const upper = token.text.toUpperCase();
+        if (upper === 'TRUE' || upper === 'FALSE') {
+            return { kind: 'boolean', value: upper === 'TRUE', start: token.start, end: token.end };
+        }
+
+        const from = this.toCellNode(token);
+        if (this.peek().kind !== ':') {
+            return from;
+        }
+        this.index++;
+        const end = this.next();
+        if (end.kind !== 'name') {
+            throw new FormulaSyntaxError('Expected a cell reference after \':\'', end.start, end.end);
+        }
+        const to = this.toCellNode(end);
+        return { kind: 'range', from, to, start: from.start, end: to.end };
+    }
+
+    private parseCall(nameToken: Token): FormulaNode {
+        const open = this.next();
+        const args: FormulaNode[] = [];
+
+        if (this.peek().kind !== ')') {
+            for (;;) {
+                args.push(this.parseBinary(0));
+                if (this.peek().kind !== ',') {
+                    break;
+                }
+                this.index++;
+            }
+        }
+
+        const close = this.expect(')', "Missing closing ')'", open);
+        return {
+            kind: 'call',
+            name: nameToken.text.toUpperCase(),
+            nameEnd: nameToken.end,
+            args,
+            start: nameToken.start,
+            end: close.end
+        };
+    }
+
+    private toCellNode(token: Token): CellNode {
+        const cell = parseCellRef(token.text);
+        if (!cell) {
+            throw new FormulaSyntaxError(`'${token.text}' is not a cell reference`, token.start, token.end);
+        }
+        return {
+            kind: 'cell',
+            ref: toCellRef(cell.row, cell.col),
+            row: cell.row,
+            col: cell.col,
+            start: token.start,
+            end: token.end
+        };
+    }
+
+    private expect(kind: TokenKind, message: string, opening: Token): Token {
+        const token = this.peek();
+        if (token.kind !== kind) {
+            throw new FormulaSyntaxError(message, opening.start, opening.end);
+        }
+        this.index++;
+        return token;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.index];
+        if (token.kind !== 'end') {
+            this.index++;
+        }
+        return token;
+    }
+
+    private tokenize(): Token[] {
+        const tokens: Token[] = [];
+        const text = this.text;
+        let pos = 0;
+
+        while (pos < text.length) {
+            const ch = text[pos];
+            const start = pos;
+
+            if (/\s/.test(ch)) {
+                pos++;
+                continue;
+            }
+
+            const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(text.slice(pos));
+            if (number) {
+                pos += number[0].length;
+                tokens.push({ kind: 'number', text: number[0], start, end: pos });
+                continue;
+            }
+
+            const name = /^\$?[A-Za-z_][A-Za-z0-9_.]*\$?[0-9]*/.exec(text.slice(pos));
+            if (name) {
+                pos += name[0].length;
+                tokens.push({ kind: 'name', text: name[0], start, end: pos });
+                continue;
+            }
+
+            if (ch === '"') {
+                pos++;
+                while (pos < text.length && !(text[pos] === '"' && text[pos + 1] !== '"')) {
+                    pos += text[pos] === '"' ? 2 : 1;
+                }
+                if (pos >= text.length) {
+                    throw new FormulaSyntaxError('Unterminated string', start, text.length);
+                }
+                pos++;
+                tokens.push({ kind: 'string', text: text.slice(start, pos), start, end: pos });
+                continue;
+            }
+
+            if (ch === '(' || ch === ')' || ch === ',' || ch === ':') {
+                pos++;
+                tokens.push({ kind: ch as TokenKind, text: ch, start, end: pos });
+                continue;
+            }
+
+            const operator = OPERATORS.find(op => text.startsWith(op, pos));
+            if (operator) {
+                pos += operator.length;
+                tokens.push({ kind: 'operator', text: operator, start, end: pos });
+                continue;
+            }
+
+            throw new FormulaSyntaxError(`Unexpected character '${ch}'`, start, start + 1);
+        }
+
+        tokens.push({ kind: 'end', text: '', start: text.length, end: text.length });
+        return tokens;
+    }
+}
@@ -0,0 +1,129 @@
+// File: src/formula/types.ts
+
+/**
+ * A scalar cell value. `null` is an empty cell.
+ */
+export type CellValue = number | string | boolean | null;
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^' | '&' | '=' | '<>' | '<' | '>' | '<=' | '>=';
+
+export type UnaryOperator = '+' | '-' | '%';
+
+interface NodeBase {
+    /** Offset of the node in the formula text (without the leading `=`). */
+    start: number;
+    end: number;
+}
+
+export interface NumberNode extends NodeBase {
+    kind: 'number';
+    value: number;
+}
+
+export interface StringNode extends NodeBase {
+    kind: 'string';
+    value: string;
+}
+
+export interface BooleanNode extends NodeBase {
+    kind: 'boolean';
+    value: boolean;
+}
+
+export interface CellNode extends NodeBase {
+    kind: 'cell';
+    /** Normalised A1 reference, without `$` markers. */
+    ref: string;
+    row: number;
+    col: number;
+}
+
+export interface RangeNode extends NodeBase {
+    kind: 'range';
+    from: CellNode;
+    to: CellNode;
+}
+
+export interface UnaryNode extends NodeBase {
+    kind: 'unary';
+    operator: UnaryOperator;
+    operand: FormulaNode;
+}
+
+export interface BinaryNode extends NodeBase {
+    kind: 'binary';
+    operator: BinaryOperator;
+    left: FormulaNode;
+    right: FormulaNode;
+}
+
+export interface CallNode extends NodeBase {
+    kind: 'call';
+    /** Upper-cased function name. */
+    name: string;
+    nameEnd: number;
+    args: FormulaNode[];
+}
+
+export type FormulaNode =
+    | NumberNode
+    | StringNode
+    | BooleanNode
+    | CellNode
+    | RangeNode
+    | UnaryNode
+    | BinaryNode
+    | CallNode;
+
+export type FormulaErrorCode = '#ERROR!' | '#NAME?' | '#VALUE!' | '#DIV/0!' | '#CYCLE!';
+
+/**
+ * A spreadsheet error value such as `#DIV/0!`. Thrown while evaluating and
+ * stored as the cell's result; referencing an error cell propagates it.
+ */
+export class FormulaError extends Error {
+    constructor(public readonly code: FormulaErrorCode, message: string) {
+        super(message);
+        this.name = 'FormulaError';
+    }
+}
+
+/**
+ * A formula that cannot be parsed; offsets point into the formula text.
+ */
+export class FormulaSyntaxError extends FormulaError {
+    constructor(message: string, public readonly start: number, public readonly end: number) {
+        super('#ERROR!', message);
+        this.name = 'FormulaSyntaxError';
+    }
+}
+
+/**
+ * A cell to evaluate. Both the document model's `SheetCellNode` and the
+ * cells derived from a parsed `SheetBlock` fit this shape.
+ */
+export interface SheetCellInput {
+    row: number;
+    col: number;
+    value?: unknown;
+    /** Formula expression without the leading `=`. */
+    formula?: string;
+}
+
+export interface CellResult {
+    ref: string;
+    row: number;
+    col: number;
+    formula?: string;
+    value: CellValue;
+    error?: FormulaError;
+}
+
+export interface SheetEvaluation {
+    /** Results keyed by A1 reference. */
+    cells: Map<string, CellResult>;
+    /** Formula cells in the order they were evaluated (dependencies first). */
+    order: string[];
+    /** Every circular reference chain, e.g. `['A1', 'B1', 'A1']`. */
+    cycles: string[][];
+}
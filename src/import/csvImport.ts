@@ -0,0 +1,115 @@
+// File: src/import/csvImport.ts
+import { columnToLetters } from '../model/cellRef';
+import { formatBlock, formatDocument, formatMeta, formatString, formatTableRows, formatValue } from './osfSource';
+
+export type CSVImportMode = 'table' | 'sheet';
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Turn CSV into an OSF document with one `@table` (the first row is the
+ * header) or one `@sheet` (every value keeps its CSV coordinates, so the
+ * first row is row 1).
+ */
+export function importCSV(text: string, name: string, mode: CSVImportMode): string {
+    const rows = parseCSV(text);
+    const block = mode === 'table' ? formatTable(rows) : formatSheet(rows, name);
+    return formatDocument([formatMeta({ title: name }), block]);
+}
+
+/**
+ * Parse CSV as described by RFC 4180: quoted fields may hold delimiters,
+ * doubled quotes and line breaks. Unless given, the delimiter (`,`, `;`, tab
+ * or `|`) is the one found most often in the first line.
+ */
+export function parseCSV(text: string, delimiter?: string): string[][] {
+    const source = text.replace(/^﻿/, '');
+    const firstLine = source.split(/\r?\n/, 1)[0];
+    delimiter ??= DELIMITERS.reduce((best, candidate) =>
+        firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+    );
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+
+    for (let i = 0; i < source.length; i++) {
+        const ch = source[i];
+        if (quoted) {
+            if (ch === '"' && source[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"' && field === '') {
+            quoted = true;
+        } else if (ch === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && source[i + 1] === '\n') {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    // Drop blank lines, which are a single empty field
+    return rows.filter(cells => cells.length > 1 || cells[0] !== '');
+}
+
+/**
+ * A `@table` of the rows. Pipe tables have no escape for `|`, so a cell
+ * holding one throws; such data has to be imported as a sheet.
+ */
+function formatTable(rows: string[][]): string {
+    const piped = rows.flat().find(cell => cell.includes('|'));
+    if (piped !== undefined) {
+        throw new Error(`A @table cannot hold the cell ${formatString(piped.trim())}, which contains '|'; import as a sheet instead`);
+    }
+    const [header = [], ...body] = rows;
+    const width = Math.max(1, ...rows.map(row => row.length));
+    const headings = Array.from({ length: width }, (_value, i) => header[i]?.trim() || columnToLetters(i + 1));
+    return formatBlock('table', formatTableRows([headings, ...body]));
+}
+
+function formatSheet(rows: string[][], name: string): string {
+    const width = Math.max(1, ...rows.map(row => row.length));
+    const cells: string[] = [];
+    rows.forEach((row, r) => {
+        row.forEach((value, c) => {
+            if (value !== '') {
+                cells.push(`(${r + 1},${c + 1}) = ${formatValue(toCellValue(value))};`);
+            }
+        });
+    });
+
+    const cols = Array.from({ length: width }, (_value, i) => columnToLetters(i + 1));
+    return formatBlock('sheet', [
+        `name: ${formatString(name)};`,
+        `cols: [${cols.join(', ')}];`,
+        '',
+        'data {',
+        ...cells.map(cell => `  ${cell}`),
+        '}'
+    ]);
+}
+
+/** Numbers stay numbers; everything else, including `true`, is text. */
+export function toCellValue(value: string): string | number {
+    const trimmed = value.trim();
+    return /^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(trimmed) && Number.isFinite(Number(trimmed)) ? Number(trimmed) : value;
+}
@@ -0,0 +1,249 @@
+// File: src/import/htmlImport.ts
+import { DomUtils, parseDocument } from 'htmlparser2';
+import { formatTableRows } from './osfSource';
+
+type HTMLNode = ReturnType<typeof parseDocument>['children'][number];
+type HTMLElement = Extract<HTMLNode, { attribs: Record<string, string> }>;
+
+/** Elements that end the current paragraph and lay out their own content. */
+const BLOCK_TAGS = new Set([
+    'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'div', 'dl', 'dt',
+    'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr',
+    'html', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul'
+]);
+
+/** Elements whose content is never part of the pasted text; removed before conversion. */
+const SKIPPED_TAGS = new Set(['head', 'link', 'meta', 'noscript', 'script', 'style', 'template', 'title']);
+
+/**
+ * Convert an HTML fragment, as copied from a web page or word processor, to
+ * Markdown: headings, paragraphs, emphasis, links, images, lists, quotes, code
+ * and pipe tables. Anything else keeps only its text.
+ */
+export function htmlToMarkdown(html: string): string {
+    const document = parseFragment(html);
+    return renderBlocks(document.children).join('\n\n');
+}
+
+/**
+ * Plain text cells of the HTML fragment when it holds a single table and
+ * nothing else, such as a range copied from a spreadsheet.
+ */
+export function getHTMLTable(html: string): string[][] | undefined {
+    const document = parseFragment(html);
+    const tables = DomUtils.getElementsByTagName('table', document).filter(table => !findTable(table.parent));
+    if (tables.length !== 1) {
+        return undefined;
+    }
+    const outside = DomUtils.textContent(document).replace(/\s/g, '');
+    if (outside !== DomUtils.textContent(tables[0]).replace(/\s/g, '')) {
+        return undefined;
+    }
+    const rows = readTableRows(tables[0], cell => collapseWhitespace(DomUtils.textContent(cell)).trim());
+    return rows.length > 0 ? rows : undefined;
+}
+
+/**
+ * The copied part of clipboard HTML, without styles and scripts. Windows adds
+ * a `Version:` header and marks the selection with `StartFragment` and
+ * `EndFragment` comments.
+ */
+function parseFragment(html: string): ReturnType<typeof parseDocument> {
+    const match = /<!--\s*StartFragment\s*-->([\s\S]*)<!--\s*EndFragment\s*-->/i.exec(html);
+    const start = html.indexOf('<');
+    const document = parseDocument(match ? match[1] : start > 0 ? html.slice(start) : html);
+
+    DomUtils.findAll(element => SKIPPED_TAGS.has(element.name), document.children).forEach(DomUtils.removeElement);
+    return document;
+}
+
+function renderBlocks(nodes: HTMLNode[]): string[] {
+    const blocks: string[] = [];
+    let inline = '';
+    const flush = () => {
+        const lines = inline
+            .split('\n')
+            .map(line => escapeLineStart(line.replace(/ {2,}/g, ' ').trim()))
+            .filter(line => line);
+        if (lines.length > 0) {
+            blocks.push(lines.join('\\\n'));
+        }
+        inline = '';
+    };
+
+    for (const node of nodes) {
+        if (!DomUtils.isTag(node)) {
+            inline += DomUtils.isText(node) ? escapeMarkdown(collapseWhitespace(node.data)) : '';
+            continue;
+        }
+        if (!BLOCK_TAGS.has(node.name) && !hasBlockContent(node)) {
+            inline += renderInline([node]);
+            continue;
+        }
+
+        flush();
+        const block = renderBlock(node);
+        if (block) {
+            blocks.push(block);
+        }
+    }
+    flush();
+
+    return blocks;
+}
+
+function renderBlock(element: HTMLElement): string {
+    const name = element.name;
+    if (/^h[1-6]$/.test(name)) {
+        const text = renderInline(element.children).replace(/\s+/g, ' ').trim();
+        return text ? `${'#'.repeat(Number(name[1]))} ${text}` : '';
+    }
+    switch (name) {
+        case 'hr':
+            return '---';
+        case 'ul':
+        case 'ol':
+            return renderList(element, name === 'ol');
+        case 'pre':
+            return renderCode(element);
+        case 'table': {
+            const rows = readTableRows(element, cell =>
+                renderInline(cell.children).replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|')
+            );
+            return rows.length > 0 ? formatTableRows(rows).join('\n') : '';
+        }
+        case 'blockquote':
+            return renderBlocks(element.children)
+                .join('\n\n')
+                .split('\n')
+                .map(line => (line ? `> ${line}` : '>'))
+                .join('\n');
+        default:
+            return renderBlocks(element.children).join('\n\n');
+    }
+}
+
+function renderList(list: HTMLElement, ordered: boolean): string {
+    let number = Number(list.attribs.start) || 1;
+    const items = list.children.filter((node): node is HTMLElement => DomUtils.isTag(node) && node.name === 'li');
+
+    return items
+        .map(item => {
+            const marker = ordered ? `${number++}.` : '-';
+            const [first = '', ...rest] = renderBlocks(item.children).join('\n').split('\n');
+            const indent = ' '.repeat(marker.length + 1);
+            return [`${marker} ${first}`, ...rest.map(line => (line ? indent + line : ''))].join('\n');
+        })
+        .join('\n');
+}
+
+function renderCode(pre: HTMLElement): string {
+    const code = DomUtils.textContent(pre).replace(/\n$/, '');
+    const classes = [pre, ...DomUtils.getElementsByTagName('code', pre)].map(element => element.attribs.class ?? '');
+    const language = classes.map(value => /(?:^|\s)(?:language|lang)-([\w+#-]+)/.exec(value)?.[1]).find(Boolean) ?? '';
+
+    // The fence must be longer than any backtick run in the code
+    const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longest + 1));
+    return `${fence}${language}\n${code}\n${fence}`;
+}
+
+function renderInline(nodes: HTMLNode[]): string {
+    return nodes.map(node => {
+        if (!DomUtils.isTag(node)) {
+            return DomUtils.isText(node) ? escapeMarkdown(collapseWhitespace(node.data)) : '';
+        }
+        const style = node.attribs.style ?? '';
+        switch (node.name) {
+            case 'br':
+                return '\n';
+            case 'strong':
+                return wrap(renderInline(node.children), '**');
+            case 'b':
+                // Google Docs wraps the whole selection in <b style="font-weight:normal">
+                return /font-weight\s*:\s*(normal|[1-5]00)/.test(style)
+                    ? renderInline(node.children)
+                    : wrap(renderInline(node.children), '**');
+            case 'em':
+            case 'i':
+                return wrap(renderInline(node.children), '*');
+            case 's':
+            case 'del':
+            case 'strike':
+                return wrap(renderInline(node.children), '~~');
+            case 'code': {
+                const code = collapseWhitespace(DomUtils.textContent(node));
+                const ticks = /`/.test(code) ? '``' : '`';
+                return code.trim() ? `${ticks}${code}${ticks}` : code;
+            }
+            case 'a': {
+                const text = renderInline(node.children);
+                const href = node.attribs.href;
+                return href && text.trim() && !href.startsWith('#') ? `[${text.trim()}](${href})` : text;
+            }
+            case 'img':
+                return node.attribs.src ? `![${escapeMarkdown(node.attribs.alt ?? '')}](${node.attribs.src})` : '';
+            default: {
+                // Word processors style spans rather than using <strong> and <em>
+                let text = renderInline(node.children);
+                if (/font-weight\s*:\s*(bold|[6-9]00)/.test(style)) {
+                    text = wrap(text, '**');
+                }
+                if (/font-style\s*:\s*italic/.test(style)) {
+                    text = wrap(text, '*');
+                }
+                return text;
+            }
+        }
+    }).join('');
+}
+
+/** Wrap text in emphasis markers, keeping surrounding spaces outside them. */
+function wrap(text: string, marker: string): string {
+    const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(text);
+    return match && match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+}
+
+function readTableRows(table: HTMLElement, readCell: (cell: HTMLElement) => string): string[][] {
+    return DomUtils.getElementsByTagName('tr', table)
+        .filter(row => findTable(row.parent) === table)
+        .map(row => {
+            const cells: string[] = [];
+            for (const cell of row.children) {
+                if (DomUtils.isTag(cell) && (cell.name === 'td' || cell.name === 'th')) {
+                    cells.push(readCell(cell));
+                    const span = Math.min(Number(cell.attribs.colspan) || 1, 100);
+                    cells.push(...Array<string>(span - 1).fill(''));
+                }
+            }
+            return cells;
+        })
+        .filter(cells => cells.length > 0);
+}
+
+function findTable(node: HTMLNode['parent']): HTMLElement | undefined {
+    for (let current = node; current; current = current.parent) {
+        if (DomUtils.isTag(current) && current.name === 'table') {
+            return current;
+        }
+    }
+    return undefined;
+}
+
+function hasBlockContent(element: HTMLElement): boolean {
+    return DomUtils.findOne(node => BLOCK_TAGS.has(node.name), element.children, true) !== null;
+}
+
+function collapseWhitespace(text: string): string {
+    return text.replace(/[ \t\r\n\f]+/g, ' ');
+}
+
+/** Escape characters that would otherwise start Markdown syntax. */
+function escapeMarkdown(text: string): string {
+    return text.replace(/([\\`*_[\]])/g, '\\$1');
+}
+
+/** Escape text at the start of a paragraph line that would read as a heading, quote or list. */
+function escapeLineStart(line: string): string {
+    return line.replace(/^([#>+-])(?=\s)/, '\\$1').replace(/^(\d+)\.(?=\s)/, '$1\\.');
+}
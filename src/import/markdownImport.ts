@@ -0,0 +1,190 @@
+// File: src/import/markdownImport.ts
+import { formatBlock, formatDocument, formatMeta, formatString } from './osfSource';
+
+export type MarkdownImportMode = 'doc' | 'slides';
+
+/** Front matter keys that become `@meta` properties. */
+const META_KEYS = ['title', 'author', 'date', 'theme'];
+
+/**
+ * Turn Markdown into an OSF document: YAML front matter (or the first `#`
+ * heading) becomes `@meta`, and the rest one `@doc` block or one `@slide` per
+ * section, split at `---` rules and `##` headings.
+ */
+export function importMarkdown(text: string, mode: MarkdownImportMode): string {
+    let lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const meta: Record<string, string> = {};
+
+    const frontMatter = readFrontMatter(lines);
+    if (frontMatter) {
+        Object.assign(meta, frontMatter.properties);
+        lines = lines.slice(frontMatter.length);
+    }
+
+    if (!meta.title) {
+        const fenced = getFencedLines(lines);
+        const index = lines.findIndex((line, i) => /^#\s+\S/.test(line) && !fenced[i]);
+        if (index !== -1) {
+            meta.title = lines[index].replace(/^#\s+/, '').replace(/\s+#*\s*$/, '');
+            lines.splice(index, 1);
+        }
+    }
+
+    const blocks = Object.keys(meta).length > 0 ? [formatMeta(meta)] : [];
+    if (mode === 'doc') {
+        const body = trimBlankLines(lines);
+        if (body.length > 0) {
+            blocks.push(formatBlock('doc', escapeUnbalancedBraces(body)));
+        }
+    } else {
+        blocks.push(...splitSlides(lines).map(formatSlide));
+    }
+    return formatDocument(blocks);
+}
+
+function readFrontMatter(lines: string[]): { properties: Record<string, string>; length: number } | undefined {
+    if (lines[0]?.trim() !== '---') {
+        return undefined;
+    }
+    const end = lines.findIndex((line, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(line));
+    if (end === -1) {
+        return undefined;
+    }
+
+    const properties: Record<string, string> = {};
+    for (const line of lines.slice(1, end)) {
+        const match = /^(\w+)\s*:\s*(.*)$/.exec(line);
+        if (match && META_KEYS.includes(match[1]) && match[2].trim()) {
+            properties[match[1]] = match[2].trim().replace(/^(["'])(.*)\1$/, '$2');
+        }
+    }
+    return { properties, length: end + 1 };
+}
+
+/**
+ * Sections of a slide deck. A `---` rule ends a slide, and a `##` heading
+ * starts one; text before the first split becomes a slide of its own.
+ */
+function splitSlides(lines: string[]): string[][] {
+    const slides: string[][] = [];
+    let current: string[] = [];
+    const fenced = getFencedLines(lines);
+
+    const flush = () => {
+        const slide = trimBlankLines(current);
+        if (slide.length > 0) {
+            slides.push(slide);
+        }
+        current = [];
+    };
+
+    lines.forEach((line, i) => {
+        if (fenced[i]) {
+            current.push(line);
+        } else if (/^\s*(-{3,}|\*{3,}|_{3,})\s*$/.test(line)) {
+            flush();
+        } else if (/^##\s+\S/.test(line)) {
+            flush();
+            current.push(line);
+        } else {
+            current.push(line);
+        }
+    });
+    flush();
+
+    return slides;
+}
+
+/**
+ * A slide block; its first heading is the title and a slide without text
+ * below it only shows the title.
+ */
+function formatSlide(lines: string[]): string {
+    const fenced = getFencedLines(lines);
+    const headingIndex = lines.findIndex((line, i) => /^#{1,6}\s+\S/.test(line) && !fenced[i]);
+    const title = headingIndex === -1 ? '' : lines[headingIndex].replace(/^#{1,6}\s+/, '').replace(/\s+#*\s*$/, '');
+    const content = trimBlankLines(headingIndex === -1 ? lines : lines.filter((_line, i) => i !== headingIndex));
+
+    const properties = [`title: ${formatString(title || 'Untitled Slide')};`];
+    properties.push(`layout: ${content.length > 0 ? 'TitleAndContent' : 'TitleOnly'};`);
+    return formatBlock('slide', content.length > 0 ? [...properties, '', ...escapeUnbalancedBraces(content)] : properties);
+}
+
+/**
+ * The block body with braces that have no partner written as HTML entities,
+ * which Markdown renders as the braces. OSF has no escape for them, and the
+ * parser ends a block at the first `}` that balances its `{`. Entities would
+ * show as written in code, so unbalanced braces there are left as they are.
+ */
+function escapeUnbalancedBraces(lines: string[]): string[] {
+    const fenced = getFencedLines(lines);
+    const open: { line: number; character: number }[] = [];
+    const unbalanced: { line: number; character: number }[] = [];
+    lines.forEach((line, i) => {
+        for (let character = 0; character < line.length; character++) {
+            if (line[character] === '{') {
+                open.push({ line: i, character });
+            } else if (line[character] === '}' && !open.pop()) {
+                unbalanced.push({ line: i, character });
+            }
+        }
+    });
+    unbalanced.push(...open);
+
+    const escaped = [...lines];
+    // From the end, so earlier positions on a line stay valid
+    unbalanced.sort((a, b) => b.line - a.line || b.character - a.character);
+    for (const { line, character } of unbalanced) {
+        const text = escaped[line];
+        if (fenced[line] || /^( {4}|\t)/.test(text) || isInCodeSpan(text, character)) {
+            continue;
+        }
+        const entity = text[character] === '{' ? '&#123;' : '&#125;';
+        escaped[line] = text.slice(0, character) + entity + text.slice(character + 1);
+    }
+    return escaped;
+}
+
+/** Whether the character at `position` is inside a `` `code` `` span. */
+function isInCodeSpan(line: string, position: number): boolean {
+    let opening: RegExpMatchArray | undefined;
+    for (const match of line.matchAll(/`+/g)) {
+        if (!opening) {
+            opening = match;
+        } else if (match[0] === opening[0]) {
+            if (position > opening.index! && position < match.index!) {
+                return true;
+            }
+            opening = undefined;
+        }
+    }
+    return false;
+}
+
+/** For each line, whether it is inside, or is a fence of, a fenced code block. */
+function getFencedLines(lines: string[]): boolean[] {
+    let fence: string | undefined;
+    return lines.map(line => {
+        const marker = /^\s*(`{3,}|~{3,})/.exec(line)?.[1];
+        if (fence === undefined) {
+            fence = marker;
+            return marker !== undefined;
+        }
+        if (marker && marker[0] === fence[0] && marker.length >= fence.length) {
+            fence = undefined;
+        }
+        return true;
+    });
+}
+
+function trimBlankLines(lines: string[]): string[] {
+    let start = 0;
+    let end = lines.length;
+    while (start < end && !lines[start].trim()) {
+        start++;
+    }
+    while (end > start && !lines[end - 1].trim()) {
+        end--;
+    }
+    return lines.slice(start, end);
+}
@@ -0,0 +1,63 @@
+// File: src/import/osfSource.ts
+
+/** Indentation of block bodies in generated documents. */
+const INDENT = '  ';
+
+/**
+ * An OSF string literal, with quotes, backslashes and control characters escaped.
+ */
+export function formatString(text: string): string {
+    const escaped = text
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, '\\n')
+        .replace(/\r/g, '\\r')
+        .replace(/\t/g, '\\t');
+    return `"${escaped}"`;
+}
+
+/**
+ * A cell value as OSF source: numbers and booleans stay bare, everything else
+ * becomes a string.
+ */
+export function formatValue(value: string | number | boolean): string {
+    return typeof value === 'string' ? formatString(value) : String(value);
+}
+
+/**
+ * A block with its body lines indented; blank lines stay empty.
+ */
+export function formatBlock(type: string, lines: string[]): string {
+    const body = lines.map(line => (line.trim() ? INDENT + line : ''));
+    return [`@${type} {`, ...body, '}'].join('\n');
+}
+
+/**
+ * Pipe table rows with every column padded to the same width. With `header`,
+ * the first row is followed by the `---` separator row.
+ */
+export function formatTableRows(rows: string[][], header = true): string[] {
+    const width = Math.max(1, ...rows.map(row => row.length));
+    const cells = rows.map(row =>
+        Array.from({ length: width }, (_value, i) => (row[i] ?? '').replace(/\s*\r?\n\s*/g, ' ').trim())
+    );
+    const widths = Array.from({ length: width }, (_value, i) => Math.max(3, ...cells.map(row => row[i].length)));
+    const line = (row: string[]) => `| ${row.map((cell, i) => cell.padEnd(widths[i])).join(' | ')} |`;
+
+    if (!header) {
+        return cells.map(line);
+    }
+    const [first = [], ...body] = cells.length > 0 ? cells : [Array<string>(width).fill('')];
+    return [line(first), `| ${widths.map(w => '-'.repeat(w)).join(' | ')} |`, ...body.map(line)];
+}
+
+export function formatMeta(properties: Record<string, string>): string {
+    return formatBlock('meta', Object.entries(properties).map(([key, value]) => `${key}: ${formatString(value)};`));
+}
+
+/**
+ * A generated document: blocks separated by blank lines.
+ */
+export function formatDocument(blocks: string[]): string {
+    return blocks.join('\n\n') + '\n';
+}
@@ -0,0 +1,238 @@
+// File: src/import/pasteEditProvider.ts
+import * as vscode from 'vscode';
+import { getBlockAt, parseDocumentModel, rangeContains } from '../model/documentModel';
+import type { BlockNode, DocumentModel, Range } from '../model/types';
+import { parseCSV, toCellValue } from './csvImport';
+import { getHTMLTable, htmlToMarkdown } from './htmlImport';
+import { formatBlock, formatTableRows, formatValue } from './osfSource';
+
+const PASTE_KIND = vscode.DocumentDropOrPasteEditKind.Text.append('osf');
+const TABLE_KIND = PASTE_KIND.append('table');
+const SHEET_KIND = PASTE_KIND.append('sheet');
+const MARKDOWN_KIND = PASTE_KIND.append('markdown');
+
+export const PASTE_EDIT_KINDS = [TABLE_KIND, SHEET_KIND, MARKDOWN_KIND];
+export const PASTE_MIME_TYPES = ['text/plain', 'text/html'];
+
+/** Indentation of each nesting level in inserted blocks. */
+const INDENT = '  ';
+
+/**
+ * Converts pasted tables and HTML to OSF. Tab-separated text (as copied from
+ * a spreadsheet) and HTML tables become an aligned `@table` block (a `@sheet`
+ * when a cell holds `|`), rows of the `@table` or cells in the `data { }` of
+ * the `@sheet` the cursor is in, or a pipe table in `@doc` and `@slide` text;
+ * other HTML becomes Markdown in a `@doc` block.
+ * Plain text pasting stays one pick away in the paste widget.
+ */
+export class OSFPasteEditProvider implements vscode.DocumentPasteEditProvider {
+    async provideDocumentPasteEdits(
+        document: vscode.TextDocument,
+        ranges: readonly vscode.Range[],
+        dataTransfer: vscode.DataTransfer,
+        _context: vscode.DocumentPasteEditContext,
+        token: vscode.CancellationToken
+    ): Promise<vscode.DocumentPasteEdit[] | undefined> {
+        // One cursor per line of a multi-cursor copy is left to the default paste
+        if (ranges.length !== 1) {
+            return undefined;
+        }
+        const text = await dataTransfer.get('text/plain')?.asString();
+        // Text copied from an editor comes with highlighted HTML; that is code, not a page
+        const html = dataTransfer.get('vscode-editor-data') ? undefined : await dataTransfer.get('text/html')?.asString();
+        if (token.isCancellationRequested || (!text && !html)) {
+            return undefined;
+        }
+
+        const position = ranges[0].start;
+        const model = parseDocumentModel(document.getText());
+        const block = getBlockAt(model, position);
+        if (block && !rangeContains(block.contentRange, position)) {
+            return undefined;
+        }
+
+        const target = new InsertTarget(model, position, block);
+        const rows = getTabularRows(text) ?? (html ? getHTMLTable(html) : undefined);
+        if (rows) {
+            return this.provideTableEdit(rows, target, block, document);
+        }
+        if (html && (!block || block.type === 'doc' || block.type === 'slide')) {
+            const markdown = htmlToMarkdown(html);
+            if (markdown && markdown !== text?.trim()) {
+                const lines = markdown.split('\n');
+                const insertText = target.format(block ? lines : blockLines('doc', lines));
+                return [new vscode.DocumentPasteEdit(insertText, 'Insert as Markdown', MARKDOWN_KIND)];
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * OSF pipe tables have no escape for `|`, so rows with a `|` in a cell
+     * become a `@sheet` outside any block and are not added to a `@table`.
+     */
+    private provideTableEdit(
+        rows: string[][],
+        target: InsertTarget,
+        block: BlockNode | undefined,
+        document: vscode.TextDocument
+    ): vscode.DocumentPasteEdit[] | undefined {
+        const piped = rows.some(row => row.some(cell => cell.includes('|')));
+        switch (block?.type) {
+            case undefined:
+                if (piped) {
+                    return [new vscode.DocumentPasteEdit(
+                        target.format(blockLines('sheet', dataSectionLines(formatCells(rows, 1)))),
+                        'Insert as OSF sheet',
+                        SHEET_KIND
+                    )];
+                }
+                return [new vscode.DocumentPasteEdit(
+                    target.format(blockLines('table', formatTableRows(rows))),
+                    'Insert as OSF table',
+                    TABLE_KIND
+                )];
+            case 'table': {
+                if (piped) {
+                    return undefined;
+                }
+                const hasHeader = block.rows.some(row => row.kind === 'header');
+                return [new vscode.DocumentPasteEdit(
+                    target.format(formatTableRows(rows, !hasHeader)),
+                    'Insert as table rows',
+                    TABLE_KIND
+                )];
+            }
+            case 'doc':
+            case 'slide': {
+                const cells = rows.map(row => row.map(cell => cell.replace(/\|/g, '\\|')));
+                return [new vscode.DocumentPasteEdit(
+                    target.format(formatTableRows(cells)),
+                    'Insert as Markdown table',
+                    TABLE_KIND
+                )];
+            }
+            case 'sheet': {
+                const firstRow = Math.max(0, ...block.cells.map(cell => cell.row)) + 1;
+                const cells = formatCells(rows, firstRow);
+                if (target.inSheetData || block.dataSections.length === 0) {
+                    return [new vscode.DocumentPasteEdit(
+                        target.format(target.inSheetData ? cells : dataSectionLines(cells)),
+                        'Insert as sheet cells',
+                        SHEET_KIND
+                    )];
+                }
+                // The parser only reads the first `data { }`, so the cells go there
+                const edit = new vscode.DocumentPasteEdit('', 'Insert as sheet cells', SHEET_KIND);
+                edit.additionalEdit = new vscode.WorkspaceEdit();
+                const insert = appendToDataSection(document, block.dataSections[0], cells);
+                edit.additionalEdit.insert(document.uri, insert.position, insert.text);
+                return [edit];
+            }
+            default:
+                return undefined;
+        }
+    }
+}
+
+/**
+ * Where pasted lines go. The first line goes at the cursor and the others get
+ * the indentation of the cursor line, or, on a line with nothing before the
+ * cursor, the indentation of the enclosing block.
+ */
+class InsertTarget {
+    private readonly indent: string;
+    private readonly firstIndent: string;
+    /** True inside the `data { }` of a `@sheet`. */
+    readonly inSheetData: boolean;
+
+    constructor(model: DocumentModel, position: vscode.Position, block: BlockNode | undefined) {
+        const line = model.index.lineText(position.line);
+        const before = line.slice(0, position.character);
+
+        const contentStart = block ? model.index.offsetAt(block.contentRange.start) : 0;
+        const preceding = block ? model.text.slice(contentStart, model.index.offsetAt(position)) : '';
+        this.inSheetData = block?.type === 'sheet' && /\bdata\s*\{[^}]*$/.test(preceding);
+
+        if (before.trim()) {
+            this.indent = /^\s*/.exec(line)![0];
+            this.firstIndent = '';
+        } else if (before) {
+            this.indent = before;
+            this.firstIndent = '';
+        } else {
+            const blockIndent = block ? /^\s*/.exec(model.index.lineText(block.range.start.line))![0] : '';
+            this.indent = block ? blockIndent + INDENT + (this.inSheetData ? INDENT : '') : '';
+            this.firstIndent = this.indent;
+        }
+    }
+
+    format(lines: string[]): string {
+        return lines.map((line, i) => (line ? (i === 0 ? this.firstIndent : this.indent) + line : '')).join('\n');
+    }
+}
+
+/**
+ * Rows of tab-separated text, such as a range copied from a spreadsheet.
+ * Every row must have the same number of cells and no column may be empty,
+ * which rules out tab-indented code.
+ */
+function getTabularRows(text: string | undefined): string[][] | undefined {
+    if (!text || !text.includes('\t')) {
+        return undefined;
+    }
+    const rows = parseCSV(text, '\t');
+    const width = rows[0]?.length ?? 0;
+    if (width < 2 || rows.some(row => row.length !== width)) {
+        return undefined;
+    }
+    for (let col = 0; col < width; col++) {
+        if (rows.every(row => !row[col].trim())) {
+            return undefined;
+        }
+    }
+    return rows;
+}
+
+/**
+ * Cell assignments for pasted rows, starting at `firstRow`. In a sheet that
+ * is the row below its last one, so no existing cell is overwritten.
+ */
+function formatCells(rows: string[][], firstRow: number): string[] {
+    const cells: string[] = [];
+    rows.forEach((row, r) => {
+        row.forEach((value, c) => {
+            if (value.trim()) {
+                cells.push(`(${firstRow + r},${c + 1}) = ${formatValue(toCellValue(value))};`);
+            }
+        });
+    });
+    return cells;
+}
+
+function dataSectionLines(cells: string[]): string[] {
+    return ['data {', ...cells.map(cell => INDENT + cell), '}'];
+}
+
+/**
+ * Where and what to insert to add cell lines at the end of a `data { }`
+ * section, indented one level deeper than its `data` line.
+ */
+function appendToDataSection(
+    document: vscode.TextDocument,
+    section: Range,
+    cells: string[]
+): { position: vscode.Position; text: string } {
+    const indent = /^\s*/.exec(document.lineAt(section.start.line).text)![0];
+    const lines = cells.map(cell => indent + INDENT + cell).join('\n');
+    const close = new vscode.Position(section.end.line, section.end.character - 1);
+    // A closing brace on a line of its own keeps it; otherwise it moves to a new line
+    return document.lineAt(close.line).text.slice(0, close.character).trim()
+        ? { position: close, text: `\n${lines}\n${indent}` }
+        : { position: new vscode.Position(close.line, 0), text: `${lines}\n` };
+}
+
+/** A block split into lines, so that it can be indented at the cursor. */
+function blockLines(type: string, lines: string[]): string[] {
+    return formatBlock(type, lines).split('\n');
+}
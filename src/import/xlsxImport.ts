@@ -0,0 +1,67 @@
+// File: src/import/xlsxImport.ts
+import type { Cell, Worksheet } from 'exceljs';
+import { columnToLetters } from '../model/cellRef';
+import { formatBlock, formatDocument, formatMeta, formatString, formatValue } from './osfSource';
+
+/**
+ * Turn an XLSX workbook into an OSF document with one `@sheet` per worksheet.
+ * Values keep their cell coordinates, and formulas (including shared ones)
+ * become `formula` lines; dates become ISO text.
+ */
+export async function importXLSX(data: Uint8Array, name: string): Promise<string> {
+    const exceljs = await import('exceljs');
+    const workbook = new exceljs.Workbook();
+    await workbook.xlsx.load(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer);
+
+    const sheets = workbook.worksheets.map(formatWorksheet);
+    return formatDocument([formatMeta({ title: workbook.title || name }), ...sheets]);
+}
+
+function formatWorksheet(worksheet: Worksheet): string {
+    const values: string[] = [];
+    const formulas: string[] = [];
+    let width = 1;
+
+    worksheet.eachRow({ includeEmpty: false }, row => {
+        row.eachCell({ includeEmpty: false }, cell => {
+            const coordinates = `(${cell.row},${cell.col})`;
+            width = Math.max(width, Number(cell.col));
+            if (cell.formula) {
+                formulas.push(`formula ${coordinates}: ${formatString(`=${cell.formula}`)};`);
+                return;
+            }
+            const value = getCellValue(cell);
+            if (value !== undefined) {
+                values.push(`${coordinates} = ${formatValue(value)};`);
+            }
+        });
+    });
+
+    const cols = Array.from({ length: width }, (_value, i) => columnToLetters(i + 1));
+    const lines = [`name: ${formatString(worksheet.name)};`, `cols: [${cols.join(', ')}];`];
+    if (values.length > 0) {
+        lines.push('', 'data {', ...values.map(value => `  ${value}`), '}');
+    }
+    if (formulas.length > 0) {
+        lines.push('', ...formulas);
+    }
+    return formatBlock('sheet', lines);
+}
+
+function getCellValue(cell: Cell): string | number | boolean | undefined {
+    const value = cell.value;
+    if (value === null || value === undefined) {
+        return undefined;
+    }
+    if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') {
+        return value;
+    }
+    if (value instanceof Date) {
+        return value.toISOString().replace(/T00:00:00\.000Z$/, '');
+    }
+    if ('error' in value) {
+        return value.error;
+    }
+    // Rich text and hyperlinks
+    return cell.text;
+}
@@ -0,0 +1,40 @@
+// File: src/model/cellRef.ts
+
+/**
+ * Convert a one-based column index to spreadsheet letters (1 → A, 27 → AA).
+ */
+export function columnToLetters(col: number): string {
+    let letters = '';
+    while (col > 0) {
+        const remainder = (col - 1) % 26;
+        letters = String.fromCharCode(65 + remainder) + letters;
+        col = Math.floor((col - 1) / 26);
+    }
+    return letters;
+}
+
+/**
+ * Convert spreadsheet column letters to a one-based column index (A → 1, AA → 27).
+ */
+export function lettersToColumn(letters: string): number {
+    let col = 0;
+    for (const ch of letters.toUpperCase()) {
+        col = col * 26 + (ch.charCodeAt(0) - 64);
+    }
+    return col;
+}
+
+/**
+ * Parse an A1-style reference. Returns null when the text is not a cell reference.
+ */
+export function parseCellRef(ref: string): { row: number; col: number } | null {
+    const match = /^\$?([A-Za-z]{1,3})\$?([1-9][0-9]*)$/.exec(ref);
+    if (!match) {
+        return null;
+    }
+    return { row: parseInt(match[2], 10), col: lettersToColumn(match[1]) };
+}
+
+export function toCellRef(row: number, col: number): string {
+    return `${columnToLetters(col)}${row}`;
+}
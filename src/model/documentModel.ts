@@ -0,0 +1,447 @@
+// File: src/model/documentModel.ts
+import { parse, type OSFDocument } from 'omniscript-parser';
+import { LineIndex } from './lineIndex';
+import { DeclarationReader } from './reader';
+import type {
+    BlockNode,
+    DocumentModel,
+    HeadingNode,
+    ModelError,
+    Position,
+    PropertyNode,
+    Range,
+    TableCellNode,
+    TableRowNode
+} from './types';
+
+export const KNOWN_BLOCK_TYPES = ['meta', 'doc', 'slide', 'sheet', 'table', 'chart', 'diagram', 'code', 'include'];
+
+/** Blocks whose body is free text, where quotes and `//` carry no meaning. */
+const TEXT_BLOCK_TYPES = ['doc', 'slide'];
+
+/** The properties a `@slide` takes; any other `key: text;` line is Markdown. */
+const SLIDE_PROPERTY_KEYS = ['title', 'layout'];
+
+const slidePropertyPattern = new RegExp(`^\\s*(${SLIDE_PROPERTY_KEYS.join('|')})\\s*:.+;`);
+
+const blockStartPattern = new RegExp(`^[ \\t]*@(${KNOWN_BLOCK_TYPES.join('|')})\\s*\\{`);
+
+interface RawBlock {
+    type: string;
+    start: number;
+    keywordEnd: number;
+    contentStart: number;
+    contentEnd: number;
+    end: number;
+    closed: boolean;
+}
+
+/**
+ * Build a source-position-aware model of an OSF document.
+ *
+ * Every block, property, sheet cell and table row carries its exact range.
+ * Malformed blocks are reported and skipped so that all errors in the
+ * document are collected in a single pass.
+ */
+export function parseDocumentModel(text: string): DocumentModel {
+    const index = new LineIndex(text);
+    const errors: ModelError[] = [];
+    const blocks = scanBlocks(text, index, errors).map(raw => buildBlock(text, raw, index, errors));
+
+    errors.sort((a, b) => comparePositions(a.range.start, b.range.start));
+    return { text, index, blocks, errors };
+}
+
+/**
+ * Block containing the given position, if any.
+ */
+export function getBlockAt(model: DocumentModel, position: Position): BlockNode | undefined {
+    return model.blocks.find(block => rangeContains(block.range, position));
+}
+
+export function getProperty(block: BlockNode, key: string): PropertyNode | undefined {
+    return block.properties.find(property => property.key === key);
+}
+
+/**
+ * Model block of each parsed block, indexed like `document.blocks`.
+ *
+ * The parser drops `@include` blocks and keeps the others in source order, so
+ * they line up with the model's non-include blocks. When the two disagree on
+ * the number of blocks (they recovered differently from a syntax error) every
+ * entry is undefined rather than a wrong block.
+ */
+export function getParsedBlockNodes(document: OSFDocument, model: DocumentModel): (BlockNode | undefined)[] {
+    const blocks = model.blocks.filter(block => block.type !== 'include');
+    return blocks.length === document.blocks.length ? blocks : document.blocks.map(() => undefined);
+}
+
+/**
+ * Human-readable name of a block: its title, name, caption or include path.
+ */
+export function getBlockLabel(block: BlockNode): string | undefined {
+    const keys: { [key: string]: string[] } = {
+        meta: ['title'],
+        slide: ['title'],
+        sheet: ['name'],
+        chart: ['title'],
+        diagram: ['title'],
+        code: ['caption', 'language'],
+        table: ['caption'],
+        include: ['path']
+    };
+
+    for (const key of keys[block.type] ?? []) {
+        const property = getProperty(block, key);
+        if (property && typeof property.value === 'string' && property.value.trim()) {
+            return property.value.trim();
+        }
+    }
+    return undefined;
+}
+
+export function rangeContains(range: Range, position: Position): boolean {
+    return comparePositions(range.start, position) <= 0 && comparePositions(position, range.end) <= 0;
+}
+
+export function comparePositions(a: Position, b: Position): number {
+    return a.line !== b.line ? a.line - b.line : a.character - b.character;
+}
+
+function scanBlocks(text: string, index: LineIndex, errors: ModelError[]): RawBlock[] {
+    const blocks: RawBlock[] = [];
+    const report = (message: string, start: number, end: number, severity: 'error' | 'warning' = 'error') => {
+        errors.push({ message, range: index.rangeOf(start, end), severity });
+    };
+
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+
+        if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r') {
+            i++;
+            continue;
+        }
+        if (text.startsWith('//', i)) {
+            i = lineEndOffset(text, i);
+            continue;
+        }
+        if (text.startsWith('/*', i)) {
+            const close = text.indexOf('*/', i + 2);
+            if (close === -1) {
+                report('Unterminated block comment', i, i + 2);
+                break;
+            }
+            i = close + 2;
+            continue;
+        }
+
+        if (ch === '@') {
+            const match = /^@(\w+)(\s*)\{/.exec(text.slice(i));
+            if (match) {
+                const block = scanBlockBody(text, i, match[1], i + match[0].length);
+                if (!block.closed) {
+                    report(`Missing closing } for block @${block.type}`, i, block.keywordEnd);
+                }
+                blocks.push(block);
+                i = block.end;
+                continue;
+            }
+            const word = /^@\w*/.exec(text.slice(i))![0];
+            report(`Expected '{' after ${word}`, i, i + word.length);
+            i = lineEndOffset(text, i);
+            continue;
+        }
+
+        if (ch === '}') {
+            report('Unmatched closing brace', i, i + 1);
+            i++;
+            continue;
+        }
+
+        const lineEnd = lineEndOffset(text, i);
+        const nextBlock = text.indexOf('@', i);
+        const end = nextBlock !== -1 && nextBlock < lineEnd ? nextBlock : lineEnd;
+        report('Text outside of a block is ignored', i, end, 'warning');
+        i = end;
+    }
+
+    return blocks;
+}
+
+/**
+ * Find the closing brace of a block. If a line inside the block starts a new
+ * top-level block before the brace is found, the block is treated as unclosed
+ * and scanning resumes at that line.
+ */
+function scanBlockBody(text: string, start: number, type: string, contentStart: number): RawBlock {
+    const keywordEnd = start + type.length + 1;
+    const textual = TEXT_BLOCK_TYPES.includes(type);
+    let depth = 1;
+    let inString = false;
+    let i = contentStart;
+
+    while (i < text.length) {
+        const ch = text[i];
+
+        if (ch === '\n') {
+            const nextLine = text.slice(i + 1, i + 1 + 200);
+            if (blockStartPattern.test(nextLine)) {
+                const lineEnd = text[i - 1] === '\r' ? i - 1 : i;
+                return { type, start, keywordEnd, contentStart, contentEnd: lineEnd, end: lineEnd, closed: false };
+            }
+            i++;
+            continue;
+        }
+
+        if (!textual) {
+            if (inString) {
+                if (ch === '\\') {
+                    i++;
+                } else if (ch === '"') {
+                    inString = false;
+                }
+                i++;
+                continue;
+            }
+            if (ch === '"') {
+                inString = true;
+                i++;
+                continue;
+            }
+            if (text.startsWith('//', i)) {
+                i = lineEndOffset(text, i);
+                continue;
+            }
+        }
+
+        if (ch === '{') {
+            depth++;
+        } else if (ch === '}') {
+            depth--;
+            if (depth === 0) {
+                return { type, start, keywordEnd, contentStart, contentEnd: i, end: i + 1, closed: true };
+            }
+        }
+        i++;
+    }
+
+    return { type, start, keywordEnd, contentStart, contentEnd: text.length, end: text.length, closed: false };
+}
+
+function buildBlock(text: string, raw: RawBlock, index: LineIndex, errors: ModelError[]): BlockNode {
+    const block: BlockNode = {
+        type: raw.type,
+        range: index.rangeOf(raw.start, raw.end),
+        keywordRange: index.rangeOf(raw.start, raw.keywordEnd),
+        contentRange: index.rangeOf(raw.contentStart, raw.contentEnd),
+        content: text.slice(raw.contentStart, raw.contentEnd),
+        closed: raw.closed,
+        properties: [],
+        cells: [],
+        dataSections: [],
+        rows: [],
+        headings: []
+    };
+
+    const blockErrors: ModelError[] = [];
+
+    switch (raw.type) {
+        case 'meta':
+        case 'chart':
+        case 'diagram':
+        case 'code':
+        case 'include':
+            new DeclarationReader(text, raw.contentStart, raw.contentEnd, index, blockErrors)
+                .readProperties(block.properties);
+            break;
+        case 'sheet':
+            new DeclarationReader(text, raw.contentStart, raw.contentEnd, index, blockErrors)
+                .readSheet(block.properties, block.cells, block.dataSections);
+            break;
+        case 'slide':
+            readSlideProperties(text, raw, index, block, blockErrors);
+            readHeadings(text, raw, index, block);
+            break;
+        case 'table':
+            readTable(text, raw, index, block, blockErrors);
+            break;
+        case 'doc':
+            readHeadings(text, raw, index, block);
+            break;
+        default:
+            blockErrors.push({
+                message: `Unknown block type '@${raw.type}'; it will be treated as a @doc block`,
+                range: block.keywordRange,
+                severity: 'warning'
+            });
+            break;
+    }
+
+    errors.push(...blockErrors);
+
+    if (raw.closed && raw.type !== 'include') {
+        try {
+            block.node = parse(text.slice(raw.start, raw.end)).blocks[0];
+        } catch (error: any) {
+            // Our own reader gives precise locations; only fall back to the
+            // parser's message when it reported nothing for the block, not even
+            // a declaration missing its `;` (a warning of its own).
+            const unterminated = [...block.properties, ...block.cells].some(node => !node.terminated);
+            if (blockErrors.length === 0 && !unterminated) {
+                const textLine = raw.type === 'slide' ? findPropertyLikeLine(text, raw, index) : undefined;
+                errors.push({
+                    message: textLine
+                        ? "Slide text of the form 'key: text;' is read as a property; drop the ';' to keep it as text"
+                        : error?.message || 'Parse error',
+                    range: textLine ?? block.keywordRange,
+                    severity: 'error'
+                });
+            }
+        }
+    }
+
+    return block;
+}
+
+/**
+ * Slide bodies mix `key: value;` lines with Markdown content; only lines
+ * declaring a known slide property are properties.
+ */
+function readSlideProperties(text: string, raw: RawBlock, index: LineIndex, block: BlockNode, errors: ModelError[]): void {
+    forEachLine(text, raw, (lineStart, lineEnd) => {
+        const line = text.slice(lineStart, lineEnd);
+        if (slidePropertyPattern.test(line)) {
+            new DeclarationReader(text, lineStart, lineEnd, index, errors).readProperties(block.properties);
+        }
+    });
+}
+
+/**
+ * The first Markdown line of a slide that the parser nevertheless takes for a
+ * `key: value;` property, which fails when the text is not a valid value.
+ */
+function findPropertyLikeLine(text: string, raw: RawBlock, index: LineIndex): Range | undefined {
+    let found: Range | undefined;
+    forEachLine(text, raw, (lineStart, lineEnd) => {
+        const line = text.slice(lineStart, lineEnd);
+        if (!found && /^\s*[a-zA-Z0-9_]+\s*:.+;/.test(line) && !slidePropertyPattern.test(line)) {
+            const start = lineStart + line.length - line.trimStart().length;
+            found = index.rangeOf(start, lineStart + line.trimEnd().length);
+        }
+    });
+    return found;
+}
+
+function readHeadings(text: string, raw: RawBlock, index: LineIndex, block: BlockNode): void {
+    let inFence = false;
+
+    forEachLine(text, raw, (lineStart, lineEnd) => {
+        const line = text.slice(lineStart, lineEnd);
+        if (/^\s*(```|~~~)/.test(line)) {
+            inFence = !inFence;
+            return;
+        }
+
+        const match = inFence ? null : /^(\s*)(#{1,6})\s+(.+?)(\s+#+)?\s*$/.exec(line);
+        if (match) {
+            const start = lineStart + match[1].length;
+            const heading: HeadingNode = {
+                level: match[2].length,
+                text: match[3],
+                range: index.rangeOf(start, lineStart + line.trimEnd().length)
+            };
+            block.headings.push(heading);
+        }
+    });
+}
+
+function readTable(text: string, raw: RawBlock, index: LineIndex, block: BlockNode, errors: ModelError[]): void {
+    forEachLine(text, raw, (lineStart, lineEnd) => {
+        const line = text.slice(lineStart, lineEnd);
+        const trimmed = line.trim();
+
+        if (trimmed.startsWith('|')) {
+            const rowStart = lineStart + line.indexOf('|');
+            const rowEnd = lineStart + line.trimEnd().length;
+            const kind = block.rows.length === 0
+                ? 'header'
+                : block.rows.length === 1 && /^\|(\s*:?-+:?\s*\|)+$/.test(trimmed) ? 'separator' : 'data';
+            block.rows.push({
+                kind,
+                cells: readTableCells(text, rowStart, rowEnd, index),
+                range: index.rangeOf(rowStart, rowEnd)
+            });
+        } else if (trimmed && !trimmed.startsWith('//')) {
+            new DeclarationReader(text, lineStart, lineEnd, index, errors).readProperties(block.properties);
+        }
+    });
+
+    validateTableRows(block.rows, block, errors);
+}
+
+function readTableCells(text: string, rowStart: number, rowEnd: number, index: LineIndex): TableCellNode[] {
+    const cells: TableCellNode[] = [];
+    let cellStart = rowStart + 1;
+
+    for (let i = rowStart + 1; i <= rowEnd; i++) {
+        if (i === rowEnd || text[i] === '|') {
+            if (i === rowEnd && text[i - 1] === '|') {
+                break;
+            }
+            const rawCell = text.slice(cellStart, i);
+            const leading = rawCell.length - rawCell.trimStart().length;
+            const cellText = rawCell.trim();
+            const start = cellStart + leading;
+            cells.push({ text: cellText, range: index.rangeOf(start, start + cellText.length) });
+            cellStart = i + 1;
+        }
+    }
+
+    return cells;
+}
+
+function validateTableRows(rows: TableRowNode[], block: BlockNode, errors: ModelError[]): void {
+    if (rows.length < 2) {
+        errors.push({
+            message: 'Table must have at least header and separator rows',
+            range: rows[0]?.range ?? block.keywordRange,
+            severity: 'error'
+        });
+        return;
+    }
+    if (rows[1].kind !== 'separator') {
+        errors.push({
+            message: 'Expected a separator row like | --- | --- | after the table header',
+            range: rows[1].range,
+            severity: 'error'
+        });
+    }
+
+    const expected = rows[0].cells.length;
+    for (const row of rows.slice(1)) {
+        if (row.cells.length !== expected) {
+            errors.push({
+                message: `Table row has ${row.cells.length} column${row.cells.length === 1 ? '' : 's'}, expected ${expected} to match header`,
+                range: row.range,
+                severity: 'error'
+            });
+        }
+    }
+}
+
+function forEachLine(text: string, raw: RawBlock, callback: (lineStart: number, lineEnd: number) => void): void {
+    let lineStart = raw.contentStart;
+    while (lineStart < raw.contentEnd) {
+        const newline = text.indexOf('\n', lineStart);
+        const next = newline === -1 || newline > raw.contentEnd ? raw.contentEnd : newline;
+        const lineEnd = text[next - 1] === '\r' ? next - 1 : next;
+        callback(lineStart, lineEnd);
+        lineStart = next + 1;
+    }
+}
+
+function lineEndOffset(text: string, from: number): number {
+    const newline = text.indexOf('\n', from);
+    return newline === -1 ? text.length : newline;
+}
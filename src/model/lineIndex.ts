@@ -0,0 +1,65 @@
+// File: src/model/lineIndex.ts
+import type { Position, Range } from './types';
+
+/**
+ * Converts between string offsets and line/character positions.
+ */
+export class LineIndex {
+    private lineStarts: number[] = [0];
+
+    constructor(private text: string) {
+        for (let i = 0; i < text.length; i++) {
+            if (text[i] === '\n') {
+                this.lineStarts.push(i + 1);
+            }
+        }
+    }
+
+    get lineCount(): number {
+        return this.lineStarts.length;
+    }
+
+    positionAt(offset: number): Position {
+        offset = Math.max(0, Math.min(offset, this.text.length));
+
+        let low = 0;
+        let high = this.lineStarts.length - 1;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (this.lineStarts[mid] <= offset) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+
+        return { line: low, character: offset - this.lineStarts[low] };
+    }
+
+    offsetAt(position: Position): number {
+        if (position.line >= this.lineStarts.length) {
+            return this.text.length;
+        }
+        const lineStart = this.lineStarts[Math.max(0, position.line)];
+        return Math.min(lineStart + position.character, this.lineEnd(position.line));
+    }
+
+    rangeOf(start: number, end: number): Range {
+        return { start: this.positionAt(start), end: this.positionAt(end) };
+    }
+
+    /**
+     * Offset of the end of a line, excluding the line terminator.
+     */
+    lineEnd(line: number): number {
+        const next = line + 1 < this.lineStarts.length ? this.lineStarts[line + 1] - 1 : this.text.length;
+        return next > this.lineStarts[line] && this.text[next - 1] === '\r' ? next - 1 : next;
+    }
+
+    lineText(line: number): string {
+        if (line < 0 || line >= this.lineStarts.length) {
+            return '';
+        }
+        return this.text.slice(this.lineStarts[line], this.lineEnd(line));
+    }
+}
@@ -0,0 +1,633 @@
+// File: src/model/printer.ts
+import { KNOWN_BLOCK_TYPES } from './documentModel';
+import type { BlockNode, DocumentModel, PropertyNode, SheetCellNode, TableRowNode } from './types';
+
+export interface PrintOptions {
+    /** One level of indentation: spaces or a tab. */
+    indent: string;
+    /** Width past which arrays and objects are wrapped. */
+    lineWidth: number;
+}
+
+/**
+ * Printed source: new text, or a range of the original text that is kept
+ * exactly as written (string literals, Markdown content).
+ */
+export type PrintedPiece = string | { start: number; end: number };
+
+type StatementKind = 'property' | 'cell' | 'data' | 'formula' | 'row';
+
+/**
+ * A declaration or table row together with the comments around it, so that
+ * comments move with the statement when statements are sorted.
+ */
+interface Statement {
+    kind: StatementKind;
+    start: number;
+    end: number;
+    property?: PropertyNode;
+    cell?: SheetCellNode;
+    row?: TableRowNode;
+    /** Comments on the lines above the statement. */
+    leading: string[];
+    /** Comment after the statement on the same line. */
+    trailing?: string;
+    /** Whether a blank line separates the statement (or its comments) from the one before. */
+    blankBefore: boolean;
+}
+
+interface BlockLayout {
+    statements: Statement[];
+    /** Comments at the end of a sheet's `data { }` section. */
+    dataComments: string[];
+    /** Comments after the last statement of the block. */
+    endComments: string[];
+}
+
+type ValueNode =
+    | { kind: 'atom'; text: string; start: number; end: number; quoted: boolean }
+    | { kind: 'array'; items: ValueNode[] }
+    | { kind: 'object'; entries: { key: string; value: ValueNode }[] };
+
+interface Token {
+    kind: 'string' | 'word' | 'punctuation';
+    text: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Print a block in canonical form: `key: value;` spacing, wrapped long arrays
+ * and objects, aligned `@table` columns and sorted, aligned `@sheet` cells.
+ * `@doc` content and the Markdown lines of a `@slide` are kept as written.
+ *
+ * Returns undefined for blocks that have syntax errors or text the printer
+ * does not understand; those are left for the user to fix.
+ */
+export function printBlock(model: DocumentModel, block: BlockNode, options: PrintOptions): PrintedPiece[] | undefined {
+    if (!isPrintable(model, block)) {
+        return undefined;
+    }
+    if (block.type === 'doc' || block.type === 'slide') {
+        return printTextBlock(model, block, options);
+    }
+
+    const layout = readLayout(model, block);
+    if (!layout) {
+        return undefined;
+    }
+    const lines = block.type === 'sheet'
+        ? printSheet(model, layout, options)
+        : printStatements(model, layout, options);
+
+    const pieces: PrintedPiece[] = [`@${block.type} {\n`];
+    for (const line of lines) {
+        pieces.push(...line, '\n');
+    }
+    pieces.push('}');
+    return pieces;
+}
+
+/**
+ * Print a single property or sheet cell in canonical form, without
+ * indentation, as on-type formatting does after `;`. `indent` is the
+ * indentation the statement will get, for wrapping long values.
+ */
+export function printStatement(
+    model: DocumentModel,
+    node: PropertyNode | SheetCellNode,
+    indent: string,
+    options: PrintOptions
+): PrintedPiece[] {
+    const start = model.index.offsetAt(node.range.start);
+    if ('key' in node) {
+        return printProperty(model, node, indent, options);
+    }
+    const kind = model.text[start] === '(' ? 'data' : model.text.startsWith('formula', start) ? 'formula' : 'cell';
+    return printCell(model, node, kind, 0, indent, options);
+}
+
+function isPrintable(model: DocumentModel, block: BlockNode): boolean {
+    if (!block.closed || !KNOWN_BLOCK_TYPES.includes(block.type)) {
+        return false;
+    }
+    if (block.type !== 'include' && !block.node) {
+        return false;
+    }
+    const start = model.index.offsetAt(block.range.start);
+    const end = model.index.offsetAt(block.range.end);
+    return !model.errors.some(error => {
+        const offset = model.index.offsetAt(error.range.start);
+        return error.severity === 'error' && start <= offset && offset <= end;
+    });
+}
+
+/**
+ * `@doc` and `@slide`: only the braces and, in slides, lines holding a single
+ * property are printed; everything else is Markdown and kept as written.
+ */
+function printTextBlock(model: DocumentModel, block: BlockNode, options: PrintOptions): PrintedPiece[] {
+    const { text, index } = model;
+    const contentStart = index.offsetAt(block.contentRange.start);
+    const contentEnd = index.offsetAt(block.contentRange.end);
+
+    // The closing brace goes to the start of its line when nothing precedes it
+    const lastNewline = text.lastIndexOf('\n', contentEnd - 1);
+    const end = lastNewline >= contentStart && !text.slice(lastNewline + 1, contentEnd).trim()
+        ? lastNewline + 1
+        : contentEnd;
+
+    const pieces: PrintedPiece[] = [`@${block.type} {`];
+    let pos = contentStart;
+    for (const property of block.properties) {
+        const start = index.offsetAt(property.range.start);
+        const lineStart = index.offsetAt({ line: property.range.start.line, character: 0 });
+        const lineEnd = index.lineEnd(property.range.start.line);
+        const propertyEnd = index.offsetAt(property.range.end);
+        const rest = text.slice(propertyEnd, lineEnd).trim();
+        if (lineStart < pos || text.slice(lineStart, start).trim() || (rest && !rest.startsWith('//'))) {
+            continue;
+        }
+        pieces.push({ start: pos, end: lineStart }, options.indent);
+        pieces.push(...printProperty(model, property, options.indent, options));
+        if (rest) {
+            pieces.push(` ${rest}`);
+        }
+        pos = lineEnd;
+    }
+    if (pos < end) {
+        pieces.push({ start: pos, end });
+    }
+    pieces.push('}');
+    return pieces;
+}
+
+/**
+ * Split the body of a declaration block into statements with their comments.
+ * Undefined when the body holds anything other than statements, comments
+ * and `data { }` sections.
+ */
+function readLayout(model: DocumentModel, block: BlockNode): BlockLayout | undefined {
+    const { text, index } = model;
+    const offset = (position: { line: number; character: number }) => index.offsetAt(position);
+    const contentEnd = offset(block.contentRange.end);
+
+    const statements: Statement[] = [
+        ...block.properties.map(property => ({ kind: 'property' as StatementKind, property, range: property.range })),
+        ...block.cells.map(cell => ({ kind: 'cell' as StatementKind, cell, range: cell.range })),
+        ...block.rows.map(row => ({ kind: 'row' as StatementKind, row, range: row.range }))
+    ]
+        .map(({ range, ...node }) => ({
+            ...node,
+            start: offset(range.start),
+            end: offset(range.end),
+            leading: [],
+            blankBefore: false
+        }))
+        .sort((a, b) => a.start - b.start);
+
+    const layout: BlockLayout = { statements, dataComments: [], endComments: [] };
+    let pos = offset(block.contentRange.start);
+    let inData = false;
+    let newlines = 0;
+    let pending: string[] = [];
+    let pendingBlank = false;
+    let previous: Statement | undefined;
+
+    const readGap = (end: number): boolean => {
+        while (pos < end) {
+            const ch = text[pos];
+            if (ch === '\n') {
+                newlines++;
+                pos++;
+            } else if (ch === ' ' || ch === '\t' || ch === '\r' || ch === ';') {
+                pos++;
+            } else if (text.startsWith('//', pos) || text.startsWith('/*', pos)) {
+                const close = text.startsWith('//', pos) ? index.lineEnd(index.positionAt(pos).line) : text.indexOf('*/', pos + 2) + 2;
+                if (close < 2 || close > end) {
+                    return false;
+                }
+                const comment = text.slice(pos, close).trimEnd();
+                if (previous && newlines === 0) {
+                    previous.trailing = previous.trailing ? `${previous.trailing} ${comment}` : comment;
+                } else {
+                    pendingBlank = pending.length === 0 ? newlines > 1 : pendingBlank;
+                    pending.push(comment);
+                    newlines = 0;
+                }
+                pos = close;
+            } else if (block.type === 'sheet' && !inData && /^data\s*\{/.test(text.slice(pos, end))) {
+                inData = true;
+                pos = text.indexOf('{', pos) + 1;
+                previous = undefined;
+            } else if (ch === '}' && inData) {
+                inData = false;
+                layout.dataComments.push(...pending);
+                pending = [];
+                pos++;
+                previous = undefined;
+            } else {
+                return false;
+            }
+        }
+        return true;
+    };
+
+    for (const statement of statements) {
+        if (statement.start < pos || !readGap(statement.start)) {
+            return undefined;
+        }
+        if (statement.cell) {
+            statement.kind = inData ? 'data' : text.startsWith('formula', statement.start) ? 'formula' : 'cell';
+        }
+        statement.leading = pending;
+        statement.blankBefore = pending.length > 0 ? pendingBlank : newlines > 1;
+        pending = [];
+        newlines = 0;
+        pos = statement.end;
+        previous = statement;
+    }
+    if (!readGap(contentEnd) || inData) {
+        return undefined;
+    }
+    layout.endComments = pending;
+    if (statements.length > 0) {
+        statements[0].blankBefore = false;
+    }
+    return layout;
+}
+
+/**
+ * Statements in source order, keeping single blank lines between them; the
+ * rows of a table are aligned as one group.
+ */
+function printStatements(model: DocumentModel, layout: BlockLayout, options: PrintOptions): PrintedPiece[][] {
+    const indent = options.indent;
+    const rows = layout.statements.filter(statement => statement.row).map(statement => statement.row!);
+    const separator = rows.find(row => row.kind === 'separator');
+    const columns = getTableColumns(
+        rows.filter(row => row.kind !== 'separator').map(row => row.cells.map(cell => cell.text)),
+        separator?.cells.map(cell => getSeparatorAlignment(cell.text)) ?? []
+    );
+    const lines: PrintedPiece[][] = [];
+
+    for (const statement of layout.statements) {
+        if (statement.blankBefore && lines.length > 0) {
+            lines.push([]);
+        }
+        const printed = statement.row
+            ? [statement.row.kind === 'separator'
+                ? printTableSeparator(columns)
+                : printTableRow(statement.row.cells.map(cell => cell.text), columns)]
+            : printProperty(model, statement.property!, indent, options);
+        lines.push(...printWithComments(statement, printed, indent));
+    }
+    lines.push(...layout.endComments.map(comment => [indent + comment]));
+    return lines;
+}
+
+/**
+ * Sheet properties in source order, then cells sorted by row and column with
+ * their `=` aligned: `A1 = …` assignments, the `data { }` section (several
+ * sections are merged) and `formula` declarations.
+ */
+function printSheet(model: DocumentModel, layout: BlockLayout, options: PrintOptions): PrintedPiece[][] {
+    const indent = options.indent;
+    const lines = printStatements(model, {
+        statements: layout.statements.filter(statement => statement.kind === 'property'),
+        dataComments: [],
+        endComments: []
+    }, options);
+
+    const byCell = (a: Statement, b: Statement) => a.cell!.row - b.cell!.row || a.cell!.col - b.cell!.col;
+    const group = (kind: StatementKind) => layout.statements.filter(statement => statement.kind === kind).sort(byCell);
+    const printGroup = (statements: Statement[], kind: StatementKind, groupIndent: string) => {
+        const width = Math.max(0, ...statements.map(statement => getCellLabel(statement.cell!, kind).length));
+        for (const statement of statements) {
+            const printed = printCell(model, statement.cell!, kind, width, groupIndent, options);
+            lines.push(...printWithComments(statement, printed, groupIndent));
+        }
+    };
+    const separate = () => {
+        if (lines.length > 0) {
+            lines.push([]);
+        }
+    };
+
+    const cells = group('cell');
+    if (cells.length > 0) {
+        separate();
+        printGroup(cells, 'cell', indent);
+    }
+    const data = group('data');
+    if (data.length > 0 || layout.dataComments.length > 0) {
+        separate();
+        lines.push([`${indent}data {`]);
+        printGroup(data, 'data', indent + indent);
+        lines.push(...layout.dataComments.map(comment => [indent + indent + comment]));
+        lines.push([`${indent}}`]);
+    }
+    const formulas = group('formula');
+    if (formulas.length > 0) {
+        separate();
+        printGroup(formulas, 'formula', indent);
+    }
+    lines.push(...layout.endComments.map(comment => [indent + comment]));
+    return lines;
+}
+
+function printWithComments(statement: Statement, printed: PrintedPiece[], indent: string): PrintedPiece[][] {
+    const lines: PrintedPiece[][] = statement.leading.map(comment => [indent + comment]);
+    lines.push([indent, ...printed, ...(statement.trailing ? [` ${statement.trailing}`] : [])]);
+    return lines;
+}
+
+function printProperty(model: DocumentModel, property: PropertyNode, indent: string, options: PrintOptions): PrintedPiece[] {
+    const prefix = `${property.key}: `;
+    const value = printSourceValue(model, property.valueRange, indent, indent.length + prefix.length, options);
+    return [prefix, ...value, ';'];
+}
+
+function getCellLabel(cell: SheetCellNode, kind: StatementKind): string {
+    const coordinates = `(${cell.row},${cell.col})`;
+    return kind === 'cell' ? cell.ref : kind === 'formula' ? `${coordinates}:` : coordinates;
+}
+
+/**
+ * A cell statement with its label padded to `width`, so that the values of a
+ * group of cells line up.
+ */
+function printCell(
+    model: DocumentModel,
+    cell: SheetCellNode,
+    kind: StatementKind,
+    width: number,
+    indent: string,
+    options: PrintOptions
+): PrintedPiece[] {
+    const { text, index } = model;
+    const label = getCellLabel(cell, kind).padEnd(width);
+    const valueStart = index.offsetAt(cell.valueRange.start);
+    const valueEnd = index.offsetAt(cell.valueRange.end);
+
+    if (kind === 'formula') {
+        // The range of a formula declaration excludes the quotes
+        return [`formula ${label} `, { start: valueStart - 1, end: valueEnd + 1 }, ';'];
+    }
+    const prefix = `${label} = `;
+    const value = cell.formula !== undefined
+        ? [text.slice(valueStart, valueEnd)]
+        : printSourceValue(model, cell.valueRange, indent, indent.length + prefix.length, options);
+    return [prefix, ...value, ';'];
+}
+
+export type TableAlignment = 'left' | 'center' | 'right';
+
+/** Width and alignment of a column of a pipe table. */
+export interface TableColumn {
+    width: number;
+    align?: TableAlignment;
+}
+
+/**
+ * Columns wide enough for every cell, and at least three characters so the
+ * separator row keeps its dashes.
+ */
+export function getTableColumns(rows: string[][], alignments: (TableAlignment | undefined)[]): TableColumn[] {
+    const count = Math.max(alignments.length, ...rows.map(row => row.length));
+    return Array.from({ length: count }, (_value, i) => ({
+        width: Math.max(3, ...rows.map(row => (row[i] ?? '').length)),
+        align: alignments[i]
+    }));
+}
+
+/** The alignment a separator cell such as `:---:` or `---:` asks for. */
+export function getSeparatorAlignment(marker: string): TableAlignment | undefined {
+    const left = marker.startsWith(':');
+    const right = marker.length > 1 && marker.endsWith(':');
+    return left && right ? 'center' : left ? 'left' : right ? 'right' : undefined;
+}
+
+/** A table row with each cell padded to its column's width and alignment. */
+export function printTableRow(cells: string[], columns: TableColumn[]): string {
+    const printed = columns.map((column, i) => {
+        const text = cells[i] ?? '';
+        if (column.align === 'right') {
+            return text.padStart(column.width);
+        }
+        if (column.align === 'center') {
+            return text.padStart(Math.floor((column.width + text.length) / 2)).padEnd(column.width);
+        }
+        return text.padEnd(column.width);
+    });
+    return `| ${printed.join(' | ')} |`;
+}
+
+/** The separator row below a table's header, with its alignment markers. */
+export function printTableSeparator(columns: TableColumn[]): string {
+    const printed = columns.map(column => {
+        const dashes = column.width - (column.align === 'center' ? 2 : column.align ? 1 : 0);
+        const marker = '-'.repeat(dashes);
+        return column.align === 'center' ? `:${marker}:`
+            : column.align === 'left' ? `:${marker}`
+                : column.align === 'right' ? `${marker}:` : marker;
+    });
+    return `| ${printed.join(' | ')} |`;
+}
+
+/**
+ * Print the value in a source range, or keep it as written when it holds
+ * comments or multi-line strings.
+ */
+function printSourceValue(
+    model: DocumentModel,
+    range: { start: { line: number; character: number }; end: { line: number; character: number } },
+    indent: string,
+    column: number,
+    options: PrintOptions
+): PrintedPiece[] {
+    const start = model.index.offsetAt(range.start);
+    const end = model.index.offsetAt(range.end);
+    const value = readValue(model.text, start, end);
+    return value ? printValue(value, indent, column, options) : [{ start, end }];
+}
+
+function readValue(text: string, start: number, end: number): ValueNode | undefined {
+    const tokens = tokenize(text, start, end);
+    if (!tokens) {
+        return undefined;
+    }
+
+    let i = 0;
+    const read = (): ValueNode | undefined => {
+        const token = tokens[i++];
+        if (!token) {
+            return undefined;
+        }
+        if (token.text === '[') {
+            const items: ValueNode[] = [];
+            while (tokens[i]?.text !== ']') {
+                const item = read();
+                if (!item) {
+                    return undefined;
+                }
+                items.push(item);
+                if (tokens[i]?.text === ',') {
+                    i++;
+                } else if (tokens[i]?.text !== ']') {
+                    return undefined;
+                }
+            }
+            i++;
+            return { kind: 'array', items };
+        }
+        if (token.text === '{') {
+            const entries: { key: string; value: ValueNode }[] = [];
+            while (tokens[i]?.text !== '}') {
+                const key = tokens[i++];
+                if (key?.kind !== 'word' || tokens[i++]?.text !== ':') {
+                    return undefined;
+                }
+                const value = read();
+                if (!value) {
+                    return undefined;
+                }
+                entries.push({ key: key.text, value });
+                if (tokens[i]?.text === ';' || tokens[i]?.text === ',') {
+                    i++;
+                } else if (tokens[i]?.text !== '}') {
+                    return undefined;
+                }
+            }
+            i++;
+            return { kind: 'object', entries };
+        }
+        if (token.kind === 'punctuation') {
+            return undefined;
+        }
+        return { kind: 'atom', text: token.text, start: token.start, end: token.end, quoted: token.kind === 'string' };
+    };
+
+    const value = read();
+    return value && i === tokens.length ? value : undefined;
+}
+
+function tokenize(text: string, start: number, end: number): Token[] | undefined {
+    const tokens: Token[] = [];
+    const word = /[^\s[\]{},;:"]+/y;
+    let i = start;
+
+    while (i < end) {
+        const ch = text[i];
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (ch === '"') {
+            let j = i + 1;
+            while (j < end && text[j] !== '"') {
+                j += text[j] === '\\' ? 2 : 1;
+            }
+            if (j >= end || text.slice(i, j).includes('\n')) {
+                return undefined;
+            }
+            tokens.push({ kind: 'string', text: text.slice(i, j + 1), start: i, end: j + 1 });
+            i = j + 1;
+        } else if ('[]{},;:'.includes(ch)) {
+            tokens.push({ kind: 'punctuation', text: ch, start: i, end: i + 1 });
+            i++;
+        } else if (text.startsWith('//', i) || text.startsWith('/*', i)) {
+            return undefined;
+        } else {
+            word.lastIndex = i;
+            const match = word.exec(text)!;
+            const wordEnd = Math.min(i + match[0].length, end);
+            tokens.push({ kind: 'word', text: text.slice(i, wordEnd), start: i, end: wordEnd });
+            i = wordEnd;
+        }
+    }
+    return tokens;
+}
+
+/**
+ * Print a value on one line when it fits within the line width (`column` is
+ * where it starts); otherwise objects get one entry per line, arrays of
+ * plain values are filled line by line and other arrays get one item per line.
+ */
+function printValue(value: ValueNode, indent: string, column: number, options: PrintOptions): PrintedPiece[] {
+    if (value.kind === 'atom' || column + getInlineText(value).length + 1 <= options.lineWidth) {
+        return printInline(value);
+    }
+    const inner = indent + options.indent;
+
+    if (value.kind === 'object') {
+        if (value.entries.length === 0) {
+            return ['{}'];
+        }
+        const pieces: PrintedPiece[] = ['{\n'];
+        for (const entry of value.entries) {
+            const prefix = `${entry.key}: `;
+            pieces.push(inner + prefix, ...printValue(entry.value, inner, inner.length + prefix.length, options), ';\n');
+        }
+        pieces.push(`${indent}}`);
+        return pieces;
+    }
+
+    if (value.items.length === 0) {
+        return ['[]'];
+    }
+    const pieces: PrintedPiece[] = ['[\n', inner];
+    if (value.items.every(item => item.kind === 'atom')) {
+        let width = inner.length;
+        value.items.forEach((item, i) => {
+            const length = getInlineText(item).length + 1;
+            if (i > 0) {
+                const fits = width + 1 + length <= options.lineWidth;
+                pieces.push(fits ? ' ' : `\n${inner}`);
+                width = fits ? width + 1 : inner.length;
+            }
+            pieces.push(...printInline(item), i < value.items.length - 1 ? ',' : '');
+            width += length;
+        });
+    } else {
+        value.items.forEach((item, i) => {
+            if (i > 0) {
+                pieces.push(`,\n${inner}`);
+            }
+            pieces.push(...printValue(item, inner, inner.length, options));
+        });
+    }
+    pieces.push(`\n${indent}]`);
+    return pieces;
+}
+
+function printInline(value: ValueNode): PrintedPiece[] {
+    if (value.kind === 'atom') {
+        return [value.quoted ? { start: value.start, end: value.end } : value.text];
+    }
+    if (value.kind === 'array') {
+        const pieces: PrintedPiece[] = ['['];
+        value.items.forEach((item, i) => pieces.push(...(i > 0 ? [', '] : []), ...printInline(item)));
+        pieces.push(']');
+        return pieces;
+    }
+    if (value.entries.length === 0) {
+        return ['{}'];
+    }
+    const pieces: PrintedPiece[] = ['{ '];
+    for (const entry of value.entries) {
+        pieces.push(`${entry.key}: `, ...printInline(entry.value), '; ');
+    }
+    pieces.push('}');
+    return pieces;
+}
+
+function getInlineText(value: ValueNode): string {
+    if (value.kind === 'atom') {
+        return value.text;
+    }
+    if (value.kind === 'array') {
+        return `[${value.items.map(getInlineText).join(', ')}]`;
+    }
+    return value.entries.length === 0
+        ? '{}'
+        : `{ ${value.entries.map(entry => `${entry.key}: ${getInlineText(entry.value)};`).join(' ')} }`;
+}
@@ -0,0 +1,500 @@
+// File: src/model/reader.ts
+import type { OSFValue } from 'omniscript-parser';
+import { parseCellRef, toCellRef } from './cellRef';
+import type { LineIndex } from './lineIndex';
+import type { ModelError, PropertyNode, Range, SheetCellNode } from './types';
+
+/**
+ * Raised while reading a statement; the reader records it and resumes at the next statement.
+ */
+class ReaderError extends Error {
+    constructor(message: string, public start: number, public end: number, public resumeAt?: number) {
+        super(message);
+    }
+}
+
+/* eslint-disable @typescript-eslint/naming-convention */
+const stringEscapes: { [key: string]: string } = {
+    n: '\n',
+    t: '\t',
+    r: '\r',
+    '"': '"',
+    '\\': '\\',
+    '/': '/'
+};
+/* eslint-enable @typescript-eslint/naming-convention */
+
+interface ValueResult {
+    value: OSFValue;
+    start: number;
+    end: number;
+}
+
+/**
+ * Reads OSF declarations (`key: value;`, sheet cell assignments) from a region of
+ * the source text, recording every syntax error with its exact range and recovering
+ * at the next statement instead of stopping at the first problem.
+ */
+export class DeclarationReader {
+    private pos: number;
+
+    constructor(
+        private text: string,
+        start: number,
+        private end: number,
+        private index: LineIndex,
+        private errors: ModelError[]
+    ) {
+        this.pos = start;
+    }
+
+    /**
+     * Read `key: value;` declarations until the end of the region.
+     */
+    readProperties(properties: PropertyNode[]): void {
+        this.readStatements(() => {
+            properties.push(this.readProperty());
+        });
+    }
+
+    /**
+     * Read the body of a `@sheet` block: properties, `A1 = value;` assignments,
+     * `data { (r,c) = value; }` sections and `formula (r,c): "expr";` declarations.
+     */
+    readSheet(properties: PropertyNode[], cells: SheetCellNode[], dataSections: Range[]): void {
+        this.readStatements(() => {
+            const identifier = /^[A-Za-z][\w%]*/.exec(this.text.slice(this.pos, this.end));
+            const word = identifier?.[0] ?? '';
+            const after = this.peekAfter(this.pos + word.length);
+
+            if (word && after === '=' && parseCellRef(word)) {
+                cells.push(this.readCellAssignment());
+            } else if (word === 'data' && after === '{') {
+                this.readDataSection(cells, dataSections);
+            } else if (word === 'formula' && after === '(') {
+                cells.push(this.readFormulaDeclaration());
+            } else {
+                properties.push(this.readProperty());
+            }
+        });
+    }
+
+    private readStatements(readStatement: () => void): void {
+        for (;;) {
+            this.skipTrivia();
+            if (this.pos >= this.end) {
+                return;
+            }
+            try {
+                readStatement();
+            } catch (error) {
+                if (!(error instanceof ReaderError)) {
+                    throw error;
+                }
+                this.report(error.message, error.start, error.end);
+                this.pos = error.resumeAt ?? this.findStatementEnd(error.start);
+            }
+        }
+    }
+
+    private readProperty(): PropertyNode {
+        const keyStart = this.pos;
+        const key = this.readIdentifier('Expected property name');
+        const keyEnd = this.pos;
+
+        this.skipInlineWhitespace();
+        if (this.text[this.pos] !== ':') {
+            throw new ReaderError(`Expected ':' after '${key}'`, keyStart, Math.max(this.pos, keyEnd));
+        }
+        this.pos++;
+        this.skipTrivia();
+
+        const value = this.readValue();
+        const terminated = this.readTerminator(key);
+
+        return {
+            key,
+            value: value.value,
+            raw: this.text.slice(value.start, value.end),
+            range: this.index.rangeOf(keyStart, terminated ? this.pos : value.end),
+            keyRange: this.index.rangeOf(keyStart, keyEnd),
+            valueRange: this.index.rangeOf(value.start, value.end),
+            terminated
+        };
+    }
+
+    private readCellAssignment(): SheetCellNode {
+        const refStart = this.pos;
+        const ref = this.readIdentifier('Expected cell reference');
+        const refEnd = this.pos;
+        const cell = parseCellRef(ref)!;
+
+        this.skipInlineWhitespace();
+        this.pos++; // '='
+        this.skipInlineWhitespace();
+
+        return this.readCellValue(toCellRef(cell.row, cell.col), cell.row, cell.col, refStart, refEnd);
+    }
+
+    private readDataSection(cells: SheetCellNode[], dataSections: Range[]): void {
+        const start = this.pos;
+        this.readIdentifier('Expected data');
+        if (dataSections.length > 0) {
+            // omniscript-parser reads the first section and drops the others
+            this.errors.push({
+                message: 'Only the first data section of a sheet is read; move these cells into it or format the document to merge them',
+                range: this.index.rangeOf(start, this.pos),
+                severity: 'warning'
+            });
+        }
+        this.skipTrivia();
+        const open = this.pos;
+        this.pos++; // '{'
+
+        for (;;) {
+            this.skipTrivia();
+            if (this.pos >= this.end) {
+                this.report("Missing closing '}' for data section", open, open + 1);
+                return;
+            }
+            if (this.text[this.pos] === '}') {
+                this.pos++;
+                dataSections.push(this.index.rangeOf(start, this.pos));
+                return;
+            }
+
+            try {
+                const refStart = this.pos;
+                const coordinates = this.readCoordinates();
+                const refEnd = this.pos;
+                this.skipInlineWhitespace();
+                if (this.text[this.pos] !== '=') {
+                    throw new ReaderError("Expected '=' after cell coordinates", refStart, refEnd);
+                }
+                this.pos++;
+                this.skipInlineWhitespace();
+                cells.push(this.readCellValue(
+                    toCellRef(coordinates.row, coordinates.col),
+                    coordinates.row,
+                    coordinates.col,
+                    refStart,
+                    refEnd
+                ));
+            } catch (error) {
+                if (!(error instanceof ReaderError)) {
+                    throw error;
+                }
+                this.report(error.message, error.start, error.end);
+                this.pos = error.resumeAt ?? this.findStatementEnd(error.start);
+            }
+        }
+    }
+
+    private readFormulaDeclaration(): SheetCellNode {
+        const start = this.pos;
+        this.readIdentifier('Expected formula');
+        this.skipInlineWhitespace();
+        const refStart = this.pos;
+        const coordinates = this.readCoordinates();
+        const refEnd = this.pos;
+
+        this.skipInlineWhitespace();
+        if (this.text[this.pos] !== ':') {
+            throw new ReaderError("Expected ':' after formula coordinates", refStart, refEnd);
+        }
+        this.pos++;
+        this.skipTrivia();
+
+        if (this.text[this.pos] !== '"') {
+            throw new ReaderError('Formula expression must be a string', this.pos, this.pos + 1);
+        }
+        const value = this.readString();
+        const expression = String(value.value).replace(/^\s*=/, '');
+        const terminated = this.readTerminator('formula');
+
+        return {
+            ref: toCellRef(coordinates.row, coordinates.col),
+            row: coordinates.row,
+            col: coordinates.col,
+            formula: expression,
+            raw: this.text.slice(value.start, value.end),
+            range: this.index.rangeOf(start, terminated ? this.pos : value.end),
+            refRange: this.index.rangeOf(refStart, refEnd),
+            valueRange: this.index.rangeOf(value.start + 1, value.end - 1),
+            terminated
+        };
+    }
+
+    private readCellValue(ref: string, row: number, col: number, refStart: number, refEnd: number): SheetCellNode {
+        let valueStart = this.pos;
+        let valueEnd: number;
+        let value: OSFValue | undefined;
+        let formula: string | undefined;
+
+        if (this.text[this.pos] === '=') {
+            valueStart = this.pos;
+            valueEnd = this.findFormulaEnd(this.pos + 1);
+            formula = this.text.slice(this.pos + 1, valueEnd).trim();
+            if (!formula) {
+                throw new ReaderError(`Empty formula for cell ${ref}`, valueStart, valueStart + 1);
+            }
+            this.pos = valueEnd;
+            valueEnd = valueStart + 1 + this.text.slice(valueStart + 1, valueEnd).trimEnd().length;
+        } else {
+            const result = this.readValue();
+            value = result.value;
+            valueEnd = result.end;
+        }
+
+        const terminated = this.readTerminator(ref);
+
+        return {
+            ref,
+            row,
+            col,
+            value,
+            formula,
+            raw: this.text.slice(valueStart, valueEnd),
+            range: this.index.rangeOf(refStart, terminated ? this.pos : valueEnd),
+            refRange: this.index.rangeOf(refStart, refEnd),
+            valueRange: this.index.rangeOf(valueStart, valueEnd),
+            terminated
+        };
+    }
+
+    private readCoordinates(): { row: number; col: number } {
+        const start = this.pos;
+        const match = /^\(\s*(\d+)\s*,\s*(\d+)\s*\)/.exec(this.text.slice(this.pos, this.end));
+        if (!match) {
+            throw new ReaderError('Expected cell coordinates like (1,2)', start, this.findLineEnd(start));
+        }
+        this.pos += match[0].length;
+        const row = parseInt(match[1], 10);
+        const col = parseInt(match[2], 10);
+        if (row < 1 || col < 1) {
+            throw new ReaderError('Cell coordinates start at (1,1)', start, this.pos, this.findStatementEnd(start));
+        }
+        return { row, col };
+    }
+
+    private readValue(): ValueResult {
+        const ch = this.text[this.pos];
+        const start = this.pos;
+
+        if (this.pos >= this.end) {
+            throw new ReaderError('Expected value', start, start);
+        }
+        if (ch === '"') {
+            return this.readString();
+        }
+        if (ch === '[') {
+            return this.readArray();
+        }
+        if (ch === '{') {
+            return this.readObject();
+        }
+
+        const rest = this.text.slice(this.pos, this.end);
+        const number = /^-?(\d+(\.\d+)?|\.\d+)(?![\w.])/.exec(rest);
+        if (number) {
+            this.pos += number[0].length;
+            return { value: Number(number[0]), start, end: this.pos };
+        }
+
+        const word = /^[A-Za-z][\w%]*/.exec(rest);
+        if (word) {
+            // Names such as theme file names may contain '-', which bare words cannot
+            const hyphenated = /^[A-Za-z][\w%]*(-[\w%]+)+/.exec(rest);
+            if (hyphenated) {
+                throw new ReaderError(
+                    `Values containing '-' must be quoted: "${hyphenated[0]}"`,
+                    start,
+                    start + hyphenated[0].length
+                );
+            }
+            this.pos += word[0].length;
+            const value = word[0] === 'true' ? true : word[0] === 'false' ? false : word[0];
+            return { value, start, end: this.pos };
+        }
+
+        throw new ReaderError(`Unexpected '${ch}' where a value was expected`, start, start + 1);
+    }
+
+    private readString(): ValueResult {
+        const start = this.pos;
+        let value = '';
+        this.pos++;
+
+        while (this.pos < this.end) {
+            const ch = this.text[this.pos];
+            if (ch === '"') {
+                this.pos++;
+                return { value, start, end: this.pos };
+            }
+            if (ch === '\\' && this.pos + 1 < this.end) {
+                const next = this.text[this.pos + 1];
+                value += stringEscapes[next] ?? ch + next;
+                this.pos += 2;
+                continue;
+            }
+            value += ch;
+            this.pos++;
+        }
+
+        throw new ReaderError('Unterminated string literal', start, start + 1, this.end);
+    }
+
+    private readArray(): ValueResult {
+        const start = this.pos;
+        const items: OSFValue[] = [];
+        this.pos++;
+
+        for (;;) {
+            this.skipTrivia();
+            if (this.pos >= this.end || this.text[this.pos] === ';' || this.text[this.pos] === '}') {
+                throw new ReaderError("Missing closing ']' for array", start, start + 1);
+            }
+            if (this.text[this.pos] === ']') {
+                this.pos++;
+                return { value: items, start, end: this.pos };
+            }
+            items.push(this.readValue().value);
+            this.skipTrivia();
+            if (this.text[this.pos] === ',') {
+                this.pos++;
+            }
+        }
+    }
+
+    private readObject(): ValueResult {
+        const start = this.pos;
+        const value: { [key: string]: OSFValue } = {};
+        this.pos++;
+
+        for (;;) {
+            this.skipTrivia();
+            if (this.pos >= this.end) {
+                throw new ReaderError("Missing closing '}' for object", start, start + 1, this.end);
+            }
+            if (this.text[this.pos] === '}') {
+                this.pos++;
+                return { value, start, end: this.pos };
+            }
+
+            const keyStart = this.pos;
+            const key = this.readIdentifier('Expected property name');
+            this.skipInlineWhitespace();
+            if (this.text[this.pos] !== ':') {
+                throw new ReaderError(`Expected ':' after '${key}'`, keyStart, this.pos);
+            }
+            this.pos++;
+            this.skipTrivia();
+            value[key] = this.readValue().value;
+            this.skipTrivia();
+            if (this.text[this.pos] === ';' || this.text[this.pos] === ',') {
+                this.pos++;
+            }
+        }
+    }
+
+    private readIdentifier(message: string): string {
+        const match = /^[A-Za-z][\w%]*/.exec(this.text.slice(this.pos, this.end));
+        if (!match) {
+            throw new ReaderError(message, this.pos, Math.max(this.pos + 1, this.findLineEnd(this.pos)));
+        }
+        this.pos += match[0].length;
+        return match[0];
+    }
+
+    /**
+     * Consume the `;` after a value. A declaration that simply ends at a line break or
+     * the end of the block is accepted but flagged as unterminated.
+     */
+    private readTerminator(name: string): boolean {
+        this.skipInlineWhitespace();
+        if (this.text.startsWith('//', this.pos)) {
+            this.pos = this.findLineEnd(this.pos);
+        }
+
+        const ch = this.text[this.pos];
+        if (ch === ';') {
+            this.pos++;
+            return true;
+        }
+        if (this.pos >= this.end || ch === '\n' || ch === '\r' || ch === '}') {
+            return false;
+        }
+        throw new ReaderError(`Expected ';' after '${name}'`, this.pos, this.pos + 1);
+    }
+
+    private findFormulaEnd(from: number): number {
+        let depth = 0;
+        let inString = false;
+        for (let i = from; i < this.end; i++) {
+            const ch = this.text[i];
+            if (inString) {
+                inString = ch !== '"';
+            } else if (ch === '"') {
+                inString = true;
+            } else if (ch === '(') {
+                depth++;
+            } else if (ch === ')') {
+                depth--;
+            } else if ((ch === ';' && depth <= 0) || ch === '\n') {
+                return ch === '\n' && this.text[i - 1] === '\r' ? i - 1 : i;
+            }
+        }
+        return this.end;
+    }
+
+    private findStatementEnd(from: number): number {
+        for (let i = from; i < this.end; i++) {
+            if (this.text[i] === ';') {
+                return i + 1;
+            }
+            if (this.text[i] === '\n') {
+                return i;
+            }
+        }
+        return this.end;
+    }
+
+    private findLineEnd(from: number): number {
+        const newline = this.text.indexOf('\n', from);
+        const lineEnd = newline === -1 || newline > this.end ? this.end : newline;
+        return this.text[lineEnd - 1] === '\r' ? lineEnd - 1 : lineEnd;
+    }
+
+    private peekAfter(offset: number): string | undefined {
+        while (offset < this.end && (this.text[offset] === ' ' || this.text[offset] === '\t')) {
+            offset++;
+        }
+        return this.text[offset];
+    }
+
+    private skipInlineWhitespace(): void {
+        while (this.pos < this.end && (this.text[this.pos] === ' ' || this.text[this.pos] === '\t')) {
+            this.pos++;
+        }
+    }
+
+    private skipTrivia(): void {
+        while (this.pos < this.end) {
+            const ch = this.text[this.pos];
+            if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r') {
+                this.pos++;
+            } else if (this.text.startsWith('//', this.pos)) {
+                this.pos = this.findLineEnd(this.pos);
+            } else if (this.text.startsWith('/*', this.pos)) {
+                const close = this.text.indexOf('*/', this.pos + 2);
+                this.pos = close === -1 || close >= this.end ? this.end : close + 2;
+            } else {
+                return;
+            }
+        }
+    }
+
+    private report(message: string, start: number, end: number): void {
+        this.errors.push({ message, range: this.index.rangeOf(start, end), severity: 'error' });
+    }
+}
@@ -0,0 +1,112 @@
+// File: src/model/types.ts
+import type { OSFBlock, OSFValue } from 'omniscript-parser';
+import type { LineIndex } from './lineIndex';
+
+/**
+ * Zero-based line/character position. Structurally identical to the LSP and
+ * VS Code position types so values can be passed straight through.
+ */
+export interface Position {
+    line: number;
+    character: number;
+}
+
+export interface Range {
+    start: Position;
+    end: Position;
+}
+
+export type ModelErrorSeverity = 'error' | 'warning';
+
+export interface ModelError {
+    message: string;
+    range: Range;
+    severity: ModelErrorSeverity;
+}
+
+/**
+ * A `key: value;` declaration inside a block.
+ */
+export interface PropertyNode {
+    key: string;
+    value: OSFValue;
+    /** Source text of the value. */
+    raw: string;
+    range: Range;
+    keyRange: Range;
+    valueRange: Range;
+    /** False when the declaration is missing its trailing semicolon. */
+    terminated: boolean;
+}
+
+/**
+ * A cell assignment inside a `@sheet` block, either `B2 = 100;`,
+ * `(2,2) = 100;` inside `data { }` or `formula (2,2): "...";`.
+ */
+export interface SheetCellNode {
+    /** A1-style reference, e.g. `B2`. */
+    ref: string;
+    /** One-based row index. */
+    row: number;
+    /** One-based column index. */
+    col: number;
+    /** Literal value; undefined for formula cells. */
+    value?: OSFValue;
+    /** Formula expression without the leading `=`. */
+    formula?: string;
+    raw: string;
+    range: Range;
+    refRange: Range;
+    valueRange: Range;
+    terminated: boolean;
+}
+
+export interface TableCellNode {
+    text: string;
+    range: Range;
+}
+
+export type TableRowKind = 'header' | 'separator' | 'data';
+
+export interface TableRowNode {
+    kind: TableRowKind;
+    cells: TableCellNode[];
+    range: Range;
+}
+
+/**
+ * A Markdown heading inside a `@doc` or `@slide` body.
+ */
+export interface HeadingNode {
+    level: number;
+    text: string;
+    range: Range;
+}
+
+export interface BlockNode {
+    /** Block keyword without the `@`, e.g. `slide` or `include`. */
+    type: string;
+    /** From the `@` of the keyword to the closing brace (inclusive). */
+    range: Range;
+    keywordRange: Range;
+    /** Range between the braces. */
+    contentRange: Range;
+    content: string;
+    /** False when the closing brace is missing; the block then ends where recovery resumed. */
+    closed: boolean;
+    properties: PropertyNode[];
+    cells: SheetCellNode[];
+    /** The closed `data { }` sections of a `@sheet`, from `data` to the closing brace. */
+    dataSections: Range[];
+    rows: TableRowNode[];
+    headings: HeadingNode[];
+    /** Parsed block from omniscript-parser, when the block is valid. */
+    node?: OSFBlock;
+}
+
+export interface DocumentModel {
+    text: string;
+    index: LineIndex;
+    blocks: BlockNode[];
+    errors: ModelError[];
+}
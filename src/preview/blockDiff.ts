@@ -0,0 +1,36 @@
+// File: src/preview/blockDiff.ts
+
+/**
+ * Replace `deleteCount` rendered blocks from `start` with `blocks`, like
+ * `Array.prototype.splice`.
+ */
+export interface BlockSplice {
+    start: number;
+    deleteCount: number;
+    blocks: string[];
+}
+
+/**
+ * Smallest single splice turning the `previous` block HTML into `next`: the
+ * blocks both lists start and end with are kept, everything in between is
+ * replaced. An edit usually touches one block, so this sends just that one.
+ */
+export function diffBlocks(previous: string[], next: string[]): BlockSplice {
+    let start = 0;
+    while (start < previous.length && start < next.length && previous[start] === next[start]) {
+        start++;
+    }
+
+    let previousEnd = previous.length;
+    let nextEnd = next.length;
+    while (previousEnd > start && nextEnd > start && previous[previousEnd - 1] === next[nextEnd - 1]) {
+        previousEnd--;
+        nextEnd--;
+    }
+
+    return {
+        start,
+        deleteCount: previousEnd - start,
+        blocks: next.slice(start, nextEnd)
+    };
+}
@@ -0,0 +1,342 @@
+// File: src/preview/charts.ts
+import type { ChartBlock, ChartDataSeries, ChartOptions } from 'omniscript-parser';
+import { getProperty } from '../model/documentModel';
+import type { BlockNode } from '../model/types';
+import { escapeHtml } from './html';
+import type { ThemePalette } from '../themes/themes';
+
+const WIDTH = 640;
+const HEIGHT = 360;
+const FONT = 'font-family="-apple-system, BlinkMacSystemFont, \'Segoe UI\', Roboto, sans-serif"';
+
+interface PlotArea {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+interface Scale {
+    min: number;
+    max: number;
+    ticks: number[];
+}
+
+interface LegendEntry {
+    label: string;
+    color: string;
+}
+
+/**
+ * Render a `@chart` block as an inline SVG string.
+ *
+ * Bar, line, area and scatter charts plot every series against the value
+ * index; pie charts show one slice per series (the sum of its values), or one
+ * slice per value when there is a single series. Colours come from
+ * `options.colors`, falling back to the theme palette. `node` is the chart's
+ * model block, which holds top-level `xAxis`, `yAxis` and `legend` properties.
+ */
+export function renderChartSVG(block: ChartBlock, palette: ThemePalette, node?: BlockNode): string {
+    const options = readChartOptions(block, node);
+    const series = (block.data ?? [])
+        .filter(s => Array.isArray(s?.values))
+        .map(s => ({ label: String(s.label ?? ''), values: s.values }));
+    const colors = (options.colors?.length ? options.colors : palette.series).map(c => escapeHtml(String(c)));
+    const colorAt = (index: number) => colors[index % colors.length];
+
+    if (series.length === 0 || series.every(s => s.values.length === 0)) {
+        return svg(block.title, palette, [
+            `<text x="${WIDTH / 2}" y="${HEIGHT / 2}" text-anchor="middle" fill="${palette.muted}" ${FONT} font-size="14">No chart data</text>`
+        ]);
+    }
+
+    if (block.chartType === 'pie') {
+        return renderPie(block, options, series, palette, colorAt);
+    }
+
+    const legend: LegendEntry[] = series.map((s, index) => ({ label: s.label, color: colorAt(index) }));
+    const showLegend = options.legend ?? series.length > 1;
+    const plot: PlotArea = {
+        left: options.yAxis ? 72 : 56,
+        top: 16,
+        width: 0,
+        height: 0
+    };
+    const bottom = 32 + (options.xAxis ? 20 : 0) + (showLegend ? 24 : 0);
+    plot.width = WIDTH - plot.left - 20;
+    plot.height = HEIGHT - plot.top - bottom;
+
+    const values = series.flatMap(s => s.values).filter(Number.isFinite);
+    const scale = niceScale(Math.min(0, ...values), Math.max(0, ...values));
+    const count = Math.max(...series.map(s => s.values.length));
+    const parts: string[] = [];
+
+    parts.push(...renderAxes(plot, scale, count, block.chartType === 'bar', options, palette));
+
+    switch (block.chartType) {
+        case 'line':
+        case 'area':
+            series.forEach((s, index) => parts.push(...renderLine(s, plot, scale, count, colorAt(index), block.chartType === 'area')));
+            break;
+        case 'scatter':
+            series.forEach((s, index) => parts.push(...renderPoints(s, plot, scale, count, colorAt(index), 4)));
+            break;
+        default:
+            parts.push(...renderBars(series, plot, scale, count, colorAt));
+            break;
+    }
+
+    if (showLegend) {
+        parts.push(...renderLegend(legend, HEIGHT - 14, palette));
+    }
+
+    return svg(block.title, palette, parts);
+}
+
+/**
+ * The chart's options, with top-level `xAxis`, `yAxis` and `legend`
+ * properties taking precedence. omniscript-parser only reads these inside
+ * `options`, although completion offers them at the top level.
+ */
+function readChartOptions(block: ChartBlock, node: BlockNode | undefined): ChartOptions {
+    const property = (key: string) => (node ? getProperty(node, key)?.value : undefined);
+    const xAxis = property('xAxis');
+    const yAxis = property('yAxis');
+    const legend = property('legend');
+    return {
+        ...block.options,
+        xAxis: typeof xAxis === 'string' ? xAxis : block.options?.xAxis,
+        yAxis: typeof yAxis === 'string' ? yAxis : block.options?.yAxis,
+        legend: typeof legend === 'boolean' ? legend : block.options?.legend
+    };
+}
+
+function svg(title: string, palette: ThemePalette, parts: string[]): string {
+    return `<svg class="chart-svg" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="100%" role="img" aria-label="${escapeHtml(title)}" xmlns="http://www.w3.org/2000/svg">`
+        + `<title>${escapeHtml(title)}</title>`
+        + `<rect width="${WIDTH}" height="${HEIGHT}" fill="${palette.background}"/>`
+        + parts.join('')
+        + '</svg>';
+}
+
+/**
+ * Round the value range out to tidy tick steps (1, 2, 2.5 or 5 × 10ⁿ).
+ */
+function niceScale(min: number, max: number): Scale {
+    if (min === max) {
+        max = min + 1;
+    }
+    const rough = (max - min) / 5;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+    const step = [1, 2, 2.5, 5, 10].map(m => m * magnitude).find(s => s >= rough)!;
+    const niceMin = Math.floor(min / step) * step;
+    const niceMax = Math.ceil(max / step) * step;
+
+    const ticks: number[] = [];
+    for (let tick = niceMin; tick <= niceMax + step / 2; tick += step) {
+        ticks.push(Number(tick.toPrecision(12)));
+    }
+    return { min: niceMin, max: niceMax, ticks };
+}
+
+function yFor(value: number, plot: PlotArea, scale: Scale): number {
+    return plot.top + plot.height - ((value - scale.min) / (scale.max - scale.min)) * plot.height;
+}
+
+/**
+ * X coordinate of the centre of the n-th category.
+ */
+function xFor(index: number, plot: PlotArea, count: number): number {
+    return plot.left + (plot.width / count) * (index + 0.5);
+}
+
+function formatTick(value: number): string {
+    return String(Number(value.toPrecision(6)));
+}
+
+function renderAxes(
+    plot: PlotArea,
+    scale: Scale,
+    count: number,
+    categorical: boolean,
+    options: ChartOptions,
+    palette: ThemePalette
+): string[] {
+    const parts: string[] = [];
+    const right = plot.left + plot.width;
+    const baseline = plot.top + plot.height;
+
+    for (const tick of scale.ticks) {
+        const y = yFor(tick, plot, scale);
+        parts.push(`<line x1="${plot.left}" y1="${y}" x2="${right}" y2="${y}" stroke="${palette.grid}" stroke-width="1"/>`);
+        parts.push(`<text x="${plot.left - 8}" y="${y + 4}" text-anchor="end" fill="${palette.muted}" ${FONT} font-size="11">${formatTick(tick)}</text>`);
+    }
+
+    const zero = yFor(Math.max(scale.min, Math.min(0, scale.max)), plot, scale);
+    parts.push(`<line x1="${plot.left}" y1="${zero}" x2="${right}" y2="${zero}" stroke="${palette.muted}" stroke-width="1"/>`);
+    parts.push(`<line x1="${plot.left}" y1="${plot.top}" x2="${plot.left}" y2="${baseline}" stroke="${palette.muted}" stroke-width="1"/>`);
+
+    for (let index = 0; index < count; index++) {
+        const x = xFor(index, plot, count);
+        parts.push(`<text x="${x}" y="${baseline + 18}" text-anchor="middle" fill="${palette.muted}" ${FONT} font-size="11">${index + 1}</text>`);
+        if (!categorical) {
+            parts.push(`<line x1="${x}" y1="${baseline}" x2="${x}" y2="${baseline + 4}" stroke="${palette.muted}" stroke-width="1"/>`);
+        }
+    }
+
+    if (options.xAxis) {
+        parts.push(`<text x="${plot.left + plot.width / 2}" y="${baseline + 38}" text-anchor="middle" fill="${palette.text}" ${FONT} font-size="12">${escapeHtml(String(options.xAxis))}</text>`);
+    }
+    if (options.yAxis) {
+        const cy = plot.top + plot.height / 2;
+        parts.push(`<text x="16" y="${cy}" text-anchor="middle" transform="rotate(-90 16 ${cy})" fill="${palette.text}" ${FONT} font-size="12">${escapeHtml(String(options.yAxis))}</text>`);
+    }
+
+    return parts;
+}
+
+function renderBars(
+    series: ChartDataSeries[],
+    plot: PlotArea,
+    scale: Scale,
+    count: number,
+    colorAt: (index: number) => string
+): string[] {
+    const parts: string[] = [];
+    const groupWidth = (plot.width / count) * 0.8;
+    const barWidth = groupWidth / series.length;
+    const zero = yFor(Math.max(scale.min, Math.min(0, scale.max)), plot, scale);
+
+    series.forEach((s, seriesIndex) => {
+        s.values.forEach((value, index) => {
+            if (!Number.isFinite(value)) {
+                return;
+            }
+            const x = xFor(index, plot, count) - groupWidth / 2 + seriesIndex * barWidth;
+            const y = yFor(value, plot, scale);
+            const top = Math.min(y, zero);
+            parts.push(
+                `<rect x="${x}" y="${top}" width="${Math.max(barWidth - 2, 1)}" height="${Math.abs(zero - y)}" fill="${colorAt(seriesIndex)}">`
+                + `<title>${escapeHtml(s.label)} · ${index + 1}: ${formatTick(value)}</title></rect>`
+            );
+        });
+    });
+
+    return parts;
+}
+
+function renderLine(
+    series: ChartDataSeries,
+    plot: PlotArea,
+    scale: Scale,
+    count: number,
+    color: string,
+    filled: boolean
+): string[] {
+    const points = series.values
+        .map((value, index) => ({ value, index }))
+        .filter(point => Number.isFinite(point.value))
+        .map(point => `${xFor(point.index, plot, count)},${yFor(point.value, plot, scale)}`);
+    if (points.length === 0) {
+        return [];
+    }
+
+    const parts: string[] = [];
+    if (filled) {
+        const zero = yFor(Math.max(scale.min, Math.min(0, scale.max)), plot, scale);
+        const first = points[0].split(',')[0];
+        const last = points[points.length - 1].split(',')[0];
+        parts.push(`<polygon points="${first},${zero} ${points.join(' ')} ${last},${zero}" fill="${color}" fill-opacity="0.25"/>`);
+    }
+    parts.push(`<polyline points="${points.join(' ')}" fill="none" stroke="${color}" stroke-width="2" stroke-linejoin="round"/>`);
+    parts.push(...renderPoints(series, plot, scale, count, color, 3));
+    return parts;
+}
+
+function renderPoints(
+    series: ChartDataSeries,
+    plot: PlotArea,
+    scale: Scale,
+    count: number,
+    color: string,
+    radius: number
+): string[] {
+    return series.values
+        .map((value, index) => Number.isFinite(value)
+            ? `<circle cx="${xFor(index, plot, count)}" cy="${yFor(value, plot, scale)}" r="${radius}" fill="${color}">`
+                + `<title>${escapeHtml(series.label)} · ${index + 1}: ${formatTick(value)}</title></circle>`
+            : '')
+        .filter(Boolean);
+}
+
+function renderPie(
+    block: ChartBlock,
+    options: ChartOptions,
+    series: ChartDataSeries[],
+    palette: ThemePalette,
+    colorAt: (index: number) => string
+): string {
+    const slices = series.length === 1 && series[0].values.length > 1
+        ? series[0].values.map((value, index) => ({ label: `${series[0].label} ${index + 1}`, value: Number.isFinite(value) ? value : 0 }))
+        : series.map(s => ({ label: s.label, value: s.values.filter(Number.isFinite).reduce((sum, v) => sum + v, 0) }));
+    const positive = slices.map(slice => ({ ...slice, value: Math.max(slice.value, 0) }));
+    const total = positive.reduce((sum, slice) => sum + slice.value, 0);
+
+    const showLegend = options.legend ?? true;
+    const cx = showLegend ? WIDTH / 2 - 90 : WIDTH / 2;
+    const cy = HEIGHT / 2;
+    const radius = HEIGHT / 2 - 24;
+    const parts: string[] = [];
+
+    if (total === 0) {
+        parts.push(`<circle cx="${cx}" cy="${cy}" r="${radius}" fill="${palette.grid}"/>`);
+    }
+
+    let angle = -Math.PI / 2;
+    positive.forEach((slice, index) => {
+        if (slice.value === 0) {
+            return;
+        }
+        const sweep = (slice.value / total) * Math.PI * 2;
+        const tooltip = `<title>${escapeHtml(slice.label)}: ${formatTick(slice.value)} (${formatTick((slice.value / total) * 100)}%)</title>`;
+
+        if (sweep >= Math.PI * 2 - 1e-9) {
+            parts.push(`<circle cx="${cx}" cy="${cy}" r="${radius}" fill="${colorAt(index)}">${tooltip}</circle>`);
+        } else {
+            const x1 = cx + radius * Math.cos(angle);
+            const y1 = cy + radius * Math.sin(angle);
+            const x2 = cx + radius * Math.cos(angle + sweep);
+            const y2 = cy + radius * Math.sin(angle + sweep);
+            const largeArc = sweep > Math.PI ? 1 : 0;
+            parts.push(
+                `<path d="M ${cx} ${cy} L ${x1} ${y1} A ${radius} ${radius} 0 ${largeArc} 1 ${x2} ${y2} Z" fill="${colorAt(index)}" stroke="${palette.background}" stroke-width="2">${tooltip}</path>`
+            );
+        }
+        angle += sweep;
+    });
+
+    if (showLegend) {
+        const x = cx + radius + 32;
+        positive.forEach((slice, index) => {
+            const y = cy - (positive.length * 22) / 2 + index * 22 + 11;
+            parts.push(`<rect x="${x}" y="${y - 10}" width="12" height="12" fill="${colorAt(index)}"/>`);
+            parts.push(`<text x="${x + 18}" y="${y}" fill="${palette.text}" ${FONT} font-size="12">${escapeHtml(slice.label)}</text>`);
+        });
+    }
+
+    return svg(block.title, palette, parts);
+}
+
+function renderLegend(entries: LegendEntry[], y: number, palette: ThemePalette): string[] {
+    const parts: string[] = [];
+    const widths = entries.map(entry => 28 + entry.label.length * 7);
+    let x = (WIDTH - widths.reduce((sum, w) => sum + w, 0)) / 2;
+
+    entries.forEach((entry, index) => {
+        parts.push(`<rect x="${x}" y="${y - 10}" width="12" height="12" fill="${entry.color}"/>`);
+        parts.push(`<text x="${x + 18}" y="${y}" fill="${palette.text}" ${FONT} font-size="12">${escapeHtml(entry.label)}</text>`);
+        x += widths[index];
+    });
+
+    return parts;
+}
@@ -0,0 +1,71 @@
+// File: src/preview/codeHighlight.ts
+import hljs from 'highlight.js/lib/common';
+import { escapeHtml } from './html';
+
+/**
+ * Options of a rendered `@code` block.
+ */
+export interface CodeRenderOptions {
+    lineNumbers?: boolean;
+    /** One-based lines to emphasise. */
+    highlight?: number[];
+}
+
+/**
+ * Highlight source code with the bundled highlight.js grammars, which cover
+ * the common languages and work offline. Code in an unknown language is only
+ * escaped.
+ */
+export function highlightCode(code: string, language: string | undefined): string {
+    if (language && hljs.getLanguage(language)) {
+        return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+    }
+    return escapeHtml(code);
+}
+
+/**
+ * Render code as one element per line, so lines can carry a number in the
+ * gutter and be emphasised.
+ */
+export function renderCodeLines(code: string, language: string | undefined, options: CodeRenderOptions = {}): string {
+    const highlighted = new Set(options.highlight ?? []);
+    const lines = splitHighlightedLines(highlightCode(code.replace(/\r?\n$/, ''), language));
+
+    const body = lines
+        .map((line, i) => {
+            const className = highlighted.has(i + 1) ? 'code-line highlighted' : 'code-line';
+            return `<span class="${className}" data-line-number="${i + 1}">${line}</span>`;
+        })
+        .join('');
+
+    const preClass = options.lineNumbers ? 'code-lines line-numbers' : 'code-lines';
+    const languageClass = language ? ` language-${escapeHtml(language)}` : '';
+    return `<pre class="${preClass}"><code class="hljs${languageClass}">${body}</code></pre>`;
+}
+
+/**
+ * Split highlighted HTML into lines. A token can span several lines (block
+ * comments, template strings), so the spans open at a line break are closed
+ * at the end of the line and reopened on the next one.
+ */
+function splitHighlightedLines(html: string): string[] {
+    const lines: string[] = [];
+    const open: string[] = [];
+    let line = '';
+
+    for (const part of html.split(/(<span[^>]*>|<\/span>|\n)/)) {
+        if (part === '\n') {
+            lines.push(line + '</span>'.repeat(open.length));
+            line = open.join('');
+        } else {
+            if (part.startsWith('<span')) {
+                open.push(part);
+            } else if (part === '</span>') {
+                open.pop();
+            }
+            line += part;
+        }
+    }
+    lines.push(line);
+    return lines;
+}
@@ -0,0 +1,218 @@
+// File: src/preview/content.ts
+import MarkdownIt from 'markdown-it';
+import type { ContentBlock, TextRun, Link as OSFLink, Image as OSFImage } from 'omniscript-parser';
+import { highlightCode } from './codeHighlight';
+import { escapeHtml } from './html';
+
+/**
+ * CommonMark renderer for `@doc` content and slide text, with GitHub-style
+ * tables, strikethrough and autolinks.
+ *
+ * Raw HTML in the source is escaped instead of passed through (`html: false`)
+ * and markdown-it drops `javascript:`, `vbscript:`, `file:` and non-image
+ * `data:` URLs, so rendered Markdown can neither run script nor load anything
+ * the preview's CSP does not already allow.
+ */
+const markdown = new MarkdownIt('default', {
+    html: false,
+    linkify: true,
+    highlight: (code, language) => highlightCode(code, language)
+});
+
+// Links open outside the webview, like links in slide content always did
+markdown.renderer.rules.link_open = (tokens, idx, options, _env, self) => {
+    tokens[idx].attrSet('class', 'link');
+    tokens[idx].attrSet('target', '_blank');
+    tokens[idx].attrSet('rel', 'noopener noreferrer');
+    return self.renderToken(tokens, idx, options);
+};
+
+// OSF reads `__text__` as underline rather than bold
+markdown.renderer.rules.strong_open = (tokens, idx, options, _env, self) =>
+    tokens[idx].markup === '__' ? '<span class="underline">' : self.renderToken(tokens, idx, options);
+markdown.renderer.rules.strong_close = (tokens, idx, options, _env, self) =>
+    tokens[idx].markup === '__' ? '</span>' : self.renderToken(tokens, idx, options);
+
+// Markdown tables share the look of `@table` blocks
+markdown.renderer.rules.table_open = (tokens, idx, options, _env, self) => {
+    tokens[idx].attrSet('class', 'osf-table bordered');
+    return self.renderToken(tokens, idx, options);
+};
+
+/**
+ * Render the Markdown content of a `@doc` block.
+ */
+export function convertMarkdownToHTML(text: string): string {
+    return markdown.render(dedent(text));
+}
+
+/**
+ * Render the content of a `@slide`. The parser splits slide text into one
+ * paragraph per line, so consecutive paragraphs are joined back into Markdown
+ * source and rendered together; this keeps multi-line paragraphs, tables,
+ * headings and rules intact.
+ */
+export function renderSlideContentHTML(contentBlocks: ContentBlock[]): string {
+    let html = '';
+    let paragraphs: string[] = [];
+
+    const flushParagraphs = () => {
+        if (paragraphs.length > 0) {
+            html += markdown.render(paragraphs.join('\n'));
+            paragraphs = [];
+        }
+    };
+
+    for (const block of contentBlocks) {
+        if (block.type === 'paragraph') {
+            paragraphs.push(runsToMarkdown(block.content));
+            continue;
+        }
+        flushParagraphs();
+
+        if (block.type === 'unordered_list') {
+            html += '<ul class="slide-bullets">';
+            for (const item of block.items) {
+                html += `<li>${markdown.renderInline(runsToMarkdown(item.content))}</li>`;
+            }
+            html += '</ul>';
+        } else if (block.type === 'ordered_list') {
+            html += '<ol class="slide-bullets">';
+            for (const item of block.items) {
+                html += `<li>${markdown.renderInline(runsToMarkdown(item.content))}</li>`;
+            }
+            html += '</ol>';
+        } else if (block.type === 'blockquote') {
+            html += '<blockquote>';
+            for (const paragraph of block.content) {
+                html += `<p>${markdown.renderInline(runsToMarkdown(paragraph.content))}</p>`;
+            }
+            html += '</blockquote>';
+        } else if (block.type === 'code') {
+            const language = block.language ? ` class="hljs language-${escapeHtml(block.language)}"` : '';
+            html += `<pre><code${language}>${highlightCode(dedent(block.content, false), block.language)}</code></pre>`;
+        } else if (block.type === 'image') {
+            html += markdown.renderInline(`![${escapeMarkdown(block.alt)}](${formatDestination(block.url)})`);
+        }
+    }
+    flushParagraphs();
+
+    return html;
+}
+
+/**
+ * Markdown source of the content of a `@slide`, for Markdown export.
+ */
+export function renderSlideContentMarkdown(contentBlocks: ContentBlock[]): string {
+    const parts: string[] = [];
+    let paragraphs: string[] = [];
+
+    const flushParagraphs = () => {
+        if (paragraphs.length > 0) {
+            parts.push(paragraphs.join('\n'));
+            paragraphs = [];
+        }
+    };
+
+    for (const block of contentBlocks) {
+        if (block.type === 'paragraph') {
+            paragraphs.push(runsToMarkdown(block.content));
+            continue;
+        }
+        flushParagraphs();
+
+        if (block.type === 'unordered_list') {
+            parts.push(block.items.map(item => `- ${runsToMarkdown(item.content)}`).join('\n'));
+        } else if (block.type === 'ordered_list') {
+            parts.push(block.items.map((item, i) => `${i + 1}. ${runsToMarkdown(item.content)}`).join('\n'));
+        } else if (block.type === 'blockquote') {
+            parts.push(block.content.map(paragraph => `> ${runsToMarkdown(paragraph.content)}`).join('\n>\n'));
+        } else if (block.type === 'code') {
+            parts.push(fenceCode(dedent(block.content, false), block.language));
+        } else if (block.type === 'image') {
+            parts.push(`![${escapeMarkdown(block.alt)}](${formatDestination(block.url)})`);
+        }
+    }
+    flushParagraphs();
+
+    return parts.join('\n\n');
+}
+
+/**
+ * Fenced code block, with a fence longer than any backtick run in the code.
+ */
+export function fenceCode(code: string, language = ''): string {
+    const longest = Math.max(2, ...(code.match(/`+/g) ?? []).map(run => run.length));
+    const fence = '`'.repeat(longest + 1);
+    return `${fence}${language}\n${code.replace(/\n$/, '')}\n${fence}`;
+}
+
+/**
+ * Turn parsed text runs back into Markdown source, so that the rest of the
+ * line (inline code, autolinks, escapes) is rendered by markdown-it too.
+ */
+function runsToMarkdown(runs: TextRun[]): string {
+    return runs
+        .map((run) => {
+            if (typeof run === 'string') {
+                return run;
+            }
+            if (isLinkRun(run)) {
+                return `[${escapeMarkdown(run.text || '')}](${formatDestination(run.url || '#')})`;
+            }
+            if (isImageRun(run)) {
+                return `![${escapeMarkdown(run.alt || '')}](${formatDestination(run.url || '')})`;
+            }
+            let content = run.text || '';
+            if (run.strike) {
+                content = `~~${content}~~`;
+            }
+            if (run.underline) {
+                content = `__${content}__`;
+            }
+            if (run.italic) {
+                content = `*${content}*`;
+            }
+            if (run.bold) {
+                content = `**${content}**`;
+            }
+            return content;
+        })
+        .join('');
+}
+
+function isLinkRun(run: TextRun): run is OSFLink {
+    return typeof run === 'object' && run !== null && 'type' in run && run.type === 'link';
+}
+
+function isImageRun(run: TextRun): run is OSFImage {
+    return typeof run === 'object' && run !== null && 'type' in run && run.type === 'image';
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/[\\[\]]/g, '\\$&');
+}
+
+/** Link destination, in angle brackets when it contains spaces or parentheses. */
+function formatDestination(url: string): string {
+    return /[\s()]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+}
+
+/**
+ * Remove the indentation the block body has in the OSF source, which would
+ * otherwise turn it into an indented code block. The parser trims the first
+ * line of a `@doc` body, so by default that line is not measured.
+ */
+export function dedent(text: string, firstLineTrimmed = true): string {
+    const lines = text.split(/\r?\n/);
+    const measured = firstLineTrimmed ? lines.slice(1) : lines;
+    const indents = measured.filter(line => line.trim()).map(getIndent);
+    const indent = indents.length > 0 ? Math.min(...indents) : 0;
+    return lines
+        .map((line, i) => (i === 0 && firstLineTrimmed ? line : line.slice(Math.min(indent, getIndent(line)))))
+        .join('\n');
+}
+
+function getIndent(line: string): number {
+    return /^[ \t]*/.exec(line)![0].length;
+}
@@ -0,0 +1,61 @@
+// File: src/preview/diagrams.ts
+import type { DiagramBlock } from 'omniscript-parser';
+import { getProperty } from '../model/documentModel';
+import type { DocumentModel, Range } from '../model/types';
+import { escapeHtml } from './html';
+
+/**
+ * Placeholder for a `@diagram` block. `media/diagrams.js` replaces the source
+ * with the rendered SVG, or shows the renderer's error message below it.
+ */
+export function renderDiagramHTML(block: DiagramBlock): string {
+    const engine = block.engine === 'graphviz' ? 'graphviz' : 'mermaid';
+
+    let html = `<div class="block block-diagram">`;
+    if (block.title) {
+        html += `<h3 class="diagram-title">${escapeHtml(block.title)}</h3>`;
+    }
+    html += `<div class="diagram" data-engine="${engine}">`;
+    html += '<div class="diagram-output"></div>';
+    html += `<pre class="diagram-source">${escapeHtml(block.code)}</pre>`;
+    html += '<p class="diagram-error" hidden></p>';
+    html += '</div></div>';
+    return html;
+}
+
+/**
+ * Find where a diagram error belongs in the source document: the line of the
+ * `code` property named by the message ("Parse error on line 3", "syntax error
+ * in line 3 near ..."), or the whole `code` value when no line is given.
+ * Returns undefined for diagrams that do not come from this document, e.g.
+ * ones pulled in through `@include`.
+ */
+export function locateDiagramError(model: DocumentModel, code: string, message: string): Range | undefined {
+    const property = model.blocks
+        .filter(block => block.type === 'diagram')
+        .map(block => getProperty(block, 'code'))
+        .find(candidate => candidate?.value === code);
+    if (!property) {
+        return undefined;
+    }
+
+    const match = /\bline (\d+)/i.exec(message);
+    if (!match) {
+        return property.valueRange;
+    }
+
+    const line = property.valueRange.start.line + parseInt(match[1], 10) - 1;
+    if (line > property.valueRange.end.line) {
+        return property.valueRange;
+    }
+
+    const text = model.index.lineText(line);
+    const start = line === property.valueRange.start.line
+        ? property.valueRange.start.character + 1
+        : text.length - text.trimStart().length;
+    const end = line === property.valueRange.end.line ? property.valueRange.end.character - 1 : text.trimEnd().length;
+    return {
+        start: { line, character: start },
+        end: { line, character: Math.max(end, start) }
+    };
+}
@@ -0,0 +1,135 @@
+// File: src/preview/previewManager.ts
+import * as vscode from 'vscode';
+import type { ThemeRegistry } from '../themes/themeRegistry';
+import { getPreviewWebviewOptions, PREVIEW_VIEW_TYPE, PreviewPanel, type PreviewState } from './previewPanel';
+
+/**
+ * Owns every open OSF preview: keeps one panel per document, moves unlocked
+ * previews to the active OSF editor and restores previews after a reload.
+ */
+export class PreviewManager implements vscode.WebviewPanelSerializer, vscode.Disposable {
+    private readonly previews = new Set<PreviewPanel>();
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly diagramDiagnostics = vscode.languages.createDiagnosticCollection('osf-diagrams');
+    // Preview whose panel was focused last, for the lock toggle
+    private activePreview: PreviewPanel | undefined;
+
+    constructor(private readonly extensionUri: vscode.Uri, private readonly themes: ThemeRegistry) {
+        this.disposables.push(this.diagramDiagnostics);
+        this.disposables.push(vscode.window.onDidChangeActiveTextEditor(editor => {
+            if (editor?.document.languageId === 'osf') {
+                this.followEditor(editor.document);
+            }
+        }));
+    }
+
+    /**
+     * Show the preview of a document, reusing the panel that already shows it.
+     * Otherwise an unlocked request reuses the unlocked preview, if any, and a
+     * locked one always opens a new panel.
+     */
+    showPreview(document: vscode.TextDocument, locked: boolean): void {
+        const existing = this.findPreview(document.uri);
+        if (existing) {
+            if (locked && !existing.isLocked) {
+                existing.setLocked(true);
+            }
+            existing.reveal();
+            return;
+        }
+
+        const unlocked = locked ? undefined : [...this.previews].find(preview => !preview.isLocked);
+        if (unlocked) {
+            unlocked.showDocument(document);
+            unlocked.reveal();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            PREVIEW_VIEW_TYPE,
+            'Preview',
+            { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+            { ...getPreviewWebviewOptions(this.extensionUri), retainContextWhenHidden: true }
+        );
+        this.track(new PreviewPanel(panel, this.extensionUri, document, locked, this.diagramDiagnostics, this.themes));
+    }
+
+    /**
+     * Lock the focused preview to its document, or unlock it so it follows the
+     * active editor again.
+     */
+    toggleLock(): void {
+        const preview = this.activePreview ?? (this.previews.size === 1 ? [...this.previews][0] : undefined);
+        if (!preview) {
+            return;
+        }
+        preview.setLocked(!preview.isLocked);
+
+        const editor = vscode.window.activeTextEditor;
+        if (!preview.isLocked && editor?.document.languageId === 'osf') {
+            this.followEditor(editor.document);
+        }
+    }
+
+    /**
+     * Re-render every preview from scratch, e.g. after a theme file changed.
+     */
+    refresh(): void {
+        this.previews.forEach(preview => preview.update(true));
+    }
+
+    async deserializeWebviewPanel(panel: vscode.WebviewPanel, state: PreviewState | undefined): Promise<void> {
+        if (!state?.resource) {
+            panel.dispose();
+            return;
+        }
+
+        let document: vscode.TextDocument;
+        try {
+            document = await vscode.workspace.openTextDocument(vscode.Uri.parse(state.resource));
+        } catch {
+            // The file is gone
+            panel.dispose();
+            return;
+        }
+
+        panel.webview.options = getPreviewWebviewOptions(this.extensionUri);
+        this.track(new PreviewPanel(panel, this.extensionUri, document, state.locked, this.diagramDiagnostics, this.themes, state.line));
+    }
+
+    dispose(): void {
+        this.previews.forEach(preview => preview.dispose());
+        this.previews.clear();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private track(preview: PreviewPanel): void {
+        this.previews.add(preview);
+        if (preview.panel.active) {
+            this.activePreview = preview;
+        }
+
+        preview.panel.onDidChangeViewState(event => {
+            if (event.webviewPanel.active) {
+                this.activePreview = preview;
+            }
+        });
+        preview.onDidDispose(() => {
+            this.previews.delete(preview);
+            if (this.activePreview === preview) {
+                this.activePreview = undefined;
+            }
+        });
+    }
+
+    private followEditor(document: vscode.TextDocument): void {
+        if (this.findPreview(document.uri)) {
+            return;
+        }
+        [...this.previews].find(preview => !preview.isLocked)?.showDocument(document);
+    }
+
+    private findPreview(resource: vscode.Uri): PreviewPanel | undefined {
+        return [...this.previews].find(preview => preview.resource.toString() === resource.toString());
+    }
+}
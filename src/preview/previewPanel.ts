@@ -0,0 +1,335 @@
+// File: src/preview/previewPanel.ts
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { parse, type DiagramBlock, type OSFDocument } from 'omniscript-parser';
+import { getParsedBlockNodes, parseDocumentModel } from '../model/documentModel';
+import { diffBlocks } from './blockDiff';
+import { locateDiagramError } from './diagrams';
+import { getNonce } from './html';
+import {
+    generateErrorHTML,
+    generatePreviewHTML,
+    renderPreviewContent,
+    type PreviewContent,
+    type PreviewScripts
+} from './renderer';
+import { getBlockSourceLines, type SourceLines } from './sourceMap';
+import type { ThemeRegistry } from '../themes/themeRegistry';
+import type { ThemeDefinition } from '../themes/themes';
+
+export const PREVIEW_VIEW_TYPE = 'osfPreview';
+
+/**
+ * Webview state saved by `media/preview.js`, used to restore the preview
+ * after a window reload.
+ */
+export interface PreviewState {
+    resource: string;
+    locked: boolean;
+    line?: number;
+}
+
+interface DiagramError {
+    index: number;
+    message: string;
+}
+
+/**
+ * What the webview currently shows. Updates are diffed against `blocks`; a
+ * different theme, or the first diagram, needs a new shell instead.
+ */
+interface ShownPreview {
+    theme: ThemeDefinition;
+    diagrams: boolean;
+    blocks: string[];
+}
+
+/** Quiet time after the last keystroke before the preview re-renders. */
+const UPDATE_DELAY_MS = 250;
+
+/**
+ * Webview options of a preview panel; also applied to panels restored by the
+ * serializer, which come back without them.
+ */
+export function getPreviewWebviewOptions(extensionUri: vscode.Uri): vscode.WebviewOptions {
+    return {
+        enableScripts: true,
+        localResourceRoots: [
+            vscode.Uri.joinPath(extensionUri, 'media'),
+            vscode.Uri.joinPath(extensionUri, 'node_modules', 'mermaid', 'dist'),
+            vscode.Uri.joinPath(extensionUri, 'node_modules', '@viz-js', 'viz', 'dist')
+        ]
+    };
+}
+
+/**
+ * Live preview of one OSF document in a webview panel. A locked preview stays
+ * on its document; an unlocked one is moved to whichever OSF document becomes
+ * active by the `PreviewManager`.
+ */
+export class PreviewPanel {
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly disposeEmitter = new vscode.EventEmitter<void>();
+    private readonly scripts: PreviewScripts;
+    private document: vscode.TextDocument;
+    private locked: boolean;
+    // Diagram sources of the last render, in the order they appear in the preview
+    private renderedDiagrams: DiagramBlock[] = [];
+    private diagramsVersion = 0;
+    private shown: ShownPreview | undefined;
+    // Bumped on every render; the webview drops updates older than what it shows
+    private version = 0;
+    private updateTimer: NodeJS.Timeout | undefined;
+    // Source line at the top of the preview, restored when the shell is reloaded
+    private previewLine: number;
+    // Editor scrolls caused by the preview are not echoed back to it
+    private ignoreEditorScrollUntil = 0;
+    private disposed = false;
+
+    readonly onDidDispose = this.disposeEmitter.event;
+
+    constructor(
+        readonly panel: vscode.WebviewPanel,
+        extensionUri: vscode.Uri,
+        document: vscode.TextDocument,
+        locked: boolean,
+        private readonly diagramDiagnostics: vscode.DiagnosticCollection,
+        private readonly themes: ThemeRegistry,
+        line?: number
+    ) {
+        this.document = document;
+        this.locked = locked;
+        this.previewLine = line ?? this.getSourceEditor()?.visibleRanges[0]?.start.line ?? 0;
+
+        const asWebviewUri = (...segments: string[]) =>
+            panel.webview.asWebviewUri(vscode.Uri.joinPath(extensionUri, ...segments)).toString();
+        this.scripts = {
+            preview: asWebviewUri('media', 'preview.js'),
+            scrollSync: asWebviewUri('media', 'scrollSync.js'),
+            mermaid: asWebviewUri('node_modules', 'mermaid', 'dist', 'mermaid.min.js'),
+            viz: asWebviewUri('node_modules', '@viz-js', 'viz', 'dist', 'viz-global.js'),
+            diagrams: asWebviewUri('media', 'diagrams.js')
+        };
+
+        // Auto-refresh on document change, once typing pauses; a newer edit
+        // cancels the pending render
+        this.disposables.push(vscode.workspace.onDidChangeTextDocument(event => {
+            if (event.document.uri.toString() !== this.resource.toString()) {
+                return;
+            }
+            this.document = event.document;
+            if (vscode.workspace.getConfiguration('osf').get('preview.autoRefresh', true)) {
+                clearTimeout(this.updateTimer);
+                this.updateTimer = setTimeout(() => this.update(), UPDATE_DELAY_MS);
+            }
+        }));
+
+        // Scroll the preview along with the editor
+        this.disposables.push(vscode.window.onDidChangeTextEditorVisibleRanges(event => {
+            if (event.textEditor.document.uri.toString() !== this.resource.toString() || event.visibleRanges.length === 0) {
+                return;
+            }
+            const config = vscode.workspace.getConfiguration('osf');
+            if (!config.get('preview.scrollPreviewWithEditor', true) || Date.now() < this.ignoreEditorScrollUntil) {
+                return;
+            }
+            this.previewLine = event.visibleRanges[0].start.line;
+            this.panel.webview.postMessage({ command: 'scrollToLine', line: this.previewLine });
+        }));
+
+        this.disposables.push(panel.webview.onDidReceiveMessage(message => this.onMessage(message)));
+        this.disposables.push(panel.onDidDispose(() => this.dispose()));
+
+        this.updateTitle();
+        this.update();
+    }
+
+    get resource(): vscode.Uri {
+        return this.document.uri;
+    }
+
+    get isLocked(): boolean {
+        return this.locked;
+    }
+
+    setLocked(locked: boolean): void {
+        this.locked = locked;
+        this.updateTitle();
+        this.update(true);
+    }
+
+    /**
+     * Show another document in this panel.
+     */
+    showDocument(document: vscode.TextDocument): void {
+        if (document.uri.toString() === this.resource.toString()) {
+            return;
+        }
+        this.diagramDiagnostics.delete(this.resource);
+        this.document = document;
+        this.previewLine = this.getSourceEditor()?.visibleRanges[0]?.start.line ?? 0;
+        this.updateTitle();
+        this.update(true);
+    }
+
+    reveal(viewColumn?: vscode.ViewColumn): void {
+        this.panel.reveal(viewColumn, true);
+    }
+
+    dispose(): void {
+        if (this.disposed) {
+            return;
+        }
+        this.disposed = true;
+        clearTimeout(this.updateTimer);
+        this.diagramDiagnostics.delete(this.resource);
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables.length = 0;
+        this.disposeEmitter.fire();
+        this.disposeEmitter.dispose();
+        this.panel.dispose();
+    }
+
+    /**
+     * Render the document and send the webview only the blocks that changed.
+     * `reload` replaces the whole shell instead.
+     */
+    update(reload = false): void {
+        clearTimeout(this.updateTimer);
+        this.updateTimer = undefined;
+        this.version++;
+
+        const text = this.document.getText();
+        const config = vscode.workspace.getConfiguration('osf');
+        const themeSetting = config.get<string>('preview.theme');
+        const resolveIncludes = config.get('preview.resolveIncludes', true);
+
+        let document: OSFDocument;
+        try {
+            const parseOptions = resolveIncludes
+                ? { resolveIncludes: true, basePath: path.dirname(this.document.uri.fsPath) }
+                : {};
+            document = parse(text, parseOptions);
+        } catch (error: any) {
+            const problems = parseDocumentModel(text).errors.filter(e => e.severity === 'error');
+            const errorHTML = generateErrorHTML(error?.message || 'Preview failed', problems);
+            if (this.shown && !reload) {
+                // Keep the last good render on screen below the error
+                this.panel.webview.postMessage({ command: 'error', html: errorHTML });
+            } else {
+                const theme = this.shown?.theme ?? this.themes.resolve(themeSetting);
+                this.showShell({ title: 'OSF Preview', header: '', blocks: [], diagramCount: 0 }, [], theme, errorHTML);
+            }
+            return;
+        }
+
+        const model = parseDocumentModel(text);
+        const themes = this.themes.resolveThemes(document, model, themeSetting);
+        const theme = themes.document;
+        const content = renderPreviewContent(document, themes, getParsedBlockNodes(document, model));
+        const sourceLines = getBlockSourceLines(document, model);
+        this.renderedDiagrams = document.blocks.filter((block): block is DiagramBlock => block.type === 'diagram');
+        this.diagramsVersion = this.version;
+        if (this.renderedDiagrams.length === 0) {
+            this.diagramDiagnostics.delete(this.resource);
+        }
+
+        const shown = this.shown;
+        if (reload || !shown || shown.theme !== theme || (content.diagramCount > 0 && !shown.diagrams)) {
+            this.showShell(content, sourceLines, theme);
+            return;
+        }
+
+        this.panel.webview.postMessage({
+            command: 'update',
+            version: this.version,
+            title: content.title,
+            header: content.header,
+            splice: diffBlocks(shown.blocks, content.blocks),
+            lines: sourceLines.map(lines => lines ?? null)
+        });
+        shown.blocks = content.blocks;
+    }
+
+    private showShell(content: PreviewContent, sourceLines: (SourceLines | undefined)[], theme: ThemeDefinition, errorHTML = ''): void {
+        const state: PreviewState = { resource: this.resource.toString(), locked: this.locked };
+        this.panel.webview.html = generatePreviewHTML(
+            content,
+            sourceLines,
+            this.version,
+            this.previewLine,
+            state,
+            theme,
+            getNonce(),
+            this.panel.webview.cspSource,
+            this.scripts,
+            errorHTML
+        );
+        this.shown = { theme, diagrams: content.diagramCount > 0, blocks: content.blocks };
+    }
+
+    private onMessage(message: any): void {
+        if (message.command === 'refresh') {
+            this.update(true);
+        } else if (message.command === 'diagramErrors' && message.version === this.diagramsVersion) {
+            this.reportDiagramErrors(message.errors as DiagramError[]);
+        } else if (message.command === 'previewScrolled') {
+            this.previewLine = this.clampLine(message.line);
+            const config = vscode.workspace.getConfiguration('osf');
+            const sourceEditor = this.getSourceEditor();
+            if (sourceEditor && config.get('preview.scrollEditorWithPreview', true)) {
+                this.ignoreEditorScrollUntil = Date.now() + 100;
+                sourceEditor.revealRange(
+                    new vscode.Range(this.previewLine, 0, this.previewLine, 0),
+                    vscode.TextEditorRevealType.AtTop
+                );
+            }
+        } else if (message.command === 'openSource') {
+            const line = this.clampLine(message.line);
+            vscode.window.showTextDocument(this.document, {
+                viewColumn: this.getSourceEditor()?.viewColumn ?? vscode.ViewColumn.One,
+                selection: new vscode.Range(line, 0, line, 0)
+            });
+        }
+    }
+
+    /**
+     * Show diagram render errors from the webview as diagnostics on the matching
+     * lines of the `@diagram` block.
+     */
+    private reportDiagramErrors(errors: DiagramError[]): void {
+        const model = parseDocumentModel(this.document.getText());
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        for (const error of errors) {
+            const diagram = this.renderedDiagrams[error.index];
+            const range = diagram ? locateDiagramError(model, diagram.code, error.message) : undefined;
+            if (!range) {
+                continue;
+            }
+            const diagnostic = new vscode.Diagnostic(
+                new vscode.Range(range.start.line, range.start.character, range.end.line, range.end.character),
+                `${diagram.engine === 'graphviz' ? 'Graphviz' : 'Mermaid'}: ${error.message.split('\n')[0]}`,
+                vscode.DiagnosticSeverity.Error
+            );
+            diagnostic.source = 'osf';
+            diagnostics.push(diagnostic);
+        }
+
+        this.diagramDiagnostics.set(this.resource, diagnostics);
+    }
+
+    private updateTitle(): void {
+        const name = path.basename(this.resource.fsPath);
+        this.panel.title = this.locked ? `[Locked] Preview: ${name}` : `Preview: ${name}`;
+    }
+
+    private getSourceEditor(): vscode.TextEditor | undefined {
+        return vscode.window.visibleTextEditors.find(e => e.document.uri.toString() === this.resource.toString());
+    }
+
+    private clampLine(line: unknown): number {
+        const value = Math.floor(Number(line));
+        return Number.isFinite(value) ? Math.max(0, Math.min(this.document.lineCount - 1, value)) : 0;
+    }
+}
@@ -0,0 +1,492 @@
+// File: src/preview/renderer.ts
+import type {
+    ChartBlock,
+    DiagramBlock,
+    DocBlock,
+    MetaBlock,
+    OSFCodeBlock,
+    OSFDocument,
+    SheetBlock,
+    SlideBlock,
+    TableBlock
+} from 'omniscript-parser';
+import { cellsFromSheetBlock, evaluateSheet, formatCellValue } from '../formula/evaluator';
+import { toCellRef } from '../model/cellRef';
+import type { BlockNode, ModelError } from '../model/types';
+import { renderChartSVG } from './charts';
+import { renderCodeLines } from './codeHighlight';
+import { convertMarkdownToHTML, renderSlideContentHTML } from './content';
+import { renderDiagramHTML } from './diagrams';
+import { escapeHtml } from './html';
+import { wrapWithSourceLines, type SourceLines } from './sourceMap';
+import type { ResolvedThemes } from '../themes/themeRegistry';
+import { getThemeVariables, type ThemeDefinition, type ThemePalette } from '../themes/themes';
+
+/**
+ * Webview URIs of the preview's scripts: incremental updates, scroll sync,
+ * and the renderers that draw `@diagram` blocks.
+ */
+export interface PreviewScripts {
+    preview: string;
+    scrollSync: string;
+    mermaid: string;
+    viz: string;
+    diagrams: string;
+}
+
+/**
+ * Rendered HTML of a document, one entry per parsed block.
+ */
+export interface PreviewContent {
+    title: string;
+    header: string;
+    blocks: string[];
+    diagramCount: number;
+}
+
+/**
+ * Render the header and every block of a parsed OSF document. A block whose
+ * theme differs from the document's is wrapped in an element that overrides
+ * the theme's CSS custom properties. `nodes` holds the model block of each
+ * block, indexed like `document.blocks`, for properties the parser drops.
+ */
+export function renderPreviewContent(
+    document: OSFDocument,
+    themes: ResolvedThemes,
+    nodes: (BlockNode | undefined)[]
+): PreviewContent {
+    const metaBlock = document.blocks.find((block): block is MetaBlock => block.type === 'meta');
+    let diagramCount = 0;
+
+    const blocks = document.blocks.map((block, i) => {
+        const theme = themes.blocks[i] ?? themes.document;
+        const html = renderBlock(block, theme.palette, nodes[i]);
+        if (block.type === 'diagram') {
+            diagramCount++;
+        }
+        return theme === themes.document || !html
+            ? html
+            : `<div class="themed-block" style="${escapeHtml(getThemeVariables(theme))}">${html}</div>`;
+    });
+
+    let header = `<h1>${escapeHtml(metaBlock?.props?.title ? String(metaBlock.props.title) : 'Untitled Document')}</h1>`;
+    if (metaBlock?.props?.author) {
+        header += `<p class="author">By ${escapeHtml(String(metaBlock.props.author))}</p>`;
+    }
+    if (metaBlock?.props?.date) {
+        header += `<p class="date">${escapeHtml(String(metaBlock.props.date))}</p>`;
+    }
+
+    return {
+        title: metaBlock?.props?.title ? String(metaBlock.props.title) : 'OSF Preview',
+        header,
+        blocks,
+        diagramCount
+    };
+}
+
+function renderBlock(block: OSFDocument['blocks'][number], palette: ThemePalette, node: BlockNode | undefined): string {
+    switch (block.type) {
+        case 'meta':
+            return '';
+        case 'doc':
+            return generateDocHTML(block as DocBlock);
+        case 'slide':
+            return generateSlideHTML(block as SlideBlock);
+        case 'sheet':
+            return generateSheetHTML(block as SheetBlock);
+        case 'table':
+            return generateTableHTML(block as TableBlock);
+        case 'chart':
+            return generateChartHTML(block as ChartBlock, palette, node);
+        case 'diagram':
+            return renderDiagramHTML(block as DiagramBlock);
+        case 'osfcode':
+            return generateCodeHTML(block as OSFCodeBlock);
+        default: {
+            const fallbackType = (block as { type?: string }).type ?? 'unknown';
+            return `<div class="block block-${escapeHtml(fallbackType)}">Block type: ${escapeHtml(fallbackType)}</div>`;
+        }
+    }
+}
+
+/**
+ * Generate the preview shell with its initial content. Later edits patch it
+ * through `media/preview.js` instead of replacing it.
+ */
+export function generatePreviewHTML(
+    content: PreviewContent,
+    sourceLines: (SourceLines | undefined)[],
+    version: number,
+    initialLine: number,
+    state: object,
+    theme: ThemeDefinition,
+    nonce: string,
+    cspSource: string,
+    scripts: PreviewScripts,
+    errorHTML: string
+): string {
+    const hasDiagrams = content.diagramCount > 0;
+
+    // Viz.js compiles Graphviz from WebAssembly, which needs 'wasm-unsafe-eval'
+    const scriptSrc = hasDiagrams ? `'nonce-${nonce}' 'wasm-unsafe-eval'` : `'nonce-${nonce}'`;
+    const csp = `default-src 'none'; img-src ${cspSource} https: data:; style-src 'unsafe-inline'; script-src ${scriptSrc};`;
+    const diagramScriptTags = hasDiagrams
+        ? [scripts.mermaid, scripts.viz, scripts.diagrams]
+            .map(src => `<script nonce="${nonce}" src="${src}"></script>`)
+            .join('\n    ')
+        : '';
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="${csp}">
+    <title>${escapeHtml(content.title)}</title>
+    <style>
+        ${getThemeCSS(theme)}
+    </style>
+</head>
+<body data-palette="${escapeHtml(JSON.stringify(theme.palette))}" data-version="${version}" data-initial-line="${initialLine}" data-state="${escapeHtml(JSON.stringify(state))}">
+    <div class="preview-error" id="preview-error"${errorHTML ? '' : ' hidden'}>${errorHTML}</div>
+    <div class="header" id="preview-header">
+        ${content.header}
+    </div>
+    <div class="content" id="preview-content">${content.blocks.map((html, i) => wrapWithSourceLines(html, sourceLines[i])).join('')}</div>
+    <div class="footer">
+        <button id="refresh">↻ Refresh</button>
+    </div>
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        document.getElementById('refresh').addEventListener('click', () => {
+            vscode.postMessage({ command: 'refresh' });
+        });
+    </script>
+    <script nonce="${nonce}" src="${scripts.preview}"></script>
+    <script nonce="${nonce}" src="${scripts.scrollSync}"></script>
+    ${diagramScriptTags}
+</body>
+</html>
+    `;
+}
+
+/**
+ * Generate a standalone HTML document for export: the same content and styles
+ * as the preview, without the webview's scripts, source mapping and refresh
+ * button. `scripts` are inlined as they are, e.g. the diagram renderers.
+ */
+export function generateStandaloneHTML(content: PreviewContent, theme: ThemeDefinition, scripts: string[] = []): string {
+    const scriptTags = scripts.map(script => `<script>${script.replace(/<\/script/gi, '<\\/script')}</script>`).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(content.title)}</title>
+    <style>
+        ${getThemeCSS(theme)}
+    </style>
+</head>
+<body data-palette="${escapeHtml(JSON.stringify(theme.palette))}">
+    <div class="header">
+        ${content.header}
+    </div>
+    <div class="content">${content.blocks.join('')}</div>
+    ${scriptTags}
+</body>
+</html>
+`;
+}
+
+function generateDocHTML(block: DocBlock): string {
+    let html = '<div class="block block-doc">';
+
+    if (block.content) {
+        html += convertMarkdownToHTML(block.content);
+    }
+
+    html += '</div>';
+    return html;
+}
+
+function generateSlideHTML(block: SlideBlock): string {
+    const title = block.title || 'Untitled Slide';
+    const layout = block.layout || 'TitleAndContent';
+
+    let html = `<div class="block block-slide layout-${escapeHtml(layout)}">`;
+    html += `<h2 class="slide-title">${escapeHtml(title)}</h2>`;
+
+    if (block.content && block.content.length > 0) {
+        html += `<div class="slide-content">${renderSlideContentHTML(block.content)}</div>`;
+    } else if (block.bullets && block.bullets.length > 0) {
+        html += '<ul class="slide-bullets">';
+        html += block.bullets.map(item => `<li>${escapeHtml(item)}</li>`).join('');
+        html += '</ul>';
+    }
+
+    html += '</div>';
+    return html;
+}
+
+function generateSheetHTML(block: SheetBlock): string {
+    const name = block.name || 'Sheet';
+    const cols = block.cols || [];
+    const evaluation = evaluateSheet(cellsFromSheetBlock(block));
+
+    let html = `<div class="block block-sheet">`;
+    html += `<h3 class="sheet-name">${escapeHtml(name)}</h3>`;
+    html += '<table class="sheet-table">';
+
+    if (cols.length > 0) {
+        html += '<thead><tr>';
+        cols.forEach((col) => {
+            html += `<th>${escapeHtml(col)}</th>`;
+        });
+        html += '</tr></thead>';
+    }
+
+    html += '<tbody>';
+    if (evaluation.cells.size > 0) {
+        const results = [...evaluation.cells.values()];
+        const maxRow = Math.max(...results.map(c => c.row));
+        const maxCol = Math.max(...results.map(c => c.col));
+
+        for (let r = 1; r <= maxRow; r++) {
+            html += '<tr>';
+            for (let c = 1; c <= maxCol; c++) {
+                const result = evaluation.cells.get(toCellRef(r, c));
+                if (!result) {
+                    html += '<td></td>';
+                } else if (result.error) {
+                    html += `<td class="sheet-error" title="${escapeHtml(result.error.message)}">${escapeHtml(result.error.code)}</td>`;
+                } else if (result.formula !== undefined) {
+                    html += `<td class="sheet-formula" title="=${escapeHtml(result.formula)}">${escapeHtml(formatCellValue(result.value))}</td>`;
+                } else {
+                    html += `<td>${escapeHtml(formatCellValue(result.value))}</td>`;
+                }
+            }
+            html += '</tr>';
+        }
+    } else {
+        html += '<tr><td class="sheet-empty" colspan="' + Math.max(cols.length, 1) + '">No sheet data</td></tr>';
+    }
+
+    html += '</tbody></table>';
+    html += '</div>';
+    return html;
+}
+
+function generateTableHTML(block: TableBlock): string {
+    let html = `<div class="block block-table">`;
+
+    if (block.caption) {
+        html += `<p class="table-caption">${escapeHtml(block.caption)}</p>`;
+    }
+
+    html += `<table class="osf-table ${escapeHtml(block.style || 'bordered')}">`;
+    html += '<thead><tr>';
+    block.headers.forEach((header, index) => {
+        const align = block.alignment?.[index] || 'left';
+        html += `<th style="text-align: ${align};">${escapeHtml(header)}</th>`;
+    });
+    html += '</tr></thead><tbody>';
+
+    block.rows.forEach((row) => {
+        html += '<tr>';
+        row.cells.forEach((cell, index) => {
+            const align = block.alignment?.[index] || 'left';
+            html += `<td style="text-align: ${align};">${escapeHtml(cell.text)}</td>`;
+        });
+        html += '</tr>';
+    });
+
+    html += '</tbody></table></div>';
+    return html;
+}
+
+function generateChartHTML(block: ChartBlock, palette: ThemePalette, node: BlockNode | undefined): string {
+    let html = `<div class="block block-chart chart-${escapeHtml(block.chartType)}">`;
+    html += `<h3 class="chart-title">${escapeHtml(block.title)}</h3>`;
+    html += renderChartSVG(block, palette, node);
+    html += '</div>';
+    return html;
+}
+
+function generateCodeHTML(block: OSFCodeBlock): string {
+    let html = `<div class="block block-code">`;
+    if (block.caption) {
+        html += `<p class="code-caption">${escapeHtml(block.caption)}</p>`;
+    }
+    html += renderCodeLines(block.code, block.language, { lineNumbers: block.lineNumbers, highlight: block.highlight });
+    html += '</div>';
+    return html;
+}
+
+/**
+ * Parse error banner shown above the preview, listing every problem found.
+ */
+export function generateErrorHTML(errorMessage: string, problems: ModelError[] = []): string {
+    const problemList = problems.length > 0
+        ? `<ul class="problems">${problems.map(problem =>
+            `<li><span class="location">Line ${problem.range.start.line + 1}, column ${problem.range.start.character + 1}</span> ${escapeHtml(problem.message)}</li>`
+        ).join('')}</ul>`
+        : '';
+
+    return `<h2>Parse Error</h2><pre>${escapeHtml(errorMessage)}</pre>${problemList}`;
+}
+
+/**
+ * Colours of highlight.js tokens, taken from the theme so that code matches
+ * the rest of the document. Shared with the presentation.
+ */
+export function getHighlightCSS(): string {
+    return `
+        .hljs-keyword, .hljs-selector-tag, .hljs-meta .hljs-keyword, .hljs-doctag { color: var(--osf-accent); font-weight: 600; }
+        .hljs-string, .hljs-regexp, .hljs-addition, .hljs-template-tag { color: var(--osf-series-2); }
+        .hljs-number, .hljs-literal, .hljs-symbol, .hljs-bullet, .hljs-variable.constant_ { color: var(--osf-series-3); }
+        .hljs-title, .hljs-title.function_, .hljs-title.class_, .hljs-section { color: var(--osf-series-4); }
+        .hljs-built_in, .hljs-type, .hljs-attr, .hljs-attribute, .hljs-property, .hljs-name { color: var(--osf-series-1); }
+        .hljs-comment, .hljs-quote, .hljs-meta { color: var(--osf-muted); font-style: italic; }
+        .hljs-deletion { color: #b91c1c; }
+        .hljs-emphasis { font-style: italic; }
+        .hljs-strong { font-weight: 700; }
+    `;
+}
+
+/**
+ * Preview styles. Theme values become `--osf-*` custom properties that the
+ * base styles use, and a CSS theme file is appended last so it can override
+ * both.
+ */
+function getThemeCSS(theme: ThemeDefinition): string {
+    return `
+        :root { ${getThemeVariables(theme)} }
+        * { box-sizing: border-box; margin: 0; padding: 0; }
+        body {
+            font-family: var(--osf-font-body);
+            line-height: 1.6;
+            color: var(--osf-text);
+            background: var(--osf-background);
+            padding: 20px;
+        }
+        h1, h2, h3, h4, h5, h6 { font-family: var(--osf-font-heading); }
+        .themed-block { color: var(--osf-text); font-family: var(--osf-font-body); }
+        a { color: var(--osf-accent); }
+        .header {
+            border-bottom: 2px solid var(--osf-grid);
+            padding-bottom: 20px;
+            margin-bottom: 30px;
+        }
+        .header h1 { font-size: 2.5em; margin-bottom: 10px; }
+        .preview-error {
+            background: #fdecea;
+            border-left: 4px solid #f14c4c;
+            padding: 15px;
+            border-radius: 4px;
+            margin-bottom: 20px;
+        }
+        .preview-error h2 { color: #c62828; margin: 0 0 10px; }
+        .preview-error pre { background: #fff; padding: 10px; border-radius: 4px; overflow-x: auto; }
+        .preview-error .problems { margin: 15px 0 0 20px; }
+        .preview-error .problems li { margin: 6px 0; }
+        .preview-error .location { color: #c62828; font-family: monospace; margin-right: 8px; }
+        .preview-error:not([hidden]) ~ .content { opacity: 0.5; }
+        .author, .date { color: var(--osf-muted); font-size: 0.9em; }
+        .block { margin: 30px 0; padding: 20px; border-radius: 4px; }
+        .block-doc { background: color-mix(in srgb, var(--osf-grid) 35%, var(--osf-background)); }
+        .block-slide {
+            background: color-mix(in srgb, var(--osf-accent) 8%, var(--osf-background));
+            border-left: 4px solid var(--osf-accent);
+        }
+        .block-sheet { background: color-mix(in srgb, var(--osf-series-2) 7%, var(--osf-background)); }
+        .block-table { background: color-mix(in srgb, var(--osf-grid) 35%, var(--osf-background)); }
+        .block-chart { background: color-mix(in srgb, var(--osf-series-4) 6%, var(--osf-background)); }
+        .chart-svg { display: block; max-width: 720px; margin-top: 10px; border-radius: 4px; }
+        .block-diagram { background: color-mix(in srgb, var(--osf-series-3) 7%, var(--osf-background)); }
+        .diagram-output svg { display: block; max-width: 100%; height: auto; margin: 10px auto 0; }
+        .diagram-rendered .diagram-source { display: none; }
+        .diagram-source { background: var(--osf-background); border: 1px solid var(--osf-grid); padding: 10px; overflow-x: auto; font-size: 0.9em; }
+        .diagram-error { color: #b91c1c; white-space: pre-wrap; font-family: monospace; font-size: 0.9em; margin-top: 8px; }
+        .block-code { background: color-mix(in srgb, var(--osf-grid) 50%, var(--osf-background)); }
+        .slide-title { color: var(--osf-accent); margin-bottom: 15px; }
+        .sheet-table,
+        .osf-table {
+            width: 100%;
+            border-collapse: collapse;
+            margin-top: 15px;
+        }
+        .sheet-table th, .sheet-table td,
+        .osf-table th, .osf-table td {
+            border: 1px solid var(--osf-grid);
+            padding: 8px;
+            text-align: left;
+        }
+        .sheet-table th { background: color-mix(in srgb, var(--osf-series-2) 15%, var(--osf-background)); font-weight: 600; }
+        .sheet-table td.sheet-formula {
+            font-variant-numeric: tabular-nums;
+            background: color-mix(in srgb, var(--osf-series-2) 5%, var(--osf-background));
+        }
+        .sheet-table td.sheet-error { color: #b91c1c; font-weight: 600; }
+        .osf-table.striped tbody tr:nth-child(odd) { background: color-mix(in srgb, var(--osf-grid) 40%, var(--osf-background)); }
+        .table-caption { font-style: italic; color: var(--osf-muted); margin-bottom: 8px; }
+        h1, h2, h3, h4, h5, h6 { margin: 20px 0 10px; }
+        p { margin: 10px 0; }
+        ul, ol { margin: 10px 0; padding-left: 30px; }
+        li > ul, li > ol { margin: 4px 0; }
+        hr { border: 0; border-top: 1px solid var(--osf-grid); margin: 20px 0; }
+        img { max-width: 100%; }
+        .underline { text-decoration: underline; }
+        blockquote {
+            border-left: 4px solid var(--osf-grid);
+            padding-left: 12px;
+            margin: 12px 0;
+            color: var(--osf-muted);
+        }
+        code, pre { font-family: var(--osf-font-code); }
+        code { background: color-mix(in srgb, var(--osf-grid) 50%, var(--osf-background)); padding: 2px 6px; border-radius: 3px; }
+        .block-doc pre, .slide-content pre {
+            background: color-mix(in srgb, var(--osf-grid) 50%, var(--osf-background));
+            padding: 12px;
+            border-radius: 4px;
+            overflow-x: auto;
+        }
+        pre code { background: none; padding: 0; }
+        .block-code pre { overflow-x: auto; padding: 12px 0; }
+        .code-caption { font-style: italic; color: var(--osf-muted); margin-bottom: 8px; }
+        .code-line { display: block; padding: 0 12px; min-height: 1.6em; white-space: pre; }
+        .code-line.highlighted {
+            background: color-mix(in srgb, var(--osf-accent) 14%, transparent);
+            box-shadow: inset 3px 0 0 var(--osf-accent);
+        }
+        .line-numbers .code-line::before {
+            content: attr(data-line-number);
+            display: inline-block;
+            min-width: 3ch;
+            margin-right: 16px;
+            text-align: right;
+            color: var(--osf-muted);
+            user-select: none;
+        }
+        ${getHighlightCSS()}
+        .footer {
+            margin-top: 40px;
+            padding-top: 20px;
+            border-top: 1px solid var(--osf-grid);
+            text-align: center;
+        }
+        button {
+            padding: 8px 16px;
+            font-size: 14px;
+            border: 1px solid var(--osf-accent);
+            background: var(--osf-accent);
+            color: white;
+            border-radius: 4px;
+            cursor: pointer;
+        }
+        button:hover { filter: brightness(0.9); }
+        ${theme.css ?? ''}
+    `;
+}
@@ -0,0 +1,87 @@
+// File: src/preview/slides.ts
+import type { ContentBlock, SlideBlock } from 'omniscript-parser';
+import { getThemeVariables, type ThemeDefinition } from '../themes/themes';
+import { renderSlideContentHTML } from './content';
+import { escapeHtml } from './html';
+
+const COLUMN_COUNTS: Record<string, number> = {
+    /* eslint-disable @typescript-eslint/naming-convention */
+    TwoColumn: 2,
+    ThreeColumn: 3
+    /* eslint-enable @typescript-eslint/naming-convention */
+};
+
+/**
+ * Render a slide as a fixed 1280×720 (16:9) `<section>` for the presentation
+ * webview, which scales it to fit.
+ *
+ * `TitleOnly` shows a centred title, `TwoColumn` and `ThreeColumn` spread the
+ * content over columns the same way the PPTX exporter does, and anything else
+ * is laid out as `TitleAndContent`. `theme` is given for a slide whose theme
+ * differs from the presentation's.
+ */
+export function renderPresentationSlide(block: SlideBlock, index: number, theme?: ThemeDefinition): string {
+    const layout = block.layout || 'TitleAndContent';
+    const title = block.title ? escapeHtml(block.title) : '';
+    const content = getSlideContent(block);
+    // A slide with its own theme overrides the presentation's theme variables
+    const style = theme ? ` style="${escapeHtml(getThemeVariables(theme))}"` : '';
+
+    let html = `<section class="slide layout-${escapeHtml(layout)}" data-index="${index}"${style}>`;
+
+    if (layout === 'TitleOnly') {
+        html += `<h1 class="slide-title">${title}</h1>`;
+    } else {
+        if (title) {
+            html += `<h2 class="slide-title">${title}</h2>`;
+        }
+        const columns = splitIntoColumns(content, COLUMN_COUNTS[layout] ?? 1);
+        html += `<div class="slide-body columns-${columns.length}">`;
+        html += columns.map(column => `<div class="slide-column">${renderSlideContentHTML(column)}</div>`).join('');
+        html += '</div>';
+    }
+
+    html += '</section>';
+    return html;
+}
+
+/**
+ * Content blocks of a slide, with legacy `bullets { }` turned into a list.
+ */
+function getSlideContent(block: SlideBlock): ContentBlock[] {
+    if (block.content && block.content.length > 0) {
+        return block.content;
+    }
+    if (block.bullets && block.bullets.length > 0) {
+        return [{
+            type: 'unordered_list',
+            items: block.bullets.map(bullet => ({ type: 'list_item', content: [bullet] }))
+        }];
+    }
+    return [];
+}
+
+/**
+ * Split content over `count` columns, filling them in order. A slide that is a
+ * single list has its items split instead, so two-column bullet slides work.
+ */
+function splitIntoColumns(content: ContentBlock[], count: number): ContentBlock[][] {
+    if (count === 1) {
+        return [content];
+    }
+
+    const [only] = content;
+    if (content.length === 1 && (only.type === 'unordered_list' || only.type === 'ordered_list')) {
+        return chunk(only.items, count).map(items => [{ ...only, items }]);
+    }
+    return chunk(content, count);
+}
+
+function chunk<T>(items: T[], count: number): T[][] {
+    const size = Math.max(Math.ceil(items.length / count), 1);
+    const chunks: T[][] = [];
+    for (let i = 0; i < count; i++) {
+        chunks.push(items.slice(i * size, (i + 1) * size));
+    }
+    return chunks;
+}
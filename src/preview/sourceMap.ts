@@ -0,0 +1,31 @@
+// File: src/preview/sourceMap.ts
+import type { OSFDocument } from 'omniscript-parser';
+import { getParsedBlockNodes } from '../model/documentModel';
+import type { DocumentModel } from '../model/types';
+
+/**
+ * Zero-based, inclusive range of source lines a rendered block came from.
+ */
+export interface SourceLines {
+    start: number;
+    end: number;
+}
+
+/**
+ * Source lines of each parsed block, indexed like `document.blocks`; none
+ * when the parser and the model disagree on the blocks.
+ */
+export function getBlockSourceLines(document: OSFDocument, model: DocumentModel): (SourceLines | undefined)[] {
+    return getParsedBlockNodes(document, model)
+        .map(block => block && { start: block.range.start.line, end: block.range.end.line });
+}
+
+/**
+ * Wrap a rendered block in the element the preview patches on updates. It
+ * carries the block's source lines, used for scroll sync and double-click to
+ * source; `media/preview.js` updates them as lines move.
+ */
+export function wrapWithSourceLines(html: string, lines: SourceLines | undefined): string {
+    const attributes = lines ? ` data-line="${lines.start}" data-line-end="${lines.end}"` : '';
+    return `<div class="source-block"${attributes}>${html}</div>`;
+}
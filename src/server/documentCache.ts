@@ -0,0 +1,36 @@
+// File: src/server/documentCache.ts
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { parseDocumentModel } from '../model/documentModel';
+import type { DocumentModel } from '../model/types';
+
+interface CacheEntry {
+    version: number;
+    model: DocumentModel;
+}
+
+/**
+ * Keeps one document model per open document so that every language feature
+ * works from the same model instead of re-parsing the text on each request.
+ */
+export class DocumentCache {
+    private entries = new Map<string, CacheEntry>();
+
+    get(document: TextDocument): DocumentModel {
+        const cached = this.entries.get(document.uri);
+        if (cached && cached.version === document.version) {
+            return cached.model;
+        }
+
+        const model = parseDocumentModel(document.getText());
+        this.entries.set(document.uri, { version: document.version, model });
+        return model;
+    }
+
+    delete(uri: string): void {
+        this.entries.delete(uri);
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+}
@@ -0,0 +1,209 @@
+// File: src/server/includeResolver.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import { URI } from 'vscode-uri';
+import { getProperty, parseDocumentModel } from '../model/documentModel';
+import type { DocumentModel, Range } from '../model/types';
+import { IGNORED_DIRECTORIES } from './workspaceIndex';
+
+/** Matches omniscript-parser's default include depth limit. */
+const MAX_INCLUDE_DEPTH = 10;
+
+export interface IncludeReference {
+    /** Path as written in the document. */
+    path: string;
+    /** Range of the path text, excluding the quotes. */
+    range: Range;
+    /** Absolute file system path of the included file. */
+    target: string;
+}
+
+/**
+ * Resolves `@include { path: "..." }` directives to files and walks the include graph.
+ */
+export class IncludeResolver {
+    private roots: string[] = [];
+    /** Models of closed files, reused until the file's modification time changes. */
+    private diskModels = new Map<string, { mtimeMs: number; model: DocumentModel }>();
+
+    /**
+     * @param loadOpenModel returns the model of a document open in the editor, so
+     *        unsaved edits are taken into account; closed files are read from disk.
+     */
+    constructor(private loadOpenModel: (uri: string) => DocumentModel | undefined) {}
+
+    setRoots(rootUris: string[]): void {
+        this.roots = rootUris.map(uri => URI.parse(uri).fsPath);
+    }
+
+    /**
+     * Drop the cached model of a file that changed or was deleted on disk.
+     */
+    invalidate(uri: string): void {
+        this.diskModels.delete(URI.parse(uri).fsPath);
+    }
+
+    getIncludes(documentUri: string, model: DocumentModel): IncludeReference[] {
+        const baseDir = path.dirname(URI.parse(documentUri).fsPath);
+        const includes: IncludeReference[] = [];
+
+        for (const block of model.blocks) {
+            const property = block.type === 'include' ? getProperty(block, 'path') : undefined;
+            if (!property || typeof property.value !== 'string' || !property.raw.startsWith('"')) {
+                continue;
+            }
+
+            const { start, end } = property.valueRange;
+            includes.push({
+                path: property.value,
+                range: {
+                    start: { line: start.line, character: start.character + 1 },
+                    end: { line: end.line, character: Math.max(end.character - 1, start.character + 1) }
+                },
+                target: path.resolve(baseDir, property.value)
+            });
+        }
+
+        return includes;
+    }
+
+    exists(target: string): boolean {
+        try {
+            return fs.statSync(target).isFile();
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * True when the target lies outside every workspace folder. Always false
+     * when no folder is open.
+     */
+    escapesWorkspace(target: string): boolean {
+        if (this.roots.length === 0) {
+            return false;
+        }
+        return this.roots.every(root => {
+            const relative = path.relative(root, target);
+            return relative.startsWith('..') || path.isAbsolute(relative);
+        });
+    }
+
+    /**
+     * Follow the include chain starting at `target` and return the first cycle
+     * found, as a list of file paths that starts and ends with the same file.
+     */
+    findCycle(documentPath: string, target: string): string[] | undefined {
+        return this.walk(target, [documentPath], new Set());
+    }
+
+    /**
+     * True when the document includes the file, directly or through other includes.
+     */
+    dependsOn(documentUri: string, model: DocumentModel, file: string): boolean {
+        const visited = new Set<string>();
+        const visit = (uri: string, current: DocumentModel, depth: number): boolean => {
+            for (const include of this.getIncludes(uri, current)) {
+                if (include.target === file) {
+                    return true;
+                }
+                if (visited.has(include.target) || depth >= MAX_INCLUDE_DEPTH) {
+                    continue;
+                }
+                visited.add(include.target);
+                const includeUri = URI.file(include.target).toString();
+                const included = this.loadModel(includeUri, include.target);
+                if (included && visit(includeUri, included, depth + 1)) {
+                    return true;
+                }
+            }
+            return false;
+        };
+        return visit(documentUri, model, 0);
+    }
+
+    /**
+     * `.osf` files near a document, as paths relative to its directory, for include path completion.
+     */
+    listCandidates(documentUri: string, maxDepth = 3): string[] {
+        const documentPath = URI.parse(documentUri).fsPath;
+        const baseDir = path.dirname(documentPath);
+        const candidates: string[] = [];
+
+        const visit = (directory: string, depth: number) => {
+            let entries: fs.Dirent[];
+            try {
+                entries = fs.readdirSync(directory, { withFileTypes: true });
+            } catch {
+                return;
+            }
+            for (const entry of entries) {
+                const fullPath = path.join(directory, entry.name);
+                if (entry.isDirectory() && depth < maxDepth && !IGNORED_DIRECTORIES.has(entry.name)) {
+                    visit(fullPath, depth + 1);
+                } else if (entry.isFile() && entry.name.endsWith('.osf') && fullPath !== documentPath) {
+                    const relative = path.relative(baseDir, fullPath).split(path.sep).join('/');
+                    candidates.push(relative.startsWith('.') ? relative : `./${relative}`);
+                }
+            }
+        };
+
+        visit(baseDir, 0);
+        return candidates.sort();
+    }
+
+    /**
+     * Depth-first search for a cycle. `explored` holds files whose includes were
+     * all followed without finding one, so shared includes are walked once.
+     */
+    private walk(file: string, chain: string[], explored: Set<string>): string[] | undefined {
+        const seenAt = chain.indexOf(file);
+        if (seenAt !== -1) {
+            return [...chain.slice(seenAt), file];
+        }
+        if (explored.has(file) || chain.length > MAX_INCLUDE_DEPTH) {
+            return undefined;
+        }
+
+        const uri = URI.file(file).toString();
+        const model = this.loadModel(uri, file);
+        if (!model) {
+            explored.add(file);
+            return undefined;
+        }
+
+        let complete = true;
+        for (const include of this.getIncludes(uri, model)) {
+            const cycle = this.walk(include.target, [...chain, file], explored);
+            if (cycle) {
+                return cycle;
+            }
+            // Includes cut off by the depth limit were not followed all the way
+            complete &&= explored.has(include.target);
+        }
+        if (complete) {
+            explored.add(file);
+        }
+        return undefined;
+    }
+
+    private loadModel(uri: string, file: string): DocumentModel | undefined {
+        const open = this.loadOpenModel(uri);
+        if (open) {
+            return open;
+        }
+        try {
+            const { mtimeMs } = fs.statSync(file);
+            const cached = this.diskModels.get(file);
+            if (cached?.mtimeMs === mtimeMs) {
+                return cached.model;
+            }
+            const model = parseDocumentModel(fs.readFileSync(file, 'utf-8'));
+            this.diskModels.set(file, { mtimeMs, model });
+            return model;
+        } catch {
+            this.diskModels.delete(file);
+            return undefined;
+        }
+    }
+}
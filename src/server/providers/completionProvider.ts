@@ -1,44 +1,72 @@
-// File: src/providers/completionProvider.ts
-import * as vscode from 'vscode';
+// File: src/server/providers/completionProvider.ts
+import {
+    CompletionContext,
+    CompletionItem,
+    CompletionItemKind,
+    InsertTextFormat,
+    MarkupKind,
+    Position,
+    Range,
+    TextEdit
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getBlockAt, rangeContains } from '../../model/documentModel';
+import type { BlockNode, DocumentModel } from '../../model/types';
+import type { ThemeRegistry } from '../../themes/themeRegistry';
+import { IncludeResolver } from '../includeResolver';
+import { getLineText } from '../textUtils';
 
 /**
  * Provides auto-completion suggestions for OSF blocks, properties, and values.
  */
-export class CompletionProvider implements vscode.CompletionItemProvider {
+export class CompletionProvider {
+
+    constructor(private includeResolver: IncludeResolver, private themes: ThemeRegistry) {}
     
     provideCompletionItems(
-        document: vscode.TextDocument,
-        position: vscode.Position,
-        token: vscode.CancellationToken,
-        context: vscode.CompletionContext
-    ): vscode.ProviderResult<vscode.CompletionItem[] | vscode.CompletionList> {
+        document: TextDocument,
+        model: DocumentModel,
+        position: Position,
+        context?: CompletionContext
+    ): CompletionItem[] {
         
-        const linePrefix = document.lineAt(position).text.substr(0, position.character);
+        const linePrefix = getLineText(document, position.line).substring(0, position.character);
         
         // Block completions (triggered by @)
-        if (linePrefix.endsWith('@') || context.triggerCharacter === '@') {
+        if (linePrefix.endsWith('@') || context?.triggerCharacter === '@') {
             return this.getBlockCompletions();
         }
         
         // Property completions (check if we're inside a block)
-        if (this.isInsideBlock(document, position)) {
-            // Check if we're typing a property name
-            const wordRange = document.getWordRangeAtPosition(position);
-            const word = wordRange ? document.getText(wordRange) : '';
-            
+        const block = getBlockAt(model, position);
+        if (block && rangeContains(block.contentRange, position)) {
+            const includePath = block.type === 'include' ? /\bpath\s*:\s*"([^"]*)$/.exec(linePrefix) : null;
+            if (includePath) {
+                return this.getIncludePathCompletions(document, position, includePath[1]);
+            }
             if (linePrefix.includes(':')) {
                 // We're after a colon, provide value completions
                 return this.getValueCompletions(linePrefix);
             } else {
                 // Provide property name completions
-                return this.getPropertyCompletions(document, position);
+                return this.getPropertyCompletions(block);
             }
         }
         
         return [];
     }
     
-    private getBlockCompletions(): vscode.CompletionItem[] {
+    private getIncludePathCompletions(document: TextDocument, position: Position, typed: string): CompletionItem[] {
+        const range = Range.create(position.line, position.character - typed.length, position.line, position.character);
+
+        return this.includeResolver.listCandidates(document.uri).map(candidate => ({
+            label: candidate,
+            kind: CompletionItemKind.File,
+            textEdit: TextEdit.replace(range, candidate)
+        }));
+    }
+    
+    private getBlockCompletions(): CompletionItem[] {
         const blocks = [
             { name: 'meta', description: 'Document metadata block' },
             { name: 'doc', description: 'Document content block with markdown' },
@@ -46,27 +74,33 @@ export class CompletionProvider implements vscode.CompletionItemProvider {
             { name: 'sheet', description: 'Spreadsheet data block' },
             { name: 'chart', description: 'Chart/graph visualization block' },
             { name: 'diagram', description: 'Diagram block (flowchart, sequence, etc.)' },
-            { name: 'code', description: 'Code block with syntax highlighting' }
+            { name: 'code', description: 'Code block with syntax highlighting' },
+            { name: 'include', description: 'Include another OSF file' }
         ];
         
-        return blocks.map(block => {
-            const item = new vscode.CompletionItem(block.name, vscode.CompletionItemKind.Class);
-            item.detail = block.description;
-            item.insertText = new vscode.SnippetString(`${block.name} {\n\t$0\n}`);
-            item.documentation = new vscode.MarkdownString(`Create a \`@${block.name}\` block`);
-            return item;
-        });
+        return blocks.map(block => ({
+            label: block.name,
+            kind: CompletionItemKind.Class,
+            detail: block.description,
+            insertText: `${block.name} {\n\t$0\n}`,
+            insertTextFormat: InsertTextFormat.Snippet,
+            documentation: {
+                kind: MarkupKind.Markdown,
+                value: `Create a \`@${block.name}\` block`
+            }
+        }));
     }
     
-    private getPropertyCompletions(document: vscode.TextDocument, position: vscode.Position): vscode.CompletionItem[] {
-        const blockType = this.getCurrentBlockType(document, position);
+    private getPropertyCompletions(block: BlockNode): CompletionItem[] {
+        const blockType = block.type;
         
         const commonProperties = [
             { name: 'title', type: 'string', description: 'Block title' },
-            { name: 'theme', type: 'string', description: 'Visual theme' }
+            { name: 'theme', type: 'string', description: 'Theme of this block, overriding the document theme' }
         ];
         
         const metaProperties = [
+            { name: 'theme', type: 'string', description: 'Document theme, overriding the osf.preview.theme setting' },
             { name: 'author', type: 'string', description: 'Document author' },
             { name: 'date', type: 'string', description: 'Document date' },
             { name: 'version', type: 'string', description: 'Document version' }
@@ -104,11 +138,15 @@ export class CompletionProvider implements vscode.CompletionItemProvider {
             { name: 'code', type: 'string', description: 'Code content' }
         ];
         
+        const includeProperties = [
+            { name: 'path', type: 'string', description: 'Path of the included file, relative to this document' }
+        ];
+        
         let properties = commonProperties;
         
         switch (blockType) {
             case 'meta':
-                properties = [...commonProperties, ...metaProperties];
+                properties = [commonProperties[0], ...metaProperties];
                 break;
             case 'slide':
                 properties = [...commonProperties, ...slideProperties];
@@ -125,17 +163,21 @@ export class CompletionProvider implements vscode.CompletionItemProvider {
             case 'code':
                 properties = [...commonProperties, ...codeProperties];
                 break;
+            case 'include':
+                properties = includeProperties;
+                break;
         }
         
-        return properties.map(prop => {
-            const item = new vscode.CompletionItem(prop.name, vscode.CompletionItemKind.Property);
-            item.detail = `(${prop.type}) ${prop.description}`;
-            item.insertText = new vscode.SnippetString(`${prop.name}: $0;`);
-            return item;
-        });
+        return properties.map(prop => ({
+            label: prop.name,
+            kind: CompletionItemKind.Property,
+            detail: `(${prop.type}) ${prop.description}`,
+            insertText: `${prop.name}: $0;`,
+            insertTextFormat: InsertTextFormat.Snippet
+        }));
     }
     
-    private getValueCompletions(linePrefix: string): vscode.CompletionItem[] {
+    private getValueCompletions(linePrefix: string): CompletionItem[] {
         // Detect property name before colon
         const propertyMatch = linePrefix.match(/(\w+)\s*:\s*$/);
         if (!propertyMatch) {
@@ -144,94 +186,56 @@ export class CompletionProvider implements vscode.CompletionItemProvider {
         
         const propertyName = propertyMatch[1];
         
-        // Theme values
+        // Theme values, including the workspace's .osf/themes files
         if (propertyName === 'theme') {
-            const themes = ['default', 'minimal', 'corporate', 'academic', 'creative', 
-                          'technical', 'retro', 'modern', 'elegant', 'bold'];
-            return themes.map(theme => {
-                const item = new vscode.CompletionItem(theme, vscode.CompletionItemKind.EnumMember);
-                item.insertText = theme;
-                return item;
-            });
+            return this.themes.list().map(theme => ({
+                label: theme.name,
+                kind: CompletionItemKind.EnumMember,
+                detail: theme.source ? `${theme.description} (workspace theme)` : theme.description,
+                // Names with '-' are not bare words and need quotes
+                insertText: /^[A-Za-z][\w%]*$/.test(theme.name) ? theme.name : `"${theme.name}"`
+            }));
         }
         
         // Layout values
         if (propertyName === 'layout') {
             const layouts = ['TitleOnly', 'TitleAndContent', 'TwoColumn', 'ThreeColumn'];
-            return layouts.map(layout => {
-                const item = new vscode.CompletionItem(layout, vscode.CompletionItemKind.EnumMember);
-                item.insertText = layout;
-                return item;
-            });
+            return layouts.map(layout => ({
+                label: layout,
+                kind: CompletionItemKind.EnumMember,
+                insertText: layout
+            }));
         }
         
         // Chart type values
         if (propertyName === 'type') {
             const types = ['bar', 'line', 'pie', 'scatter', 'area'];
-            return types.map(type => {
-                const item = new vscode.CompletionItem(type, vscode.CompletionItemKind.EnumMember);
-                item.insertText = `"${type}"`;
-                return item;
-            });
+            return types.map(type => ({
+                label: type,
+                kind: CompletionItemKind.EnumMember,
+                insertText: `"${type}"`
+            }));
         }
         
         // Diagram engine values
         if (propertyName === 'engine') {
             const engines = ['mermaid', 'graphviz'];
-            return engines.map(engine => {
-                const item = new vscode.CompletionItem(engine, vscode.CompletionItemKind.EnumMember);
-                item.insertText = `"${engine}"`;
-                return item;
-            });
+            return engines.map(engine => ({
+                label: engine,
+                kind: CompletionItemKind.EnumMember,
+                insertText: `"${engine}"`
+            }));
         }
         
         // Boolean values
         if (propertyName === 'legend' || propertyName === 'lineNumbers') {
-            return ['true', 'false'].map(value => {
-                const item = new vscode.CompletionItem(value, vscode.CompletionItemKind.EnumMember);
-                item.insertText = value;
-                return item;
-            });
+            return ['true', 'false'].map(value => ({
+                label: value,
+                kind: CompletionItemKind.EnumMember,
+                insertText: value
+            }));
         }
         
         return [];
     }
-    
-    private isInsideBlock(document: vscode.TextDocument, position: vscode.Position): boolean {
-        let openBraces = 0;
-        let foundBlock = false;
-        
-        for (let i = position.line; i >= 0; i--) {
-            const line = document.lineAt(i).text;
-            
-            if (line.match(/@(meta|doc|slide|sheet|chart|diagram|code)\s*\{/)) {
-                foundBlock = true;
-            }
-            
-            openBraces += (line.match(/\{/g) || []).length;
-            openBraces -= (line.match(/\}/g) || []).length;
-            
-            if (openBraces < 0) {
-                break;
-            }
-        }
-        
-        return foundBlock && openBraces > 0;
-    }
-    
-    private getCurrentBlockType(document: vscode.TextDocument, position: vscode.Position): string | null {
-        for (let i = position.line; i >= 0; i--) {
-            const line = document.lineAt(i).text;
-            const blockMatch = line.match(/@(meta|doc|slide|sheet|chart|diagram|code)\s*\{/);
-            if (blockMatch) {
-                return blockMatch[1];
-            }
-            
-            // Stop if we hit a closing brace
-            if (line.match(/^\s*\}/)) {
-                break;
-            }
-        }
-        return null;
-    }
 }
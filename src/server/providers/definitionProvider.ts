@@ -0,0 +1,44 @@
+// File: src/server/providers/definitionProvider.ts
+import { Location, Position, Range } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { parseCellRef } from '../../model/cellRef';
+import { getBlockAt, rangeContains } from '../../model/documentModel';
+import type { DocumentModel } from '../../model/types';
+import { IncludeResolver } from '../includeResolver';
+import { getWordRangeAtPosition } from '../textUtils';
+
+/**
+ * Resolves `@include` paths to the included file, and cell references in
+ * `@sheet` formulas (e.g. `=A2+B2`) to the cell assignment.
+ */
+export class DefinitionProvider {
+
+    constructor(private includeResolver: IncludeResolver) {}
+
+    provideDefinition(document: TextDocument, model: DocumentModel, position: Position): Location | null {
+        const block = getBlockAt(model, position);
+
+        if (block?.type === 'include') {
+            const include = this.includeResolver.getIncludes(document.uri, model)
+                .find(i => rangeContains(i.range, position));
+            if (include && this.includeResolver.exists(include.target)) {
+                return Location.create(URI.file(include.target).toString(), Range.create(0, 0, 0, 0));
+            }
+            return null;
+        }
+
+        if (block?.type !== 'sheet') {
+            return null;
+        }
+
+        const wordRange = getWordRangeAtPosition(document, position, /\$?[A-Za-z]+\$?[0-9]+/);
+        const reference = wordRange ? parseCellRef(document.getText(wordRange)) : null;
+        if (!reference) {
+            return null;
+        }
+
+        const cell = block.cells.find(c => c.row === reference.row && c.col === reference.col);
+        return cell ? Location.create(document.uri, cell.refRange) : null;
+    }
+}
@@ -0,0 +1,195 @@
+// File: src/server/providers/diagnosticsProvider.ts
+import * as path from 'path';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver/node';
+import { URI } from 'vscode-uri';
+import { analyzeSheet } from '../../formula/analyzer';
+import { getProperty } from '../../model/documentModel';
+import type { BlockNode, DocumentModel, ModelError, PropertyNode, Range, SheetCellNode } from '../../model/types';
+import type { ThemeRegistry } from '../../themes/themeRegistry';
+import { IncludeResolver } from '../includeResolver';
+
+/**
+ * Provides real-time diagnostics (error checking) for OSF documents.
+ */
+export class DiagnosticsProvider {
+
+    constructor(private includeResolver: IncludeResolver, private themes: ThemeRegistry) {}
+
+    provideDiagnostics(documentUri: string, model: DocumentModel): Diagnostic[] {
+        const diagnostics: Diagnostic[] = model.errors.map(error => this.createDiagnosticFromError(error));
+
+        this.checkPropertySyntax(model, diagnostics);
+        this.checkIncludes(documentUri, model, diagnostics);
+        this.checkFormulas(model, diagnostics);
+        this.checkThemes(model, diagnostics);
+        this.checkCodeHighlights(model, diagnostics);
+
+        return diagnostics;
+    }
+
+    private createDiagnosticFromError(error: ModelError): Diagnostic {
+        const diagnostic = Diagnostic.create(
+            error.range,
+            error.message,
+            error.severity === 'error' ? DiagnosticSeverity.Error : DiagnosticSeverity.Warning
+        );
+
+        diagnostic.source = 'osf';
+        return diagnostic;
+    }
+
+    private checkPropertySyntax(model: DocumentModel, diagnostics: Diagnostic[]): void {
+        for (const block of model.blocks) {
+            const declarations = [...block.properties, ...block.cells];
+
+            for (const declaration of declarations) {
+                // Property should end with semicolon
+                if (!declaration.terminated) {
+                    const diagnostic = Diagnostic.create(
+                        declaration.range,
+                        'Property declaration should end with semicolon (;)',
+                        DiagnosticSeverity.Warning
+                    );
+                    diagnostic.source = 'osf';
+                    diagnostics.push(diagnostic);
+                }
+            }
+        }
+    }
+
+    private checkIncludes(documentUri: string, model: DocumentModel, diagnostics: Diagnostic[]): void {
+        const uri = URI.parse(documentUri);
+        if (uri.scheme !== 'file') {
+            return;
+        }
+        const documentPath = uri.fsPath;
+
+        for (const include of this.includeResolver.getIncludes(documentUri, model)) {
+            let message: string | undefined;
+
+            if (this.includeResolver.escapesWorkspace(include.target)) {
+                message = `Include path "${include.path}" points outside the workspace`;
+            } else if (!this.includeResolver.exists(include.target)) {
+                message = `Included file not found: ${include.path}`;
+            } else {
+                const cycle = this.includeResolver.findCycle(documentPath, include.target);
+                if (cycle) {
+                    const baseDir = path.dirname(documentPath);
+                    const chain = cycle.map(file => path.relative(baseDir, file) || path.basename(file));
+                    message = `Circular include: ${chain.join(' → ')}`;
+                }
+            }
+
+            if (message) {
+                const diagnostic = Diagnostic.create(include.range, message, DiagnosticSeverity.Error);
+                diagnostic.source = 'osf';
+                diagnostics.push(diagnostic);
+            }
+        }
+    }
+
+    /**
+     * Flag `theme` values that name neither a built-in nor a workspace theme;
+     * the preview and exports skip them and fall back to the next theme in line.
+     */
+    private checkThemes(model: DocumentModel, diagnostics: Diagnostic[]): void {
+        for (const block of model.blocks) {
+            const theme = getProperty(block, 'theme');
+            if (!theme || (typeof theme.value === 'string' && this.themes.get(theme.value))) {
+                continue;
+            }
+            const available = this.themes.list().map(definition => definition.name).join(', ');
+            const diagnostic = Diagnostic.create(
+                theme.valueRange,
+                `Unknown theme "${theme.raw}". Available themes: ${available}`,
+                DiagnosticSeverity.Warning
+            );
+            diagnostic.source = 'osf';
+            diagnostics.push(diagnostic);
+        }
+    }
+
+    /**
+     * Flag `highlight` entries of a `@code` block that are not lines of its code.
+     */
+    private checkCodeHighlights(model: DocumentModel, diagnostics: Diagnostic[]): void {
+        for (const block of model.blocks) {
+            const highlight = block.type === 'code' ? getProperty(block, 'highlight') : undefined;
+            const code = block.type === 'code' ? getProperty(block, 'code')?.value : undefined;
+            if (!highlight || !Array.isArray(highlight.value) || typeof code !== 'string') {
+                continue;
+            }
+
+            const lineCount = code.replace(/\r?\n$/, '').split(/\r?\n/).length;
+            const entryRanges = this.getArrayEntryRanges(model, highlight);
+            highlight.value.forEach((line, i) => {
+                if (typeof line === 'number' && Number.isInteger(line) && line >= 1 && line <= lineCount) {
+                    return;
+                }
+                const message = typeof line === 'number'
+                    ? `Highlighted line ${line} is outside the code (lines 1-${lineCount})`
+                    : 'Highlighted lines must be line numbers';
+                const diagnostic = Diagnostic.create(entryRanges[i] ?? highlight.valueRange, message, DiagnosticSeverity.Warning);
+                diagnostic.source = 'osf';
+                diagnostics.push(diagnostic);
+            });
+        }
+    }
+
+    /**
+     * Ranges of the entries of a flat array value such as `[2, 4]`, in order.
+     */
+    private getArrayEntryRanges(model: DocumentModel, property: PropertyNode): Range[] {
+        const start = model.index.offsetAt(property.valueRange.start);
+        const ranges: Range[] = [];
+        const pattern = /[^\s,[\]]+/g;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(property.raw)) !== null) {
+            ranges.push(model.index.rangeOf(start + match.index, start + match.index + match[0].length));
+        }
+        return ranges;
+    }
+
+    private checkFormulas(model: DocumentModel, diagnostics: Diagnostic[]): void {
+        for (const block of model.blocks) {
+            if (block.type !== 'sheet') {
+                continue;
+            }
+
+            const cells = new Map(block.cells.map(cell => [cell.ref, cell]));
+            for (const problem of analyzeSheet(block.cells, { columnCount: this.getColumnCount(block) })) {
+                const cell = cells.get(problem.ref);
+                if (!cell) {
+                    continue;
+                }
+                const range = problem.start !== undefined && problem.end !== undefined
+                    ? this.getFormulaRange(model, cell, problem.start, problem.end)
+                    : cell.range;
+                const diagnostic = Diagnostic.create(range, problem.message, DiagnosticSeverity.Error);
+                diagnostic.source = 'osf';
+                diagnostics.push(diagnostic);
+            }
+        }
+    }
+
+    private getColumnCount(block: BlockNode): number | undefined {
+        const cols = getProperty(block, 'cols')?.value;
+        return Array.isArray(cols) && cols.length > 0 ? cols.length : undefined;
+    }
+
+    /**
+     * Map an offset range inside a cell's formula back to the document. Falls back
+     * to the whole assignment when the formula text does not appear verbatim
+     * (e.g. a `formula (r,c): "..."` string with escapes).
+     */
+    private getFormulaRange(model: DocumentModel, cell: SheetCellNode, start: number, end: number): Range {
+        const valueStart = model.index.offsetAt(cell.valueRange.start);
+        const valueEnd = model.index.offsetAt(cell.valueRange.end);
+        const formulaStart = model.text.indexOf(cell.formula!, valueStart);
+
+        if (formulaStart === -1 || formulaStart + cell.formula!.length > valueEnd) {
+            return cell.range;
+        }
+        return model.index.rangeOf(formulaStart + start, formulaStart + Math.max(end, start + 1));
+    }
+}
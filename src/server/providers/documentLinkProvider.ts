@@ -0,0 +1,23 @@
+// File: src/server/providers/documentLinkProvider.ts
+import { DocumentLink } from 'vscode-languageserver/node';
+import { URI } from 'vscode-uri';
+import type { DocumentModel } from '../../model/types';
+import { IncludeResolver } from '../includeResolver';
+
+/**
+ * Makes `@include` paths Ctrl+clickable.
+ */
+export class DocumentLinkProvider {
+
+    constructor(private includeResolver: IncludeResolver) {}
+
+    provideDocumentLinks(documentUri: string, model: DocumentModel): DocumentLink[] {
+        return this.includeResolver.getIncludes(documentUri, model)
+            .filter(include => this.includeResolver.exists(include.target))
+            .map(include => ({
+                range: include.range,
+                target: URI.file(include.target).toString(),
+                tooltip: `Open ${include.path}`
+            }));
+    }
+}
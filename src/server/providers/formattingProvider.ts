@@ -0,0 +1,134 @@
+// File: src/server/providers/formattingProvider.ts
+import { FormattingOptions, Position, Range, TextEdit } from 'vscode-languageserver/node';
+import { comparePositions, rangeContains } from '../../model/documentModel';
+import { printBlock, printStatement, type PrintedPiece, type PrintOptions } from '../../model/printer';
+import type { BlockNode, DocumentModel } from '../../model/types';
+
+/** Characters after which the statement or block just typed is formatted. */
+export const FORMAT_ON_TYPE_TRIGGERS = [';', '}'];
+
+/**
+ * Provides document, range and on-type formatting for OSF files, printing
+ * blocks from the document model. Blocks with syntax errors are left alone.
+ *
+ * Edits never reach inside string literals or Markdown content, so they can
+ * be combined with edits from an embedded language's formatter.
+ */
+export class FormattingProvider {
+
+    provideDocumentFormattingEdits(model: DocumentModel, options: FormattingOptions, lineWidth: number): TextEdit[] {
+        const printOptions = getPrintOptions(options, lineWidth);
+        return model.blocks.flatMap(block => this.formatBlock(model, block, printOptions));
+    }
+
+    /**
+     * Format every block the range touches; blocks are always formatted whole.
+     */
+    provideDocumentRangeFormattingEdits(
+        model: DocumentModel,
+        range: Range,
+        options: FormattingOptions,
+        lineWidth: number
+    ): TextEdit[] {
+        const printOptions = getPrintOptions(options, lineWidth);
+        return model.blocks
+            .filter(block => comparePositions(block.range.start, range.end) <= 0 && comparePositions(range.start, block.range.end) <= 0)
+            .flatMap(block => this.formatBlock(model, block, printOptions));
+    }
+
+    /**
+     * After `;`, format the property or cell it ends; after the `}` of a
+     * block or a sheet's `data { }`, format the whole block.
+     */
+    provideOnTypeFormattingEdits(
+        model: DocumentModel,
+        position: Position,
+        ch: string,
+        options: FormattingOptions,
+        lineWidth: number
+    ): TextEdit[] {
+        const printOptions = getPrintOptions(options, lineWidth);
+        const offset = model.index.offsetAt(position);
+        const block = model.blocks.find(candidate => rangeContains(candidate.range, position));
+        if (!block || block.type === 'doc') {
+            return [];
+        }
+
+        if (ch === '}') {
+            const closesBlock = model.index.offsetAt(block.range.end) === offset;
+            return closesBlock || block.type === 'sheet' ? this.formatBlock(model, block, printOptions) : [];
+        }
+
+        const statement = [...block.properties, ...block.cells]
+            .find(node => node.terminated && model.index.offsetAt(node.range.end) === offset);
+        if (!statement) {
+            return [];
+        }
+        const start = model.index.offsetAt(statement.range.start);
+        const inData = block.type === 'sheet' && model.text[start] === '(';
+        const indent = printOptions.indent.repeat(inData ? 2 : 1);
+        const pieces = printStatement(model, statement, indent, printOptions);
+
+        const lineStart = offset - position.character;
+        const atLineStart = start >= lineStart && !model.text.slice(lineStart, start).trim();
+        return atLineStart
+            ? toTextEdits(model, lineStart, offset, [indent, ...pieces])
+            : toTextEdits(model, start, offset, pieces);
+    }
+
+    private formatBlock(model: DocumentModel, block: BlockNode, options: PrintOptions): TextEdit[] {
+        const pieces = printBlock(model, block, options);
+        if (!pieces) {
+            return [];
+        }
+        // The block's own indentation goes too, when nothing else precedes it on its line
+        const start = model.index.offsetAt(block.range.start);
+        const lineStart = start - block.range.start.character;
+        const from = model.text.slice(lineStart, start).trim() ? start : lineStart;
+        return toTextEdits(model, from, model.index.offsetAt(block.range.end), pieces);
+    }
+}
+
+function getPrintOptions(options: FormattingOptions, lineWidth: number): PrintOptions {
+    return {
+        indent: options.insertSpaces ? ' '.repeat(options.tabSize) : '\t',
+        lineWidth
+    };
+}
+
+/**
+ * Edits that turn the source between `start` and `end` into the printed
+ * pieces. Kept ranges are not touched, so there is one edit for each
+ * changed stretch between them; when printing reordered them (sorted sheet
+ * cells), the whole range is replaced instead.
+ */
+function toTextEdits(model: DocumentModel, start: number, end: number, pieces: PrintedPiece[]): TextEdit[] {
+    const edits: TextEdit[] = [];
+    const replace = (from: number, to: number, newText: string) => {
+        if (model.text.slice(from, to).replace(/\r\n/g, '\n') !== newText) {
+            edits.push(TextEdit.replace(model.index.rangeOf(from, to), newText));
+        }
+    };
+
+    let cursor = start;
+    let pending = '';
+    for (const piece of pieces) {
+        if (typeof piece === 'string') {
+            pending += piece;
+            continue;
+        }
+        if (piece.start < cursor) {
+            const newText = pieces.map(p => (typeof p === 'string' ? p : model.text.slice(p.start, p.end))).join('');
+            const whole: TextEdit[] = [];
+            if (model.text.slice(start, end).replace(/\r\n/g, '\n') !== newText.replace(/\r\n/g, '\n')) {
+                whole.push(TextEdit.replace(model.index.rangeOf(start, end), newText));
+            }
+            return whole;
+        }
+        replace(cursor, piece.start, pending);
+        cursor = piece.end;
+        pending = '';
+    }
+    replace(cursor, end, pending);
+    return edits;
+}
@@ -1,18 +1,36 @@
-// File: src/providers/hoverProvider.ts
-import * as vscode from 'vscode';
+// File: src/server/providers/hoverProvider.ts
+import { Hover, MarkupContent, MarkupKind, Position } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { evaluateSheet, formatCellValue } from '../../formula/evaluator';
+import { getBlockAt, rangeContains } from '../../model/documentModel';
+import type { DocumentModel } from '../../model/types';
+import type { ThemeRegistry } from '../../themes/themeRegistry';
+import { getWordRangeAtPosition } from '../textUtils';
 
 /**
  * Provides hover tooltips with documentation for OSF syntax elements.
  */
-export class HoverProvider implements vscode.HoverProvider {
+export class HoverProvider {
+
+    constructor(private themes: ThemeRegistry) {}
     
     provideHover(
-        document: vscode.TextDocument,
-        position: vscode.Position,
-        token: vscode.CancellationToken
-    ): vscode.ProviderResult<vscode.Hover> {
+        document: TextDocument,
+        model: DocumentModel,
+        position: Position
+    ): Hover | null {
+        
+        const formulaHover = this.getFormulaHover(model, position);
+        if (formulaHover) {
+            return formulaHover;
+        }
         
-        const wordRange = document.getWordRangeAtPosition(position, /@?\w+/);
+        const themeHover = this.getThemeHover(model, position);
+        if (themeHover) {
+            return themeHover;
+        }
+        
+        const wordRange = getWordRangeAtPosition(document, position, /@?\w+/);
         if (!wordRange) {
             return null;
         }
@@ -22,19 +40,51 @@ export class HoverProvider implements vscode.HoverProvider {
         // Block documentation
         const blockDocs = this.getBlockDocumentation(word);
         if (blockDocs) {
-            return new vscode.Hover(blockDocs);
+            return { contents: blockDocs, range: wordRange };
         }
         
         // Property documentation
-        const propertyDocs = this.getPropertyDocumentation(word, document, position);
+        const propertyDocs = this.getPropertyDocumentation(word);
         if (propertyDocs) {
-            return new vscode.Hover(propertyDocs);
+            return { contents: propertyDocs, range: wordRange };
         }
         
         return null;
     }
     
-    private getBlockDocumentation(word: string): vscode.MarkdownString | null {
+    /**
+     * Show the computed result when hovering a formula cell in a `@sheet`.
+     */
+    private getFormulaHover(model: DocumentModel, position: Position): Hover | null {
+        const block = getBlockAt(model, position);
+        if (block?.type !== 'sheet') {
+            return null;
+        }
+        
+        const cell = block.cells.find(c => c.formula !== undefined && rangeContains(c.range, position));
+        if (!cell) {
+            return null;
+        }
+        
+        const result = evaluateSheet(block.cells).cells.get(cell.ref);
+        if (!result) {
+            return null;
+        }
+        
+        const value = result.error
+            ? `\`${result.error.code}\` — ${result.error.message}`
+            : `\`${formatCellValue(result.value)}\``;
+        
+        return {
+            contents: {
+                kind: MarkupKind.Markdown,
+                value: `**${cell.ref}** = \`=${cell.formula}\`\n\nResult: ${value}`
+            },
+            range: cell.range
+        };
+    }
+    
+    private getBlockDocumentation(word: string): MarkupContent | null {
         /* eslint-disable @typescript-eslint/naming-convention */
         const docs: { [key: string]: string } = {
             '@meta': `
@@ -204,26 +254,47 @@ Displays code with syntax highlighting.
         
         const doc = docs[word];
         if (doc) {
-            const md = new vscode.MarkdownString(doc.trim());
-            md.isTrusted = true;
-            return md;
+            return { kind: MarkupKind.Markdown, value: doc.trim() };
         }
         
         return null;
     }
     
-    private getPropertyDocumentation(
-        word: string,
-        document: vscode.TextDocument,
-        position: vscode.Position
-    ): vscode.MarkdownString | null {
+    /**
+     * Describe the theme named by a `theme: ...;` value.
+     */
+    private getThemeHover(model: DocumentModel, position: Position): Hover | null {
+        const property = getBlockAt(model, position)?.properties
+            .find(p => p.key === 'theme' && rangeContains(p.valueRange, position));
+        const theme = typeof property?.value === 'string' ? this.themes.get(property.value) : undefined;
+        if (!property || !theme) {
+            return null;
+        }
+        
+        const lines = [`**Theme \`${theme.name}\`** — ${theme.description}`, ''];
+        if (theme.source) {
+            lines.push(`Defined in \`${theme.source}\`, based on \`${theme.base}\``, '');
+        }
+        lines.push(
+            `Accent \`${theme.accent}\` · text \`${theme.palette.text}\` · background \`${theme.palette.background}\``,
+            '',
+            `Series ${theme.palette.series.map(color => `\`${color}\``).join(' ')}`
+        );
+        
+        return {
+            contents: { kind: MarkupKind.Markdown, value: lines.join('\n') },
+            range: property.valueRange
+        };
+    }
+    
+    private getPropertyDocumentation(word: string): MarkupContent | null {
         
         const propertyDocs: { [key: string]: string } = {
             'title': 'Document or block title (string)',
             'author': 'Document author name (string)',
             'date': 'Document date (string)',
             'version': 'Document version (string)',
-            'theme': 'Visual theme: default, minimal, corporate, academic, creative, technical, retro, modern, elegant, bold',
+            'theme': `Visual theme of the document (in \`@meta\`) or of one block: ${this.themes.list().map(theme => theme.name).join(', ')}`,
             'layout': 'Slide layout: TitleOnly, TitleAndContent, TwoColumn, ThreeColumn',
             'name': 'Sheet or element name (string)',
             'cols': 'Column definitions (array)',
@@ -243,7 +314,7 @@ Displays code with syntax highlighting.
         
         const doc = propertyDocs[word];
         if (doc) {
-            return new vscode.MarkdownString(`**${word}:** ${doc}`);
+            return { kind: MarkupKind.Markdown, value: `**${word}:** ${doc}` };
         }
         
         return null;
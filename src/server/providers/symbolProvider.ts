@@ -0,0 +1,95 @@
+// File: src/server/providers/symbolProvider.ts
+import { DocumentSymbol, SymbolKind } from 'vscode-languageserver/node';
+import { getBlockLabel } from '../../model/documentModel';
+import type { BlockNode, DocumentModel } from '../../model/types';
+
+const blockSymbolKinds: { [key: string]: SymbolKind } = {
+    meta: SymbolKind.Namespace,
+    doc: SymbolKind.Module,
+    slide: SymbolKind.Class,
+    sheet: SymbolKind.Struct,
+    table: SymbolKind.Struct,
+    chart: SymbolKind.Object,
+    diagram: SymbolKind.Object,
+    code: SymbolKind.Function,
+    include: SymbolKind.File
+};
+
+const defaultLabels: { [key: string]: string } = {
+    meta: 'Metadata',
+    doc: 'Document',
+    slide: 'Untitled Slide',
+    sheet: 'Sheet',
+    table: 'Table',
+    chart: 'Chart',
+    diagram: 'Diagram',
+    code: 'Code'
+};
+
+/**
+ * Provides document symbols for the outline, breadcrumbs and Go to Symbol.
+ * Each block is labelled by its title, name or caption; Markdown headings are
+ * nested under the block that contains them.
+ */
+export class SymbolProvider {
+
+    provideDocumentSymbols(model: DocumentModel): DocumentSymbol[] {
+        return model.blocks.map(block => this.createBlockSymbol(block));
+    }
+
+    private createBlockSymbol(block: BlockNode): DocumentSymbol {
+        const label = getBlockLabel(block) ?? defaultLabels[block.type] ?? `@${block.type}`;
+        const symbol = DocumentSymbol.create(
+            label,
+            `@${block.type}`,
+            blockSymbolKinds[block.type] ?? SymbolKind.Object,
+            block.range,
+            block.keywordRange
+        );
+
+        if (block.headings.length > 0) {
+            symbol.children = this.createHeadingSymbols(block);
+        }
+
+        return symbol;
+    }
+
+    /**
+     * Nest headings by level: a `##` heading becomes a child of the preceding `#`.
+     */
+    private createHeadingSymbols(block: BlockNode): DocumentSymbol[] {
+        const roots: DocumentSymbol[] = [];
+        const stack: { level: number; symbol: DocumentSymbol }[] = [];
+
+        block.headings.forEach((heading, i) => {
+            // A heading's section runs until the next heading of the same or a higher level
+            const next = block.headings.slice(i + 1).find(h => h.level <= heading.level);
+            const sectionEnd = next
+                ? { line: next.range.start.line - 1, character: 0 }
+                : block.contentRange.end;
+            const end = sectionEnd.line >= heading.range.end.line ? sectionEnd : heading.range.end;
+
+            const symbol = DocumentSymbol.create(
+                heading.text,
+                '#'.repeat(heading.level),
+                SymbolKind.String,
+                { start: heading.range.start, end },
+                heading.range
+            );
+
+            while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+                stack.pop();
+            }
+
+            const parent = stack[stack.length - 1];
+            if (parent) {
+                parent.symbol.children = [...(parent.symbol.children ?? []), symbol];
+            } else {
+                roots.push(symbol);
+            }
+            stack.push({ level: heading.level, symbol });
+        });
+
+        return roots;
+    }
+}
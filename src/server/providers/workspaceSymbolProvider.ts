@@ -0,0 +1,57 @@
+// File: src/server/providers/workspaceSymbolProvider.ts
+import { DocumentSymbol, SymbolInformation } from 'vscode-languageserver/node';
+import { WorkspaceIndex } from '../workspaceIndex';
+import { SymbolProvider } from './symbolProvider';
+
+/**
+ * Provides workspace-wide symbol search (Ctrl+T) across all `.osf` files,
+ * e.g. to jump to any slide title in the repository.
+ */
+export class WorkspaceSymbolProvider {
+
+    constructor(private index: WorkspaceIndex, private symbolProvider: SymbolProvider) {}
+
+    async provideWorkspaceSymbols(query: string): Promise<SymbolInformation[]> {
+        const results: SymbolInformation[] = [];
+
+        for (const [uri, model] of await this.index.getModels()) {
+            const symbols = this.symbolProvider.provideDocumentSymbols(model);
+            this.collect(symbols, uri, undefined, query.toLowerCase(), results);
+        }
+
+        return results;
+    }
+
+    private collect(
+        symbols: DocumentSymbol[],
+        uri: string,
+        containerName: string | undefined,
+        query: string,
+        results: SymbolInformation[]
+    ): void {
+        for (const symbol of symbols) {
+            if (this.matches(symbol.name, query)) {
+                results.push(SymbolInformation.create(symbol.name, symbol.kind, symbol.selectionRange, uri, containerName));
+            }
+            if (symbol.children) {
+                this.collect(symbol.children, uri, symbol.name, query, results);
+            }
+        }
+    }
+
+    /**
+     * Case-insensitive subsequence match, so "intro" finds "Introduction" and "ksp" finds "Key Points".
+     */
+    private matches(name: string, query: string): boolean {
+        const candidate = name.toLowerCase();
+        let position = 0;
+        for (const ch of query) {
+            position = candidate.indexOf(ch, position);
+            if (position === -1) {
+                return false;
+            }
+            position++;
+        }
+        return true;
+    }
+}
@@ -0,0 +1,260 @@
+#!/usr/bin/env node
+// File: src/server/server.ts
+import {
+    createConnection,
+    DidChangeConfigurationNotification,
+    FileChangeType,
+    InitializeParams,
+    InitializeResult,
+    ProposedFeatures,
+    TextDocuments,
+    TextDocumentSyncKind
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { ThemeRegistry } from '../themes/themeRegistry';
+import { DocumentCache } from './documentCache';
+import { WorkspaceIndex } from './workspaceIndex';
+import { IncludeResolver } from './includeResolver';
+import { defaultSettings, normalizeSettings, OSFSettings } from './settings';
+import { CompletionProvider } from './providers/completionProvider';
+import { HoverProvider } from './providers/hoverProvider';
+import { DiagnosticsProvider } from './providers/diagnosticsProvider';
+import { FORMAT_ON_TYPE_TRIGGERS, FormattingProvider } from './providers/formattingProvider';
+import { SymbolProvider } from './providers/symbolProvider';
+import { DefinitionProvider } from './providers/definitionProvider';
+import { WorkspaceSymbolProvider } from './providers/workspaceSymbolProvider';
+import { DocumentLinkProvider } from './providers/documentLinkProvider';
+
+/**
+ * OmniScript Format language server.
+ *
+ * Speaks LSP over stdio (`node out/server/server.js --stdio`) so that any
+ * LSP-capable editor gets the same OSF intelligence as the VS Code extension.
+ */
+const connection = createConnection(ProposedFeatures.all);
+const documents = new TextDocuments(TextDocument);
+const cache = new DocumentCache();
+const workspaceIndex = new WorkspaceIndex();
+const includeResolver = new IncludeResolver(uri => {
+    const document = documents.get(uri);
+    return document ? cache.get(document) : undefined;
+});
+const themeRegistry = new ThemeRegistry();
+
+const completionProvider = new CompletionProvider(includeResolver, themeRegistry);
+const hoverProvider = new HoverProvider(themeRegistry);
+const diagnosticsProvider = new DiagnosticsProvider(includeResolver, themeRegistry);
+const formattingProvider = new FormattingProvider();
+const symbolProvider = new SymbolProvider();
+const definitionProvider = new DefinitionProvider(includeResolver);
+const workspaceSymbolProvider = new WorkspaceSymbolProvider(workspaceIndex, symbolProvider);
+const documentLinkProvider = new DocumentLinkProvider(includeResolver);
+
+let hasConfigurationCapability = false;
+let hasWorkspaceFolderCapability = false;
+let globalSettings: OSFSettings = defaultSettings;
+const documentSettings = new Map<string, Thenable<OSFSettings>>();
+
+connection.onInitialize((params: InitializeParams): InitializeResult => {
+    hasConfigurationCapability = !!params.capabilities.workspace?.configuration;
+    hasWorkspaceFolderCapability = !!params.capabilities.workspace?.workspaceFolders;
+
+    const folders = params.workspaceFolders?.map(folder => folder.uri)
+        ?? (params.rootUri ? [params.rootUri] : []);
+    workspaceIndex.setRoots(folders);
+    includeResolver.setRoots(folders);
+    themeRegistry.setRoots(folders.map(uri => URI.parse(uri).fsPath));
+
+    return {
+        capabilities: {
+            textDocumentSync: TextDocumentSyncKind.Incremental,
+            completionProvider: {
+                triggerCharacters: ['@', ':', ' ', '"', '/']
+            },
+            hoverProvider: true,
+            documentFormattingProvider: true,
+            documentRangeFormattingProvider: true,
+            documentOnTypeFormattingProvider: {
+                firstTriggerCharacter: FORMAT_ON_TYPE_TRIGGERS[0],
+                moreTriggerCharacter: FORMAT_ON_TYPE_TRIGGERS.slice(1)
+            },
+            documentSymbolProvider: true,
+            workspaceSymbolProvider: true,
+            definitionProvider: true,
+            documentLinkProvider: {
+                resolveProvider: false
+            },
+            workspace: {
+                workspaceFolders: {
+                    supported: true,
+                    changeNotifications: true
+                }
+            }
+        },
+        serverInfo: {
+            name: 'osf-language-server'
+        }
+    };
+});
+
+connection.onInitialized(() => {
+    if (hasConfigurationCapability) {
+        connection.client.register(DidChangeConfigurationNotification.type, undefined);
+    }
+    if (hasWorkspaceFolderCapability) {
+        connection.workspace.onDidChangeWorkspaceFolders(async () => {
+            const folders = await connection.workspace.getWorkspaceFolders();
+            const roots = folders?.map(folder => folder.uri) ?? [];
+            workspaceIndex.setRoots(roots);
+            includeResolver.setRoots(roots);
+            themeRegistry.setRoots(roots.map(uri => URI.parse(uri).fsPath));
+            documents.all().forEach(document => workspaceIndex.update(document.uri, cache.get(document)));
+            documents.all().forEach(validateDocument);
+        });
+    }
+});
+
+function getSettings(uri: string): Thenable<OSFSettings> {
+    if (!hasConfigurationCapability) {
+        return Promise.resolve(globalSettings);
+    }
+
+    let settings = documentSettings.get(uri);
+    if (!settings) {
+        settings = connection.workspace
+            .getConfiguration({ scopeUri: uri, section: 'osf' })
+            .then(normalizeSettings);
+        documentSettings.set(uri, settings);
+    }
+    return settings;
+}
+
+connection.onDidChangeConfiguration(change => {
+    if (hasConfigurationCapability) {
+        documentSettings.clear();
+    } else {
+        globalSettings = normalizeSettings(change.settings?.osf);
+    }
+    documents.all().forEach(validateDocument);
+});
+
+async function validateDocument(document: TextDocument): Promise<void> {
+    const settings = await getSettings(document.uri);
+    const diagnostics = settings.linting.enabled
+        ? diagnosticsProvider.provideDiagnostics(document.uri, cache.get(document))
+        : [];
+    connection.sendDiagnostics({ uri: document.uri, diagnostics });
+}
+
+documents.onDidChangeContent(change => {
+    workspaceIndex.update(change.document.uri, cache.get(change.document));
+    validateDocument(change.document);
+
+    // Open documents that include this one may have gained or lost a circular include
+    const uri = URI.parse(change.document.uri);
+    if (uri.scheme === 'file') {
+        documents.all()
+            .filter(document => document !== change.document
+                && includeResolver.dependsOn(document.uri, cache.get(document), uri.fsPath))
+            .forEach(validateDocument);
+    }
+});
+
+documents.onDidClose(event => {
+    cache.delete(event.document.uri);
+    workspaceIndex.refresh(event.document.uri);
+    documentSettings.delete(event.document.uri);
+    connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
+});
+
+connection.onDidChangeWatchedFiles(params => {
+    for (const change of params.changes) {
+        includeResolver.invalidate(change.uri);
+        if (!change.uri.endsWith('.osf')) {
+            // A workspace theme file
+            themeRegistry.reload();
+        } else if (change.type === FileChangeType.Deleted) {
+            workspaceIndex.remove(change.uri);
+        } else if (!documents.get(change.uri)) {
+            workspaceIndex.refresh(change.uri);
+        }
+    }
+    // Included files may have appeared, disappeared or changed their own includes
+    documents.all().forEach(validateDocument);
+});
+
+connection.onCompletion(async params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return [];
+    }
+    const settings = await getSettings(document.uri);
+    if (!settings.completion.enabled) {
+        return [];
+    }
+    return completionProvider.provideCompletionItems(document, cache.get(document), params.position, params.context);
+});
+
+connection.onHover(params => {
+    const document = documents.get(params.textDocument.uri);
+    return document ? hoverProvider.provideHover(document, cache.get(document), params.position) : null;
+});
+
+connection.onDocumentFormatting(async params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return [];
+    }
+    const settings = await getSettings(document.uri);
+    return formattingProvider.provideDocumentFormattingEdits(cache.get(document), params.options, settings.format.lineWidth);
+});
+
+connection.onDocumentRangeFormatting(async params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return [];
+    }
+    const settings = await getSettings(document.uri);
+    return formattingProvider.provideDocumentRangeFormattingEdits(
+        cache.get(document),
+        params.range,
+        params.options,
+        settings.format.lineWidth
+    );
+});
+
+connection.onDocumentOnTypeFormatting(async params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) {
+        return [];
+    }
+    const settings = await getSettings(document.uri);
+    return formattingProvider.provideOnTypeFormattingEdits(
+        cache.get(document),
+        params.position,
+        params.ch,
+        params.options,
+        settings.format.lineWidth
+    );
+});
+
+connection.onDocumentSymbol(params => {
+    const document = documents.get(params.textDocument.uri);
+    return document ? symbolProvider.provideDocumentSymbols(cache.get(document)) : [];
+});
+
+connection.onWorkspaceSymbol(params => workspaceSymbolProvider.provideWorkspaceSymbols(params.query));
+
+connection.onDefinition(params => {
+    const document = documents.get(params.textDocument.uri);
+    return document ? definitionProvider.provideDefinition(document, cache.get(document), params.position) : null;
+});
+
+connection.onDocumentLinks(params => {
+    const document = documents.get(params.textDocument.uri);
+    return document ? documentLinkProvider.provideDocumentLinks(document.uri, cache.get(document)) : [];
+});
+
+documents.listen(connection);
+connection.listen();
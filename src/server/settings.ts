@@ -0,0 +1,39 @@
+// File: src/server/settings.ts
+
+/**
+ * Subset of the `osf.*` configuration that the language server reads.
+ */
+export interface OSFSettings {
+    linting: {
+        enabled: boolean;
+    };
+    completion: {
+        enabled: boolean;
+    };
+    format: {
+        lineWidth: number;
+    };
+}
+
+export const defaultSettings: OSFSettings = {
+    linting: { enabled: true },
+    completion: { enabled: true },
+    format: { lineWidth: 80 }
+};
+
+/**
+ * Merge a (possibly partial) configuration object from the client with the defaults.
+ */
+export function normalizeSettings(raw: any): OSFSettings {
+    return {
+        linting: {
+            enabled: raw?.linting?.enabled ?? defaultSettings.linting.enabled
+        },
+        completion: {
+            enabled: raw?.completion?.enabled ?? defaultSettings.completion.enabled
+        },
+        format: {
+            lineWidth: raw?.format?.lineWidth ?? defaultSettings.format.lineWidth
+        }
+    };
+}
@@ -0,0 +1,43 @@
+// File: src/server/textUtils.ts
+import { Position, Range } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+/**
+ * Split a document into lines without their line terminators.
+ */
+export function getLines(document: TextDocument): string[] {
+    return document.getText().split(/\r?\n/);
+}
+
+/**
+ * Text of a single line without its line terminator.
+ */
+export function getLineText(document: TextDocument, line: number): string {
+    return getLines(document)[line] ?? '';
+}
+
+/**
+ * Equivalent of `vscode.TextDocument.getWordRangeAtPosition` for LSP documents.
+ */
+export function getWordRangeAtPosition(
+    document: TextDocument,
+    position: Position,
+    pattern: RegExp = /\w+/
+): Range | undefined {
+    const lineText = getLineText(document, position.line);
+    const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(lineText)) !== null) {
+        const start = match.index;
+        const end = start + match[0].length;
+        if (start <= position.character && position.character <= end) {
+            return Range.create(position.line, start, position.line, end);
+        }
+        if (match[0].length === 0) {
+            regex.lastIndex++;
+        }
+    }
+
+    return undefined;
+}
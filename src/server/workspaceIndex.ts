@@ -0,0 +1,101 @@
+// File: src/server/workspaceIndex.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import { URI } from 'vscode-uri';
+import { parseDocumentModel } from '../model/documentModel';
+import type { DocumentModel } from '../model/types';
+
+/** Directories that never contain source `.osf` files worth indexing or including. */
+export const IGNORED_DIRECTORIES = new Set(['node_modules', '.git', 'out', 'dist', '.vscode-test']);
+
+/**
+ * In-memory index of every `.osf` file in the workspace folders.
+ *
+ * Files are read lazily the first time the index is queried; open documents
+ * replace the on-disk version so results always reflect unsaved edits.
+ */
+export class WorkspaceIndex {
+    private roots: string[] = [];
+    private models = new Map<string, DocumentModel>();
+    private indexing: Promise<void> | undefined;
+
+    setRoots(rootUris: string[]): void {
+        this.roots = rootUris.map(uri => URI.parse(uri).fsPath);
+        this.models.clear();
+        this.indexing = undefined;
+    }
+
+    async getModels(): Promise<Map<string, DocumentModel>> {
+        if (!this.indexing) {
+            this.indexing = this.indexRoots();
+        }
+        await this.indexing;
+        return this.models;
+    }
+
+    /**
+     * Record the current (possibly unsaved) model of an open document.
+     */
+    update(uri: string, model: DocumentModel): void {
+        this.models.set(uri, model);
+    }
+
+    /**
+     * Re-read a file from disk, e.g. after it was closed or changed outside the editor.
+     */
+    async refresh(uri: string): Promise<void> {
+        const model = await this.readModel(URI.parse(uri).fsPath);
+        if (model) {
+            this.models.set(uri, model);
+        } else {
+            this.models.delete(uri);
+        }
+    }
+
+    remove(uri: string): void {
+        this.models.delete(uri);
+    }
+
+    private async indexRoots(): Promise<void> {
+        for (const root of this.roots) {
+            for (const file of await this.findOSFFiles(root)) {
+                const uri = URI.file(file).toString();
+                if (this.models.has(uri)) {
+                    continue;
+                }
+                const model = await this.readModel(file);
+                if (model) {
+                    this.models.set(uri, model);
+                }
+            }
+        }
+    }
+
+    private async findOSFFiles(directory: string): Promise<string[]> {
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(directory, { withFileTypes: true });
+        } catch {
+            return [];
+        }
+
+        const files: string[] = [];
+        for (const entry of entries) {
+            const fullPath = path.join(directory, entry.name);
+            if (entry.isDirectory() && !IGNORED_DIRECTORIES.has(entry.name)) {
+                files.push(...await this.findOSFFiles(fullPath));
+            } else if (entry.isFile() && entry.name.endsWith('.osf')) {
+                files.push(fullPath);
+            }
+        }
+        return files;
+    }
+
+    private async readModel(file: string): Promise<DocumentModel | undefined> {
+        try {
+            return parseDocumentModel(await fs.promises.readFile(file, 'utf-8'));
+        } catch {
+            return undefined;
+        }
+    }
+}
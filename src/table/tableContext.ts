@@ -0,0 +1,53 @@
+// File: src/table/tableContext.ts
+import * as vscode from 'vscode';
+import { parseDocumentModel } from '../model/documentModel';
+import type { DocumentModel } from '../model/types';
+import { readTable } from './tableEditor';
+
+const IN_TABLE_CONTEXT = 'osf.inTable';
+
+/**
+ * Keeps the `osf.inTable` context key up to date, so that the table editing
+ * keybindings (Tab in particular) only apply while a single cursor or a
+ * selection within one line is on a row of an editable `@table`.
+ */
+export class TableContext implements vscode.Disposable {
+    private readonly disposables: vscode.Disposable[] = [];
+    private inTable = false;
+    /** The model of the last document looked at, reused until it changes. */
+    private cached: { document: vscode.TextDocument; version: number; model: DocumentModel } | undefined;
+
+    constructor() {
+        this.disposables.push(
+            vscode.window.onDidChangeTextEditorSelection(event => this.update(event.textEditor)),
+            vscode.window.onDidChangeActiveTextEditor(editor => this.update(editor))
+        );
+        this.update(vscode.window.activeTextEditor);
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private update(editor: vscode.TextEditor | undefined): void {
+        const selection = editor?.selection;
+        const inTable = editor !== undefined
+            && editor.document.languageId === 'osf'
+            && editor.selections.length === 1
+            && selection!.start.line === selection!.end.line
+            && editor.document.lineAt(selection!.active.line).text.includes('|')
+            && readTable(this.getModel(editor.document), selection!.active) !== undefined;
+
+        if (inTable !== this.inTable) {
+            this.inTable = inTable;
+            vscode.commands.executeCommand('setContext', IN_TABLE_CONTEXT, inTable);
+        }
+    }
+
+    private getModel(document: vscode.TextDocument): DocumentModel {
+        if (this.cached?.document !== document || this.cached.version !== document.version) {
+            this.cached = { document, version: document.version, model: parseDocumentModel(document.getText()) };
+        }
+        return this.cached.model;
+    }
+}
@@ -0,0 +1,291 @@
+// File: src/table/tableEditor.ts
+import { getBlockAt, getProperty } from '../model/documentModel';
+import {
+    getSeparatorAlignment,
+    getTableColumns,
+    printTableRow,
+    printTableSeparator,
+    type TableAlignment
+} from '../model/printer';
+import type { BlockNode, DocumentModel, Position, PropertyNode } from '../model/types';
+
+export type TableAction =
+    | 'insertRowAbove'
+    | 'insertRowBelow'
+    | 'deleteRow'
+    | 'insertColumnLeft'
+    | 'insertColumnRight'
+    | 'deleteColumn'
+    | 'moveColumnLeft'
+    | 'moveColumnRight'
+    | 'cycleAlignment'
+    | 'sortRows'
+    | 'nextCell'
+    | 'previousCell';
+
+const ALIGNMENTS: TableAlignment[] = ['left', 'center', 'right'];
+
+/**
+ * A row of the table as printed: the header, the separator (no cells) or a
+ * data row, with the comment and blank lines written above it.
+ */
+interface TableLine {
+    cells?: string[];
+    leading: string[];
+}
+
+/**
+ * A cell position in the table's lines: line 0 is the header, line 1 the
+ * separator and the data rows follow.
+ */
+export interface TableCursor {
+    line: number;
+    col: number;
+}
+
+/**
+ * The `@table` under the cursor, read for editing. Its rows span `start` to
+ * `end` in the source, each on a line of its own.
+ */
+export interface EditableTable {
+    block: BlockNode;
+    lines: TableLine[];
+    alignments: (TableAlignment | undefined)[];
+    /** The `alignment: [...]` property, which is kept in step with the separator row. */
+    alignmentProperty?: PropertyNode;
+    /** Whether the table is printed with an `alignment` property, existing or new. */
+    printsAlignment: boolean;
+    /** Comment lines that were above a deleted last row, printed after the rows. */
+    trailing: string[];
+    start: number;
+    end: number;
+    indent: string;
+    cursor: TableCursor;
+}
+
+/**
+ * Read the table whose rows the position is on. Tables without a header and
+ * separator, with a row that shares its line with other text, or with their
+ * `alignment` property between rows are not editable.
+ */
+export function readTable(model: DocumentModel, position: Position): EditableTable | undefined {
+    const block = getBlockAt(model, position);
+    if (block?.type !== 'table' || block.rows.length < 2 || block.rows[1].kind !== 'separator') {
+        return undefined;
+    }
+    const ownLine = block.rows.every(row => {
+        const line = model.index.lineText(row.range.start.line);
+        return row.range.start.line === row.range.end.line
+            && !line.slice(0, row.range.start.character).trim()
+            && !line.slice(row.range.end.character).trim();
+    });
+    const alignmentProperty = getProperty(block, 'alignment');
+    const firstRow = block.rows[0].range.start;
+    const lastRow = block.rows[block.rows.length - 1].range.end;
+    const betweenRows = alignmentProperty
+        && alignmentProperty.range.start.line > firstRow.line
+        && alignmentProperty.range.start.line < lastRow.line;
+    const cursorRow = block.rows.findIndex(row => row.range.start.line === position.line);
+    if (!ownLine || betweenRows || cursorRow === -1) {
+        return undefined;
+    }
+
+    const width = Math.max(...block.rows.map(row => row.cells.length));
+    const lines: TableLine[] = [];
+    let previousLine = block.rows[0].range.start.line;
+    for (const row of block.rows) {
+        const leading: string[] = [];
+        for (let line = previousLine + 1; line < row.range.start.line; line++) {
+            leading.push(model.index.lineText(line).trim());
+        }
+        previousLine = row.range.start.line;
+        lines.push({
+            cells: row.kind === 'separator' ? undefined : pad(row.cells.map(cell => cell.text), width),
+            leading
+        });
+    }
+
+    const lineText = model.index.lineText(position.line);
+    const rowStart = block.rows[cursorRow].range.start.character;
+    const pipes = lineText.slice(rowStart, position.character).split('|').length - 2;
+
+    return {
+        block,
+        lines,
+        alignments: readAlignments(block, alignmentProperty, width),
+        alignmentProperty,
+        printsAlignment: alignmentProperty !== undefined,
+        trailing: [],
+        start: model.index.offsetAt({ line: firstRow.line, character: 0 }),
+        end: model.index.offsetAt(lastRow),
+        indent: /^\s*/.exec(model.index.lineText(firstRow.line))![0],
+        cursor: { line: cursorRow, col: Math.min(Math.max(pipes, 0), width - 1) }
+    };
+}
+
+/**
+ * Apply an editing action to the table and move its cursor. Returns a
+ * message instead when the action cannot apply at the cursor.
+ */
+export function editTable(table: EditableTable, action: TableAction): EditableTable | string {
+    const lines: TableLine[] = table.lines.map(line => ({ cells: line.cells && [...line.cells], leading: [...line.leading] }));
+    const alignments = [...table.alignments];
+    const width = alignments.length;
+    const { col } = table.cursor;
+    // The separator row edits like the header
+    const line = table.cursor.line === 1 ? 0 : table.cursor.line;
+    const result = { ...table, lines, alignments, cursor: { line, col } };
+
+    switch (action) {
+        case 'insertRowAbove':
+        case 'insertRowBelow': {
+            const at = action === 'insertRowBelow' ? Math.max(line + 1, 2) : Math.max(line, 2);
+            lines.splice(at, 0, { cells: pad([], width), leading: [] });
+            result.cursor = { line: at, col };
+            break;
+        }
+        case 'deleteRow': {
+            if (line < 2) {
+                return 'The header row of a table cannot be deleted.';
+            }
+            const [removed] = lines.splice(line, 1);
+            // Comments above the deleted row stay where they were
+            if (line < lines.length) {
+                lines[line].leading.unshift(...removed.leading);
+            } else {
+                result.trailing = [...removed.leading, ...table.trailing];
+            }
+            const next = Math.min(line, lines.length - 1);
+            result.cursor = { line: next < 2 ? 0 : next, col };
+            break;
+        }
+        case 'insertColumnLeft':
+        case 'insertColumnRight': {
+            const at = action === 'insertColumnRight' ? col + 1 : col;
+            lines.forEach(row => row.cells?.splice(at, 0, ''));
+            alignments.splice(at, 0, table.printsAlignment ? 'left' : undefined);
+            result.cursor = { line: 0, col: at };
+            break;
+        }
+        case 'deleteColumn':
+            if (width === 1) {
+                return 'A table needs at least one column.';
+            }
+            lines.forEach(row => row.cells?.splice(col, 1));
+            alignments.splice(col, 1);
+            result.cursor = { line, col: Math.min(col, width - 2) };
+            break;
+        case 'moveColumnLeft':
+        case 'moveColumnRight': {
+            const to = action === 'moveColumnRight' ? col + 1 : col - 1;
+            if (to < 0 || to >= width) {
+                break;
+            }
+            lines.forEach(row => row.cells && swap(row.cells, col, to));
+            swap(alignments, col, to);
+            result.cursor = { line, col: to };
+            break;
+        }
+        case 'cycleAlignment': {
+            const current = ALIGNMENTS.indexOf(alignments[col] ?? 'left');
+            alignments.forEach((alignment, i) => (alignments[i] = alignment ?? 'left'));
+            alignments[col] = ALIGNMENTS[(current + 1) % ALIGNMENTS.length];
+            result.printsAlignment = true;
+            break;
+        }
+        case 'sortRows':
+            lines.splice(2, lines.length - 2, ...sortRows(lines.slice(2), col));
+            break;
+        case 'nextCell':
+            if (col < width - 1) {
+                result.cursor = { line, col: col + 1 };
+            } else {
+                // Tab in the last cell adds a row, as in a spreadsheet
+                if (line === lines.length - 1 || lines.length === 2) {
+                    lines.push({ cells: pad([], width), leading: [] });
+                }
+                result.cursor = { line: Math.max(line + 1, 2), col: 0 };
+            }
+            break;
+        case 'previousCell':
+            if (col > 0) {
+                result.cursor = { line, col: col - 1 };
+            } else if (line > 0) {
+                result.cursor = { line: line === 2 ? 0 : line - 1, col: width - 1 };
+            }
+            break;
+    }
+    return result;
+}
+
+/** The table's rows, aligned, with the comment lines between them. */
+export function printTable(table: EditableTable): string {
+    const rows = table.lines.filter(line => line.cells).map(line => line.cells!);
+    const columns = getTableColumns(rows, table.alignments);
+    return table.lines
+        .flatMap(line => [
+            ...line.leading.map(text => (text ? table.indent + text : '')),
+            table.indent + (line.cells ? printTableRow(line.cells, columns) : printTableSeparator(columns))
+        ])
+        .concat(table.trailing.map(text => (text ? table.indent + text : '')))
+        .join('\n');
+}
+
+/** The value of the table's `alignment` property, with every column's alignment. */
+export function printAlignmentValue(table: EditableTable): string {
+    return `[${table.alignments.map(alignment => `"${alignment ?? 'left'}"`).join(', ')}]`;
+}
+
+/**
+ * Column alignments from the `alignment` property, which the preview and
+ * exports use, or else from the separator row's `:` markers.
+ */
+function readAlignments(
+    block: BlockNode,
+    property: PropertyNode | undefined,
+    width: number
+): (TableAlignment | undefined)[] {
+    const value = property?.value;
+    if (Array.isArray(value)) {
+        return Array.from({ length: width }, (_value, i) => {
+            const alignment = value[i];
+            return typeof alignment === 'string' && ALIGNMENTS.includes(alignment as TableAlignment)
+                ? alignment as TableAlignment
+                : 'left';
+        });
+    }
+    const separator = block.rows[1].cells;
+    return Array.from({ length: width }, (_value, i) => getSeparatorAlignment(separator[i]?.text ?? ''));
+}
+
+/**
+ * Rows sorted by a column, with their comments: numbers by value, other text
+ * in natural order and empty cells last. Rows already in ascending order are
+ * sorted descending, so sorting twice toggles the direction.
+ */
+function sortRows(rows: TableLine[], col: number): TableLine[] {
+    const compare = (direction: number) => (a: TableLine, b: TableLine) => {
+        const x = a.cells![col];
+        const y = b.cells![col];
+        return !x || !y ? Number(!x) - Number(!y) : direction * compareCells(x, y);
+    };
+    const ascending = rows.every((row, i) => i === 0 || compare(1)(rows[i - 1], row) <= 0);
+    return [...rows].sort(compare(ascending ? -1 : 1));
+}
+
+function compareCells(a: string, b: string): number {
+    const x = Number(a.replace(/,/g, ''));
+    const y = Number(b.replace(/,/g, ''));
+    if (Number.isFinite(x) && Number.isFinite(y)) {
+        return x - y;
+    }
+    return a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+}
+
+function pad(cells: string[], width: number): string[] {
+    return Array.from({ length: width }, (_value, i) => cells[i] ?? '');
+}
+
+function swap<T>(items: T[], i: number, j: number): void {
+    [items[i], items[j]] = [items[j], items[i]];
+}
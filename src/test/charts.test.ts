@@ -0,0 +1,40 @@
+// File: src/test/charts.test.ts
+import * as assert from 'assert';
+import { test } from 'node:test';
+import { parse, type ChartBlock } from 'omniscript-parser';
+import { getParsedBlockNodes, parseDocumentModel } from '../model/documentModel';
+import { renderChartSVG } from '../preview/charts';
+import { BUILTIN_THEMES } from '../themes/themes';
+
+const palette = BUILTIN_THEMES[0].palette;
+
+function renderChart(text: string): string {
+    const document = parse(text);
+    const [node] = getParsedBlockNodes(document, parseDocumentModel(text));
+    return renderChartSVG(document.blocks[0] as ChartBlock, palette, node);
+}
+
+test('chart axis titles and legend are read from top-level properties', () => {
+    const svg = renderChart(`@chart {
+    type: "bar";
+    title: "Revenue";
+    data: [{ label: "2024"; values: [1, 2]; }, { label: "2025"; values: [2, 3]; }];
+    xAxis: "Quarter";
+    yAxis: "Revenue";
+    legend: false;
+}`);
+    assert.ok(svg.includes('>Quarter</text>'));
+    assert.ok(svg.includes('>Revenue</text>'));
+    assert.ok(!svg.includes('>2024</text>'));
+});
+
+test('chart axis titles and legend fall back to options', () => {
+    const svg = renderChart(`@chart {
+    type: "line";
+    title: "Revenue";
+    data: [{ label: "2024"; values: [1, 2]; }];
+    options: { xAxis: "Quarter"; legend: true; };
+}`);
+    assert.ok(svg.includes('>Quarter</text>'));
+    assert.ok(svg.includes('>2024</text>'));
+});
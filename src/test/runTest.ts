@@ -0,0 +1,20 @@
+// File: src/test/runTest.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import { run } from 'node:test';
+import { spec } from 'node:test/reporters';
+
+/**
+ * Run the `*.test.js` files next to this one with Node's test runner. They
+ * cover modules that do not use the VS Code API.
+ */
+const files = fs.readdirSync(__dirname)
+    .filter(file => file.endsWith('.test.js'))
+    .map(file => path.join(__dirname, file));
+
+run({ files })
+    .on('test:fail', () => {
+        process.exitCode = 1;
+    })
+    .compose(new spec())
+    .pipe(process.stdout);
@@ -0,0 +1,270 @@
+// File: src/themes/themeRegistry.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import type { OSFDocument } from 'omniscript-parser';
+import { getParsedBlockNodes, getProperty } from '../model/documentModel';
+import type { BlockNode, DocumentModel } from '../model/types';
+import { BUILTIN_THEMES, DEFAULT_THEME, type ThemeDefinition, type ThemeFonts, type ThemePalette } from './themes';
+
+/** Directory of a workspace folder that holds custom theme files. */
+export const THEME_DIRECTORY = path.join('.osf', 'themes');
+
+/** Colours a theme file may set, besides `series`. */
+const COLOR_KEYS = ['accent', 'text', 'muted', 'grid', 'background'] as const;
+const FONT_KEYS = ['body', 'heading', 'code'] as const;
+
+export interface ThemeLoadError {
+    file: string;
+    message: string;
+}
+
+/**
+ * Theme of a document, and of each of its blocks indexed like `document.blocks`.
+ */
+export interface ResolvedThemes {
+    document: ThemeDefinition;
+    blocks: ThemeDefinition[];
+}
+
+/**
+ * The built-in themes plus those defined in `.osf/themes/*.json` and
+ * `.osf/themes/*.css` of each workspace folder. A workspace theme is named
+ * after its file, and replaces a built-in theme of the same name.
+ *
+ * A JSON theme looks like
+ *
+ * ```json
+ * {
+ *   "description": "ACME brand",
+ *   "extends": "corporate",
+ *   "colors": { "accent": "#e30613", "text": "#1a1a1a", "series": ["#e30613", "#1a1a1a"] },
+ *   "fonts": { "body": "Inter, sans-serif", "heading": "Montserrat, sans-serif" }
+ * }
+ * ```
+ *
+ * A CSS theme sets the same values as `--osf-*` custom properties
+ * (`--osf-accent`, `--osf-series: #e30613, #1a1a1a`, `--osf-font-body`,
+ * `--osf-extends`, ...) and the whole file is appended to the preview styles.
+ */
+export class ThemeRegistry {
+    private roots: string[] = [];
+    private workspaceThemes = new Map<string, ThemeDefinition>();
+    private loadErrors: ThemeLoadError[] = [];
+
+    /**
+     * @param roots absolute paths of the workspace folders
+     */
+    setRoots(roots: string[]): void {
+        this.roots = roots;
+        this.reload();
+    }
+
+    /**
+     * Re-read the theme files, e.g. after one of them changed.
+     */
+    reload(): void {
+        this.workspaceThemes.clear();
+        this.loadErrors = [];
+
+        for (const root of this.roots) {
+            const directory = path.join(root, THEME_DIRECTORY);
+            let files: string[];
+            try {
+                files = fs.readdirSync(directory).filter(file => /\.(json|css)$/i.test(file)).sort();
+            } catch {
+                continue;
+            }
+
+            for (const file of files) {
+                const fullPath = path.join(directory, file);
+                try {
+                    const theme = parseThemeFile(fullPath, fs.readFileSync(fullPath, 'utf8'));
+                    if (!this.workspaceThemes.has(theme.name)) {
+                        this.workspaceThemes.set(theme.name, theme);
+                    }
+                } catch (error: any) {
+                    this.loadErrors.push({ file: fullPath, message: error?.message || String(error) });
+                }
+            }
+        }
+    }
+
+    /** Theme files that could not be loaded by the last `reload`. */
+    get errors(): ThemeLoadError[] {
+        return this.loadErrors;
+    }
+
+    get(name: string): ThemeDefinition | undefined {
+        return this.workspaceThemes.get(name) ?? BUILTIN_THEMES.find(theme => theme.name === name);
+    }
+
+    /**
+     * The named theme, or the default theme when there is no such theme.
+     */
+    resolve(name: string | undefined): ThemeDefinition {
+        return (name ? this.get(name) : undefined) ?? this.get(DEFAULT_THEME)!;
+    }
+
+    /**
+     * Themes of a parsed document and its blocks. Each block uses the first
+     * known theme of: its own `theme` property, the `theme` of `@meta`,
+     * `fallback` (the `osf.preview.theme` setting) and the default theme.
+     * Unknown names are skipped here and reported as diagnostics.
+     */
+    resolveThemes(document: OSFDocument, model: DocumentModel, fallback: string | undefined): ResolvedThemes {
+        return this.resolveBlockThemes(model, getParsedBlockNodes(document, model), fallback);
+    }
+
+    /**
+     * Themes of a document and of blocks given by their model blocks, which
+     * may come from other files (the blocks of inlined includes).
+     */
+    resolveBlockThemes(model: DocumentModel, blocks: (BlockNode | undefined)[], fallback: string | undefined): ResolvedThemes {
+        const meta = model.blocks.find(block => block.type === 'meta');
+        const documentTheme = this.getBlockTheme(meta) ?? this.resolve(fallback);
+        return {
+            document: documentTheme,
+            blocks: blocks.map(block => (block?.type === 'meta' ? undefined : this.getBlockTheme(block)) ?? documentTheme)
+        };
+    }
+
+    /** Every available theme, built-in ones first. */
+    list(): ThemeDefinition[] {
+        const builtins = BUILTIN_THEMES.filter(theme => !this.workspaceThemes.has(theme.name));
+        return [...builtins, ...this.workspaceThemes.values()];
+    }
+
+    private getBlockTheme(block: BlockNode | undefined): ThemeDefinition | undefined {
+        const name = block && getProperty(block, 'theme')?.value;
+        return typeof name === 'string' ? this.get(name) : undefined;
+    }
+}
+
+/**
+ * Parse a `.json` or `.css` theme file. Throws with a readable message when
+ * the file is not a valid theme.
+ */
+export function parseThemeFile(file: string, text: string): ThemeDefinition {
+    const name = path.basename(file).replace(/\.(json|css)$/i, '');
+    if (!/^[\w-]+$/.test(name)) {
+        throw new Error(`Theme file names may only contain letters, digits, "-" and "_" (got "${name}")`);
+    }
+
+    return /\.css$/i.test(file)
+        ? parseCSSTheme(name, file, text)
+        : parseJSONTheme(name, file, text);
+}
+
+function parseJSONTheme(name: string, file: string, text: string): ThemeDefinition {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch (error: any) {
+        throw new Error(`Invalid JSON: ${error.message}`);
+    }
+    if (!isObject(data)) {
+        throw new Error('A theme file must contain a JSON object');
+    }
+    for (const key of ['colors', 'fonts']) {
+        if (data[key] !== undefined && !isObject(data[key])) {
+            throw new Error(`"${key}" must be an object`);
+        }
+    }
+
+    const colors = data.colors ?? {};
+    const fonts = data.fonts ?? {};
+    if (colors.series !== undefined && (!Array.isArray(colors.series) || colors.series.length === 0)) {
+        throw new Error('"colors.series" must be a non-empty array of colours');
+    }
+
+    const values: Record<string, unknown> = {
+        description: data.description,
+        extends: data.extends,
+        series: colors.series
+    };
+    COLOR_KEYS.forEach(key => values[key] = colors[key]);
+    FONT_KEYS.forEach(key => values[`font-${key}`] = fonts[key]);
+
+    return buildTheme(name, file, values);
+}
+
+function parseCSSTheme(name: string, file: string, text: string): ThemeDefinition {
+    const values: Record<string, unknown> = {};
+    const pattern = /--osf-([\w-]+)\s*:\s*([^;}]+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        // A quoted value such as `--osf-extends: "corporate"` is unwrapped
+        const value = match[2].trim().replace(/^(["'])([^"']*)\1$/, '$2');
+        values[match[1]] = match[1] === 'series' ? value.split(',').map(color => color.trim()) : value;
+    }
+
+    // The file ends up inside a <style> element, which it must not close
+    return { ...buildTheme(name, file, values), css: text.replace(/<\/style/gi, '<\\/style') };
+}
+
+/**
+ * Build a theme from the values of a theme file, filling in the rest from the
+ * built-in theme it extends.
+ */
+function buildTheme(name: string, file: string, values: Record<string, unknown>): ThemeDefinition {
+    const baseName = values.extends === undefined ? DEFAULT_THEME : readString(values, 'extends');
+    const base = BUILTIN_THEMES.find(theme => theme.name === baseName);
+    if (!base) {
+        throw new Error(`Unknown base theme "${baseName}"; use one of ${BUILTIN_THEMES.map(theme => theme.name).join(', ')}`);
+    }
+
+    const palette: ThemePalette = { ...base.palette };
+    const series = values.series;
+    if (series !== undefined) {
+        palette.series = (series as unknown[]).map((color, i) => readCSSValue(`series[${i}]`, color));
+    }
+    for (const key of ['text', 'muted', 'grid', 'background'] as const) {
+        if (values[key] !== undefined) {
+            palette[key] = readCSSValue(key, values[key]);
+        }
+    }
+
+    const fonts: ThemeFonts = { ...base.fonts };
+    for (const key of FONT_KEYS) {
+        if (values[`font-${key}`] !== undefined) {
+            fonts[key] = readCSSValue(`font-${key}`, values[`font-${key}`]);
+        }
+    }
+
+    return {
+        name,
+        description: values.description === undefined
+            ? `Workspace theme based on ${base.name}`
+            : readString(values, 'description'),
+        base: base.name,
+        accent: values.accent === undefined ? palette.series[0] : readCSSValue('accent', values.accent),
+        palette,
+        fonts,
+        source: file
+    };
+}
+
+function readString(values: Record<string, unknown>, key: string): string {
+    const value = values[key];
+    if (typeof value !== 'string') {
+        throw new Error(`"${key}" must be a string`);
+    }
+    return value;
+}
+
+/**
+ * A colour or font value, which is written into the preview's styles.
+ */
+function readCSSValue(key: string, value: unknown): string {
+    if (typeof value !== 'string' || !value.trim()) {
+        throw new Error(`"${key}" must be a non-empty string`);
+    }
+    if (/[;{}<>]/.test(value)) {
+        throw new Error(`"${key}" contains characters that are not allowed in a CSS value`);
+    }
+    return value.trim();
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
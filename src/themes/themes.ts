@@ -0,0 +1,188 @@
+// File: src/themes/themes.ts
+
+/**
+ * Colours a theme uses for the page and for generated graphics such as charts.
+ */
+export interface ThemePalette {
+    /** Series colours, used in order and repeated when there are more series. */
+    series: string[];
+    text: string;
+    muted: string;
+    grid: string;
+    background: string;
+}
+
+/** Palettes of the built-in themes. */
+export const THEME_PALETTES: Record<string, ThemePalette> = {
+    default: {
+        series: ['#0366d6', '#28a745', '#f66a0a', '#6f42c1', '#d73a49', '#17a2b8', '#ffc107', '#6a737d'],
+        text: '#333333',
+        muted: '#6a737d',
+        grid: '#e1e4e8',
+        background: '#ffffff'
+    },
+    minimal: {
+        series: ['#111111', '#555555', '#888888', '#aaaaaa', '#333333', '#777777'],
+        text: '#222222',
+        muted: '#666666',
+        grid: '#eeeeee',
+        background: '#ffffff'
+    },
+    corporate: {
+        series: ['#1a365d', '#2b6cb0', '#4299e1', '#718096', '#2c7a7b', '#90cdf4'],
+        text: '#2d3748',
+        muted: '#4a5568',
+        grid: '#e2e8f0',
+        background: '#ffffff'
+    },
+    academic: {
+        series: ['#2d3748', '#9b2c2c', '#2c5282', '#276749', '#744210', '#553c9a'],
+        text: '#1a202c',
+        muted: '#4a5568',
+        grid: '#e2e8f0',
+        background: '#ffffff'
+    },
+    creative: {
+        series: ['#ec4899', '#8b5cf6', '#f59e0b', '#10b981', '#3b82f6', '#ef4444'],
+        text: '#1f2937',
+        muted: '#6b7280',
+        grid: '#f3e8ff',
+        background: '#ffffff'
+    },
+    technical: {
+        series: ['#0ea5e9', '#22c55e', '#f97316', '#a855f7', '#64748b', '#eab308'],
+        text: '#0f172a',
+        muted: '#475569',
+        grid: '#e2e8f0',
+        background: '#ffffff'
+    },
+    retro: {
+        series: ['#d35400', '#16a085', '#c0392b', '#f39c12', '#8e44ad', '#2c3e50'],
+        text: '#3e2723',
+        muted: '#795548',
+        grid: '#efe0c9',
+        background: '#fdf6e3'
+    },
+    modern: {
+        series: ['#6366f1', '#06b6d4', '#8b5cf6', '#10b981', '#f43f5e', '#f59e0b'],
+        text: '#1f2937',
+        muted: '#6b7280',
+        grid: '#e5e7eb',
+        background: '#ffffff'
+    },
+    elegant: {
+        series: ['#4a3b5c', '#b08d57', '#7d8597', '#8c5e58', '#5c7a6b', '#c9b79c'],
+        text: '#2e2a33',
+        muted: '#6e6673',
+        grid: '#ebe6ef',
+        background: '#ffffff'
+    },
+    bold: {
+        series: ['#e11d48', '#2563eb', '#facc15', '#16a34a', '#9333ea', '#ea580c'],
+        text: '#111827',
+        muted: '#374151',
+        grid: '#d1d5db',
+        background: '#ffffff'
+    }
+};
+
+/**
+ * Font stacks of a theme.
+ */
+export interface ThemeFonts {
+    body: string;
+    heading: string;
+    code: string;
+}
+
+/**
+ * A preview and export theme: one of the built-in themes, or one defined in a
+ * workspace folder under `.osf/themes/`.
+ */
+export interface ThemeDefinition {
+    name: string;
+    description: string;
+    /** Built-in theme this one extends; exporters that only know the built-in themes use it. */
+    base: string;
+    /** Colour of titles, headings and links. */
+    accent: string;
+    palette: ThemePalette;
+    fonts: ThemeFonts;
+    /** Extra CSS appended to the preview stylesheet, from a `.css` theme file. */
+    css?: string;
+    /** Absolute path of the file a workspace theme was loaded from. */
+    source?: string;
+}
+
+export const DEFAULT_THEME = 'default';
+
+const SYSTEM_FONTS = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif';
+const SERIF_FONTS = 'Georgia, "Times New Roman", serif';
+const MONOSPACE_FONTS = '"SF Mono", Menlo, Consolas, "Liberation Mono", monospace';
+
+const BUILTIN_THEME_INFO: Record<string, { description: string; fonts?: Partial<ThemeFonts> }> = {
+    default: { description: 'Clean, neutral styling' },
+    minimal: { description: 'Black and white with plenty of whitespace' },
+    corporate: { description: 'Navy and blue business styling' },
+    academic: { description: 'Serif type for papers and reports', fonts: { body: SERIF_FONTS, heading: SERIF_FONTS } },
+    creative: { description: 'Bright pink and purple accents' },
+    technical: { description: 'Sky blue accents with monospace headings', fonts: { heading: MONOSPACE_FONTS } },
+    retro: { description: 'Earthy colours on a cream background', fonts: { heading: SERIF_FONTS } },
+    modern: { description: 'Indigo and cyan accents' },
+    elegant: { description: 'Plum and gold with serif headings', fonts: { heading: SERIF_FONTS } },
+    bold: { description: 'Strong primary colours' }
+};
+
+/** The themes that ship with the extension. */
+export const BUILTIN_THEMES: ThemeDefinition[] = Object.entries(THEME_PALETTES).map(([name, palette]) => ({
+    name,
+    description: BUILTIN_THEME_INFO[name].description,
+    base: name,
+    accent: palette.series[0],
+    palette,
+    fonts: { body: SYSTEM_FONTS, heading: SYSTEM_FONTS, code: MONOSPACE_FONTS, ...BUILTIN_THEME_INFO[name].fonts }
+}));
+
+/**
+ * Theme values as `--osf-*` CSS custom property declarations, for a `:root`
+ * rule or the `style` attribute of a block with its own theme.
+ */
+export function getThemeVariables(theme: ThemeDefinition): string {
+    const series = theme.palette.series;
+    const variables: Record<string, string> = {
+        /* eslint-disable @typescript-eslint/naming-convention */
+        accent: theme.accent,
+        text: theme.palette.text,
+        muted: theme.palette.muted,
+        grid: theme.palette.grid,
+        background: theme.palette.background,
+        'series-1': series[0],
+        'series-2': series[1 % series.length],
+        'series-3': series[2 % series.length],
+        'series-4': series[3 % series.length],
+        'font-body': theme.fonts.body,
+        'font-heading': theme.fonts.heading,
+        'font-code': theme.fonts.code
+        /* eslint-enable @typescript-eslint/naming-convention */
+    };
+    return Object.entries(variables).map(([name, value]) => `--osf-${name}: ${value};`).join(' ');
+}
+
+/**
+ * Theme values as a flat object, in the form exporters receive them as
+ * `customStyles`.
+ */
+export function getThemeTokens(theme: ThemeDefinition): Record<string, string | string[]> {
+    return {
+        name: theme.name,
+        accent: theme.accent,
+        text: theme.palette.text,
+        muted: theme.palette.muted,
+        grid: theme.palette.grid,
+        background: theme.palette.background,
+        series: theme.palette.series,
+        fontBody: theme.fonts.body,
+        fontHeading: theme.fonts.heading,
+        fontCode: theme.fonts.code
+    };
+}
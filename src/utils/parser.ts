@@ -1,9 +1,10 @@
-// File: src/utils/parser.ts
 /**
  * Utility wrapper around omniscript-parser for use in the extension.
  */
 
 import { parse as osfParse } from 'omniscript-parser';
+import { parseDocumentModel } from '../model/documentModel';
+import type { ModelError } from '../model/types';
 
 export interface ParseResult {
     success: boolean;
@@ -13,6 +14,8 @@ export interface ParseResult {
         line?: number;
         column?: number;
     };
+    /** Every problem found in the document, with exact source ranges. */
+    errors?: ModelError[];
 }
 
 /**
@@ -26,17 +29,19 @@ export function safeParse(text: string): ParseResult {
             document
         };
     } catch (error: any) {
-        // Try to extract line/column information from error
-        const lineMatch = error.message?.match(/line (\d+)/i);
-        const columnMatch = error.message?.match(/column (\d+)/i);
+        // The parser only reports the first problem and no reliable position,
+        // so locate errors with the position-aware document model instead
+        const errors = parseDocumentModel(text).errors.filter(e => e.severity === 'error');
+        const first = errors[0];
         
         return {
             success: false,
             error: {
                 message: error.message || 'Unknown parse error',
-                line: lineMatch ? parseInt(lineMatch[1], 10) : undefined,
-                column: columnMatch ? parseInt(columnMatch[1], 10) : undefined
-            }
+                line: first ? first.range.start.line + 1 : undefined,
+                column: first ? first.range.start.character + 1 : undefined
+            },
+            errors
         };
     }
 }
@@ -53,28 +58,18 @@ export function validate(text: string): string[] {
         return errors;
     }
     
-    // Check for balanced braces
-    let braceCount = 0;
-    for (const char of text) {
-        if (char === '{') {
-            braceCount++;
-        }
-        if (char === '}') {
-            braceCount--;
-        }
-        if (braceCount < 0) {
-            errors.push('Unmatched closing brace');
-            break;
+    for (const error of parseDocumentModel(text).errors) {
+        if (error.severity === 'error') {
+            errors.push(`${error.message} (line ${error.range.start.line + 1})`);
         }
     }
-    if (braceCount > 0) {
-        errors.push('Unclosed block - missing closing brace');
-    }
     
-    // Try parsing
-    const result = safeParse(text);
-    if (!result.success && result.error) {
-        errors.push(result.error.message);
+    // Fall back to the parser's own message if the model found nothing
+    if (errors.length === 0) {
+        const result = safeParse(text);
+        if (!result.success && result.error) {
+            errors.push(result.error.message);
+        }
     }
     
     return errors;